@@ -8,6 +8,8 @@ import { PlayersScreen } from './screens/PlayersScreen';
 import { VenueSetupScreen } from './screens/VenueSetupScreen';
 import { PublicLeaderboardScreen } from './screens/PublicLeaderboardScreen';
 import { PublicSessionScreen } from './screens/PublicSessionScreen';
+import { PublicBracketScreen } from './screens/PublicBracketScreen';
+import { BracketScreen } from './screens/BracketScreen';
 import { LandingScreen } from './screens/LandingScreen';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { getLocalVenue } from './utils/supabase';
@@ -17,9 +19,10 @@ const HAS_VISITED_KEY = 'pickleq_has_visited';
 
 // Parse initial route from URL (runs once at load time)
 function parseInitialRoute(): {
-  type: 'landing' | 'app' | 'venue' | 'session';
+  type: 'landing' | 'app' | 'venue' | 'session' | 'bracket';
   venueSlug?: string;
   sessionId?: string;
+  bracketId?: string;
 } {
   // Handle GitHub Pages SPA redirect
   const params = new URLSearchParams(window.location.search);
@@ -42,6 +45,12 @@ function parseInitialRoute(): {
     return { type: 'session', venueSlug: sessionMatch[1], sessionId: sessionMatch[2] };
   }
 
+  // /venue/:slug/bracket/:bracketId - public tournament bracket
+  const bracketMatch = path.match(/^\/venue\/([a-z0-9-]+)\/bracket\/([a-z0-9-]+)\/?$/i);
+  if (bracketMatch) {
+    return { type: 'bracket', venueSlug: bracketMatch[1], bracketId: bracketMatch[2] };
+  }
+
   // /venue/:slug - public venue leaderboard
   const venueMatch = path.match(/^\/venue\/([a-z0-9-]+)\/?$/i);
   if (venueMatch) {
@@ -64,6 +73,8 @@ function AppContent() {
       return <SetupScreen />;
     case 'play':
       return <PlayScreen />;
+    case 'bracket':
+      return <BracketScreen />;
     case 'leaderboard':
       return <LeaderboardScreen />;
     case 'global-leaderboard':
@@ -111,6 +122,15 @@ function App() {
     );
   }
 
+  // Public tournament bracket (refreshes while the event runs)
+  if (route.type === 'bracket' && route.venueSlug && route.bracketId) {
+    return (
+      <ErrorBoundary>
+        <PublicBracketScreen slug={route.venueSlug} bracketId={route.bracketId} />
+      </ErrorBoundary>
+    );
+  }
+
   // Public venue leaderboard (no session provider needed)
   if (route.type === 'venue' && route.venueSlug) {
     return (
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import type { AvoidPair } from '../types';
+import { Button } from './Button';
+
+interface AvoidListEditorProps {
+  avoidList: AvoidPair[];
+  playerNames: string[];
+  onAdd: (player1: string, player2: string, reason: string | null) => void;
+  onRemove: (avoidPairId: string) => void;
+}
+
+export function AvoidListEditor({ avoidList, playerNames, onAdd, onRemove }: AvoidListEditorProps) {
+  const [player1, setPlayer1] = useState('');
+  const [player2, setPlayer2] = useState('');
+  const [reason, setReason] = useState('');
+
+  const canAdd = player1 !== '' && player2 !== '' && player1 !== player2;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd(player1, player2, reason.trim() || null);
+    setPlayer1('');
+    setPlayer2('');
+    setReason('');
+  };
+
+  const selectClass = 'flex-1 min-w-0 px-2 py-2 border-2 border-gray-200 rounded-lg bg-white focus:border-blue-500 focus:outline-none';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm overflow-hidden">
+      <div className="bg-gray-100 px-4 py-3 border-b">
+        <h2 className="font-semibold text-gray-700">Avoid List</h2>
+        <p className="text-xs text-gray-500">These players are never put on the same court</p>
+      </div>
+
+      <div className="p-4 space-y-2">
+        <div className="flex gap-2">
+          <select value={player1} onChange={(e) => setPlayer1(e.target.value)} className={selectClass}>
+            <option value="">Player...</option>
+            {playerNames.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <select value={player2} onChange={(e) => setPlayer2(e.target.value)} className={selectClass}>
+            <option value="">Player...</option>
+            {playerNames.filter(name => name !== player1).map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className="flex-1 min-w-0 px-3 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+          />
+          <Button variant="primary" size="sm" onClick={handleAdd} disabled={!canAdd}>
+            Add
+          </Button>
+        </div>
+      </div>
+
+      {avoidList.length > 0 && (
+        <div className="divide-y divide-gray-100 border-t">
+          {avoidList.map(pair => (
+            <div key={pair.id} className="px-4 py-3 flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="font-medium text-gray-900 truncate">
+                  {pair.player1} <span className="text-gray-400">✕</span> {pair.player2}
+                </div>
+                {pair.reason && <div className="text-xs text-gray-500 truncate">{pair.reason}</div>}
+              </div>
+              <button
+                onClick={() => onRemove(pair.id)}
+                className="text-gray-400 hover:text-red-500 p-2"
+                title="Remove from avoid list"
+              >
+                🗑️
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import type { Bracket, BracketMatch } from '../types';
+import { BRACKET_BYE } from '../types';
+import { getEntrantName, getRoundLabel } from '../utils/bracket';
+
+interface BracketViewProps {
+  bracket: Bracket;
+  liveMatchIds?: string[]; // Court matches being played right now
+}
+
+function MatchBox({ bracket, match, isLive }: { bracket: Bracket; match: BracketMatch; isLive: boolean }) {
+  const seedOf = (id: string | null) => bracket.entrants.find(e => e.id === id)?.seed;
+
+  const row = (entrantId: string | null) => {
+    const isWinner = match.winner !== null && match.winner === entrantId;
+    const isLoser = match.winner !== null && !isWinner;
+    const seed = seedOf(entrantId);
+    return (
+      <div className={`flex items-center gap-2 px-2 py-1 text-sm ${isWinner ? 'font-bold text-gray-900' : ''} ${
+        isLoser ? 'text-gray-400' : 'text-gray-700'
+      }`}>
+        <span className="text-xs text-gray-400 w-4 text-right">{seed ?? ''}</span>
+        <span className={`flex-1 min-w-0 truncate ${entrantId === null || entrantId === BRACKET_BYE ? 'italic text-gray-400' : ''}`}>
+          {getEntrantName(bracket, entrantId)}
+        </span>
+        {isWinner && <span className="text-green-600 text-xs">✓</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`w-48 rounded-lg border bg-white divide-y ${isLive ? 'border-red-400' : 'border-gray-200'}`}>
+      {row(match.entrant1)}
+      {row(match.entrant2)}
+      {isLive && <div className="px-2 py-0.5 text-xs font-bold text-red-600">LIVE</div>}
+    </div>
+  );
+}
+
+function Side({ bracket, side, liveMatchIds }: { bracket: Bracket; side: BracketMatch['side']; liveMatchIds: string[] }) {
+  const matches = bracket.matches.filter(m => m.side === side);
+  const rounds = [...new Set(matches.map(m => m.round))];
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {rounds.map(round => (
+        <div key={round} className="flex flex-col gap-3 flex-shrink-0">
+          <div className="text-xs font-semibold text-gray-500 uppercase">{getRoundLabel(bracket, side, round)}</div>
+          <div className="flex flex-col justify-around gap-3 flex-1">
+            {matches.filter(m => m.round === round).map(match => (
+              <MatchBox
+                key={match.id}
+                bracket={bracket}
+                match={match}
+                isLive={match.matchId !== null && liveMatchIds.includes(match.matchId)}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function BracketView({ bracket, liveMatchIds = [] }: BracketViewProps) {
+  return (
+    <div className="space-y-4">
+      {bracket.champion && (
+        <div className="bg-yellow-50 border border-yellow-300 rounded-xl p-4 text-center">
+          <div className="text-3xl mb-1">🏆</div>
+          <div className="text-lg font-bold text-gray-900">{getEntrantName(bracket, bracket.champion)}</div>
+          <div className="text-sm text-gray-500">Champion</div>
+        </div>
+      )}
+
+      <section className="bg-white rounded-2xl p-4 shadow-sm">
+        {bracket.doubleElimination && <h2 className="text-lg font-semibold text-gray-700 mb-3">Winners Bracket</h2>}
+        <Side bracket={bracket} side="winners" liveMatchIds={liveMatchIds} />
+      </section>
+
+      {bracket.doubleElimination && (
+        <>
+          <section className="bg-white rounded-2xl p-4 shadow-sm">
+            <h2 className="text-lg font-semibold text-gray-700 mb-3">Losers Bracket</h2>
+            <Side bracket={bracket} side="losers" liveMatchIds={liveMatchIds} />
+          </section>
+          <section className="bg-white rounded-2xl p-4 shadow-sm">
+            <Side bracket={bracket} side="final" liveMatchIds={liveMatchIds} />
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { PlayerCategory } from '../types';
+
+interface CategorySelectorProps {
+  category: PlayerCategory;
+  onChange: (category: PlayerCategory) => void;
+}
+
+export function CategorySelector({ category, onChange }: CategorySelectorProps) {
+  const handleClick = (value: 'M' | 'F') => {
+    // If clicking the category that's currently set, clear it
+    onChange(category === value ? null : value);
+  };
+
+  return (
+    <div className="flex gap-0.5" title={category === null ? 'Set category for mixed doubles' : undefined}>
+      {(['M', 'F'] as const).map((value) => (
+        <button
+          key={value}
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            handleClick(value);
+          }}
+          className={`w-7 h-7 rounded-lg text-xs font-bold touch-manipulation transition-colors ${
+            category === value
+              ? 'bg-blue-600 text-white'
+              : 'bg-gray-100 text-gray-400 hover:bg-gray-200'
+          }`}
+          aria-label={value === 'M' ? 'Man' : 'Woman'}
+        >
+          {value}
+        </button>
+      ))}
+    </div>
+  );
+}
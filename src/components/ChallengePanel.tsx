@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import type { Challenge, Player } from '../types';
+import { Button } from './Button';
+import { canChallenge, getLadderRung } from '../utils/ladder';
+
+interface ChallengePanelProps {
+  ladder: string[];
+  challenges: Challenge[];
+  challengeCourt: number | null;
+  courts: number;
+  range: number; // Rungs above themselves a player may challenge
+  players: Player[];
+  onSetChallengeCourt: (court: number | null) => void;
+  onAddChallenge: (challengerId: string, defenderId: string) => void;
+  onCancelChallenge: (challengeId: string) => void;
+}
+
+export function ChallengePanel({
+  ladder,
+  challenges,
+  challengeCourt,
+  courts,
+  range,
+  players,
+  onSetChallengeCourt,
+  onAddChallenge,
+  onCancelChallenge,
+}: ChallengePanelProps) {
+  const [challengerId, setChallengerId] = useState('');
+  const [defenderId, setDefenderId] = useState('');
+
+  const present = players.filter(p => p.status === 'checked-in' || p.status === 'playing');
+  const challenger = present.find(p => p.id === challengerId);
+  const defenders = challenger
+    ? present.filter(p => canChallenge(ladder, challenger.name, p.name, range))
+    : [];
+  const nameOf = (id: string) => players.find(p => p.id === id)?.name ?? '?';
+  const label = (player: Player) => {
+    const rung = getLadderRung(ladder, player.name);
+    return rung === null ? `${player.name} (unranked)` : `#${rung} ${player.name}`;
+  };
+
+  const handleAdd = () => {
+    if (!challengerId || !defenderId) return;
+    onAddChallenge(challengerId, defenderId);
+    setChallengerId('');
+    setDefenderId('');
+  };
+
+  const selectClass = 'flex-1 min-w-0 px-2 py-2 border-2 border-gray-200 rounded-lg bg-white focus:border-blue-500 focus:outline-none';
+
+  return (
+    <section className="bg-white rounded-2xl p-4 shadow-sm space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-700">Ladder Challenges</h2>
+        <select
+          value={challengeCourt ?? ''}
+          onChange={(e) => onSetChallengeCourt(e.target.value ? Number(e.target.value) : null)}
+          className="px-2 py-1 border-2 border-gray-200 rounded-lg bg-white text-sm focus:border-blue-500 focus:outline-none"
+        >
+          <option value="">No challenge court</option>
+          {Array.from({ length: courts }, (_, i) => i + 1).map(court => (
+            <option key={court} value={court}>Court {court}</option>
+          ))}
+        </select>
+      </div>
+
+      {challengeCourt !== null && (
+        <>
+          <div className="flex gap-2">
+            <select
+              value={challengerId}
+              onChange={(e) => {
+                setChallengerId(e.target.value);
+                setDefenderId('');
+              }}
+              className={selectClass}
+            >
+              <option value="">Challenger...</option>
+              {present.map(p => <option key={p.id} value={p.id}>{label(p)}</option>)}
+            </select>
+            <select
+              value={defenderId}
+              onChange={(e) => setDefenderId(e.target.value)}
+              className={selectClass}
+              disabled={!challenger}
+            >
+              <option value="">Defender...</option>
+              {defenders.map(p => <option key={p.id} value={p.id}>{label(p)}</option>)}
+            </select>
+            <Button variant="primary" size="sm" onClick={handleAdd} disabled={!challengerId || !defenderId}>
+              Add
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Challenge up to {range} rung{range === 1 ? '' : 's'} above. A win swaps places on the ladder.
+          </p>
+        </>
+      )}
+
+      {challenges.length > 0 && (
+        <div className="divide-y divide-gray-100 border-t">
+          {challenges.map((challenge, index) => (
+            <div key={challenge.id} className="py-2 flex items-center gap-3">
+              <span className="text-sm font-bold text-gray-400 w-6 text-center">{index + 1}</span>
+              <span className="flex-1 min-w-0 truncate text-gray-900">
+                {nameOf(challenge.challengerId)} <span className="text-gray-400">challenges</span> {nameOf(challenge.defenderId)}
+              </span>
+              {challenge.matchId ? (
+                <span className="text-xs font-bold text-red-600">LIVE</span>
+              ) : (
+                <button
+                  onClick={() => onCancelChallenge(challenge.id)}
+                  className="text-gray-400 hover:text-red-500 p-1"
+                  title="Cancel challenge"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,21 +1,45 @@
 import { useState, useEffect } from 'react';
-import type { Match, Player, GameMode } from '../types';
+import type { Match, Player, GameMode, RotationMode, CourtTier, AvoidPair, CourtMove, MatchScore, MatchOutcome, SessionPause } from '../types';
 import { Button } from './Button';
+import { PointsScoreEntry } from './PointsScoreEntry';
+import { FinalScoreEntry } from './FinalScoreEntry';
 import { getSkillLabel } from './SkillSelector';
 import { announceNextMatch } from '../utils/speech';
+import { COURT_TIERS } from '../utils/matching';
+import { getAvoidViolations } from '../utils/avoidList';
+import { getMoveLabel } from '../utils/river';
+import { getSeriesScore } from '../utils/series';
+import { getTimeCapStage, getTimeRemaining, type TimeCapStage } from '../utils/timeCap';
+import { getPlayTime } from '../utils/pause';
 
 interface CourtCardProps {
   court: number;
   match?: Match;
   players: Player[];
   gameMode: GameMode;
-  queueLength: number;
+  rotationMode?: RotationMode;
+  tier?: CourtTier;
+  queueLength: number; // Players in the queue who are eligible for this court
+  avoidList?: AvoidPair[];
+  moves?: Record<string, CourtMove>; // River mode: how each player got to this court
+  pointsPerMatch?: number; // Set in points formats, which record a score instead of a winner
+  gameTo?: number; // Set when staff may enter a final score instead of just the winner
+  bestOf?: number; // Games per match; above 1 the buttons record one game of the series
+  timeCapMinutes?: number | null;
+  pauses?: SessionPause[]; // Session pauses, left out of the match clock
+  isPaused?: boolean; // No new matches start while the session is paused
+  isChallengeCourt?: boolean; // Kept for ladder challenges
   onRecordWinner: (matchId: string, winner: 1 | 2) => void;
+  onRecordScore?: (matchId: string, score: MatchScore) => void;
   onStartNextMatch: (court: number) => void;
   onPullPlayer?: (playerId: string, matchId: string) => void;
+  onKeepScore?: (matchId: string) => void; // Opens the rally-by-rally scorekeeper
+  onUndoGame?: (matchId: string) => void;
+  onRecordOutcome?: (matchId: string, outcome: Exclude<MatchOutcome, 'win'>, losingTeam?: 1 | 2, retiredPlayerId?: string) => void;
+  canDraw?: boolean;
 }
 
-function ElapsedTime({ startTime }: { startTime: number }) {
+function ElapsedTime({ startTime, pauses }: { startTime: number; pauses: SessionPause[] }) {
   const [, setTick] = useState(0);
 
   useEffect(() => {
@@ -23,18 +47,61 @@ function ElapsedTime({ startTime }: { startTime: number }) {
     return () => clearInterval(interval);
   }, []);
 
-  const elapsed = Math.floor((Date.now() - startTime) / 1000);
+  const elapsed = Math.floor(getPlayTime(pauses, startTime, Date.now()) / 1000);
   const mins = Math.floor(elapsed / 60);
   const secs = elapsed % 60;
   return <span>{mins}:{secs.toString().padStart(2, '0')}</span>;
 }
 
+function useNow(): number {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return now;
+}
+
+// Countdown strip for sessions with a time cap: amber near the end, red for
+// the last two minutes, then a prompt once time is up
+function TimeCapStatus({ match, capMinutes, pauses }: { match: Match; capMinutes: number; pauses: SessionPause[] }) {
+  const remaining = getTimeRemaining(match, capMinutes, useNow(), pauses)!;
+  const stage = getTimeCapStage(remaining);
+  const secondsLeft = Math.max(0, Math.ceil(remaining / 1000));
+  const clock = `${Math.floor(secondsLeft / 60)}:${(secondsLeft % 60).toString().padStart(2, '0')}`;
+
+  const styles: Record<TimeCapStage, string> = {
+    running: 'bg-gray-100 text-gray-600',
+    warning: 'bg-amber-100 text-amber-800',
+    final: 'bg-red-100 text-red-700 animate-pulse',
+    expired: 'bg-red-600 text-white',
+  };
+
+  return (
+    <div className={`px-4 py-1 text-sm font-semibold flex items-center justify-between ${styles[stage]}`}>
+      <span>⏱ {stage === 'expired' ? 'Time\'s up' : `${clock} left`}</span>
+      {stage === 'expired' && <span className="text-xs font-normal">Record the result to free the court</span>}
+    </div>
+  );
+}
+
+const MOVE_BADGES: Record<CourtMove, { icon: string; className: string }> = {
+  up: { icon: '▲', className: 'text-green-600' },
+  down: { icon: '▼', className: 'text-red-500' },
+  stayed: { icon: '●', className: 'text-gray-400' },
+  joined: { icon: '★', className: 'text-blue-500' },
+};
+
 function TeamDisplay({
   playerIds,
   players,
   team,
   isSingles,
   matchId,
+  showStreak,
+  moves,
   onPullPlayer,
 }: {
   playerIds: string[];
@@ -42,6 +109,8 @@ function TeamDisplay({
   team: 1 | 2;
   isSingles: boolean;
   matchId?: string;
+  showStreak?: boolean;
+  moves?: Record<string, CourtMove>;
   onPullPlayer?: (playerId: string, matchId: string) => void;
 }) {
   const teamPlayers = playerIds.map(id => players.find(p => p.id === id)).filter(Boolean) as Player[];
@@ -52,13 +121,21 @@ function TeamDisplay({
   const isLockedPair = teamPlayers.length === 2 &&
     teamPlayers[0].lockedPartnerId === teamPlayers[1].id;
 
+  // Winners-stay: show how many games in a row this team has held the court
+  const streak = Math.max(0, ...teamPlayers.map(p => p.winStreak));
+
   return (
     <div className={`${lightBg} rounded-xl flex-1 overflow-hidden`}>
       {/* Team header bar */}
-      <div className={`${bgColor} px-3 py-1.5`}>
+      <div className={`${bgColor} px-3 py-1.5 flex items-center justify-between`}>
         <span className="text-xs font-bold text-white tracking-wide">
           {isSingles ? (teamPlayers[0]?.name.split(' ')[0].toUpperCase() || 'PLAYER') : `TEAM ${team}`}
         </span>
+        {showStreak && streak > 0 && (
+          <span className="text-xs font-bold text-white" title={`${streak} win streak`}>
+            👑 {streak}
+          </span>
+        )}
       </div>
       {/* Players */}
       <div className="p-2 space-y-1">
@@ -69,6 +146,14 @@ function TeamDisplay({
           >
             <div className="flex-1 min-w-0">
               <div className="font-semibold text-gray-900 truncate flex items-center gap-1">
+                {moves?.[player.id] && (
+                  <span
+                    className={`text-xs ${MOVE_BADGES[moves[player.id]].className}`}
+                    title={getMoveLabel(moves[player.id])}
+                  >
+                    {MOVE_BADGES[moves[player.id]].icon}
+                  </span>
+                )}
                 {player.name}
                 {isLockedPair && <span className="text-purple-500 text-sm">🔗</span>}
               </div>
@@ -108,12 +193,40 @@ export function CourtCard({
   match,
   players,
   gameMode,
+  rotationMode = 'standard',
+  tier = 'open',
   queueLength,
+  avoidList = [],
+  moves,
+  pointsPerMatch,
+  gameTo,
+  bestOf = 1,
+  timeCapMinutes = null,
+  pauses = [],
+  isPaused = false,
+  isChallengeCourt = false,
   onRecordWinner,
+  onRecordScore,
   onStartNextMatch,
   onPullPlayer,
+  onKeepScore,
+  onUndoGame,
+  onRecordOutcome,
+  canDraw = false,
 }: CourtCardProps) {
+  const [scoringMatchId, setScoringMatchId] = useState<string | null>(null);
   const isSingles = gameMode === 'singles';
+  const showStreak = rotationMode === 'winners-stay';
+  const tierBadge = tier !== 'open' && (
+    <span className="text-xs font-semibold bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded">
+      {COURT_TIERS[tier].label}
+    </span>
+  );
+  const challengeBadge = isChallengeCourt && (
+    <span className="text-xs font-semibold bg-purple-100 text-purple-800 px-2 py-0.5 rounded">
+      Challenge
+    </span>
+  );
   const playersNeeded = isSingles ? 2 : 4;
   const canStartMatch = queueLength >= playersNeeded;
 
@@ -122,15 +235,21 @@ export function CourtCard({
       <div className="bg-gray-100 rounded-2xl p-4 border-2 border-dashed border-gray-300">
         <div className="text-center">
           <div className="text-2xl font-bold text-gray-400 mb-1">Court {court}</div>
-          {canStartMatch ? (
+          {tierBadge}
+          {challengeBadge}
+          {isPaused ? (
+            <div className="text-gray-400">Paused</div>
+          ) : canStartMatch ? (
             <Button
               variant="primary"
               size="lg"
               onClick={() => onStartNextMatch(court)}
               className="mt-2"
             >
-              Start Next Match
+              {isChallengeCourt ? 'Start Next Challenge' : 'Start Next Match'}
             </Button>
+          ) : isChallengeCourt ? (
+            <div className="text-gray-400">No challenges ready</div>
           ) : (
             <div className="text-gray-400">
               Waiting for players...
@@ -146,6 +265,19 @@ export function CourtCard({
     );
   }
 
+  // Matching never breaks the avoid list, but manual changes (locked partners,
+  // list edits mid-game) can, so flag it for staff
+  const courtPlayers = [...match.team1, ...match.team2]
+    .map(id => players.find(p => p.id === id))
+    .filter(Boolean) as Player[];
+  const avoidViolations = getAvoidViolations(courtPlayers, avoidList);
+
+  const team1Label = isSingles ? players.find(p => p.id === match.team1[0])?.name ?? 'Player 1' : 'Team 1';
+  const team2Label = isSingles ? players.find(p => p.id === match.team2[0])?.name ?? 'Player 2' : 'Team 2';
+  const isSeries = bestOf > 1;
+  const seriesScore = getSeriesScore(match.games);
+  const winLabel = isSeries ? 'Wins Game' : 'Wins';
+
   const handleAnnounce = () => {
     const team1Names = match.team1
       .map(id => players.find(p => p.id === id)?.name)
@@ -156,12 +288,21 @@ export function CourtCard({
     announceNextMatch(court, team1Names, team2Names);
   };
 
+  // Values are "outcome", "outcome:losing team" or, for an injury,
+  // "injury:losing team:retired player"
+  const handleOutcome = (value: string) => {
+    const [outcome, team, playerId] = value.split(':');
+    onRecordOutcome!(match.id, outcome as Exclude<MatchOutcome, 'win'>, team ? Number(team) as 1 | 2 : undefined, playerId);
+  };
+
   return (
     <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
       {/* Scoreboard header */}
       <div className="bg-gray-900 px-4 py-2 flex items-center justify-between">
         <div className="flex items-center gap-3">
           <span className="text-white font-bold text-lg">Court {court}</span>
+          {tierBadge}
+          {challengeBadge}
           <span className="flex items-center gap-1.5 bg-red-600 text-white text-xs font-bold px-2 py-0.5 rounded">
             <span className="w-1.5 h-1.5 bg-white rounded-full animate-pulse" />
             LIVE
@@ -169,8 +310,17 @@ export function CourtCard({
         </div>
         <div className="flex items-center gap-3">
           <span className="text-gray-400 font-mono text-sm">
-            <ElapsedTime startTime={match.startTime} />
+            <ElapsedTime startTime={match.startTime} pauses={pauses} />
           </span>
+          {gameTo && onKeepScore && (
+            <button
+              onClick={() => onKeepScore(match.id)}
+              className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+              title="Keep score"
+            >
+              📋
+            </button>
+          )}
           <button
             onClick={handleAnnounce}
             className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
@@ -180,8 +330,19 @@ export function CourtCard({
           </button>
         </div>
       </div>
+      {timeCapMinutes && <TimeCapStatus match={match} capMinutes={timeCapMinutes} pauses={pauses} />}
 
       <div className="p-4">
+        {avoidViolations.length > 0 && (
+          <div className="mb-3 px-3 py-2 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800">
+            {avoidViolations.map(pair => (
+              <div key={pair.id}>
+                ⚠️ {pair.player1} and {pair.player2} are on the avoid list
+                {pair.reason && <span className="text-amber-600"> ({pair.reason})</span>}
+              </div>
+            ))}
+          </div>
+        )}
         <div className="flex gap-3 mb-4">
           <TeamDisplay
             playerIds={match.team1}
@@ -189,6 +350,8 @@ export function CourtCard({
             team={1}
             isSingles={isSingles}
             matchId={match.id}
+            showStreak={showStreak}
+            moves={moves}
             onPullPlayer={onPullPlayer}
           />
           <div className="flex items-center">
@@ -200,32 +363,102 @@ export function CourtCard({
             team={2}
             isSingles={isSingles}
             matchId={match.id}
+            showStreak={showStreak}
+            moves={moves}
             onPullPlayer={onPullPlayer}
           />
         </div>
 
-        <div className="flex gap-3">
-          <Button
-            variant="team1"
-            size="lg"
-            onClick={() => onRecordWinner(match.id, 1)}
-            className="flex-1"
-          >
-            {isSingles
-              ? `${players.find(p => p.id === match.team1[0])?.name || 'Player 1'} Wins`
-              : 'Team 1 Wins'}
-          </Button>
-          <Button
-            variant="team2"
-            size="lg"
-            onClick={() => onRecordWinner(match.id, 2)}
-            className="flex-1"
+        {isSeries && !pointsPerMatch && (
+          <div className="mb-3 flex items-center gap-2 text-sm">
+            <span className="font-semibold text-gray-700">
+              Game {match.games.length + 1} · Best of {bestOf}
+            </span>
+            <span className="font-bold text-gray-900">
+              <span className="text-[#1976D2]">{seriesScore.team1}</span>
+              –
+              <span className="text-[#F57C00]">{seriesScore.team2}</span>
+            </span>
+            {match.games.some(g => g.score) && (
+              <span className="text-xs text-gray-500 truncate">
+                ({match.games.map(g => g.score ? `${g.score.team1}-${g.score.team2}` : (g.winner === 1 ? 'W-L' : 'L-W')).join(', ')})
+              </span>
+            )}
+            {match.games.length > 0 && onUndoGame && (
+              <button
+                onClick={() => onUndoGame(match.id)}
+                className="ml-auto text-xs text-gray-400 hover:text-gray-600"
+              >
+                Undo game
+              </button>
+            )}
+          </div>
+        )}
+
+        {pointsPerMatch && onRecordScore ? (
+          <PointsScoreEntry
+            key={match.id}
+            pointsPerMatch={pointsPerMatch}
+            team1Label={team1Label}
+            team2Label={team2Label}
+            onRecord={(score) => onRecordScore(match.id, score)}
+          />
+        ) : gameTo && onRecordScore && scoringMatchId === match.id ? (
+          <FinalScoreEntry
+            gameTo={gameTo}
+            team1Label={team1Label}
+            team2Label={team2Label}
+            onRecord={(score) => onRecordScore(match.id, score)}
+            onCancel={() => setScoringMatchId(null)}
+          />
+        ) : (
+          <>
+            <div className="flex gap-3">
+              <Button
+                variant="team1"
+                size="lg"
+                onClick={() => onRecordWinner(match.id, 1)}
+                className="flex-1"
+              >
+                {`${team1Label} ${winLabel}`}
+              </Button>
+              <Button
+                variant="team2"
+                size="lg"
+                onClick={() => onRecordWinner(match.id, 2)}
+                className="flex-1"
+              >
+                {`${team2Label} ${winLabel}`}
+              </Button>
+            </div>
+            {gameTo && onRecordScore && (
+              <button
+                onClick={() => setScoringMatchId(match.id)}
+                className="w-full mt-2 text-sm text-gray-500 hover:text-gray-700"
+              >
+                Enter score
+              </button>
+            )}
+          </>
+        )}
+        {onRecordOutcome && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleOutcome(e.target.value)}
+            className="w-full mt-2 px-2 py-1 border-2 border-gray-200 rounded-lg bg-white text-sm text-gray-500 focus:border-blue-500 focus:outline-none"
           >
-            {isSingles
-              ? `${players.find(p => p.id === match.team2[0])?.name || 'Player 2'} Wins`
-              : 'Team 2 Wins'}
-          </Button>
-        </div>
+            <option value="">Other result...</option>
+            <option value="forfeit:1">{team1Label} forfeits</option>
+            <option value="forfeit:2">{team2Label} forfeits</option>
+            {courtPlayers.map(p => (
+              <option key={p.id} value={`injury:${match.team1.includes(p.id) ? 1 : 2}:${p.id}`}>
+                {p.name} retires injured
+              </option>
+            ))}
+            {canDraw && <option value="draw">Draw</option>}
+            <option value="cancelled">Cancel match</option>
+          </select>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import type { MatchScore } from '../types';
+import { Button } from './Button';
+import { getScoreError } from '../utils/score';
+
+interface FinalScoreEntryProps {
+  gameTo: number;
+  team1Label: string;
+  team2Label: string;
+  onRecord: (score: MatchScore) => void;
+  onCancel: () => void;
+}
+
+// Optional final score for a regular game, e.g. 11-7. The winner comes from
+// the score, so it's only recordable once it's a valid finish.
+export function FinalScoreEntry({ gameTo, team1Label, team2Label, onRecord, onCancel }: FinalScoreEntryProps) {
+  const [team1, setTeam1] = useState('');
+  const [team2, setTeam2] = useState('');
+  const score = { team1: Number(team1), team2: Number(team2) };
+  const isFilled = team1 !== '' && team2 !== '';
+  const error = isFilled ? getScoreError(score, gameTo) : null;
+
+  const inputClass = 'w-full px-3 py-2 text-3xl font-bold text-center text-gray-900 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end gap-3">
+        <label className="flex-1 text-center">
+          <span className="block text-xs font-bold text-[#1976D2] truncate">{team1Label}</span>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            value={team1}
+            onChange={(e) => setTeam1(e.target.value)}
+            className={inputClass}
+            autoFocus
+          />
+        </label>
+        <span className="pb-3 text-xl font-bold text-gray-400">–</span>
+        <label className="flex-1 text-center">
+          <span className="block text-xs font-bold text-[#F57C00] truncate">{team2Label}</span>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            value={team2}
+            onChange={(e) => setTeam2(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      {error ? (
+        <p className="text-sm text-red-600 text-center">{error}</p>
+      ) : (
+        <p className="text-xs text-gray-500 text-center">Game to {gameTo}, win by 2</p>
+      )}
+      <div className="flex gap-3">
+        <Button variant="secondary" size="lg" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          size="lg"
+          onClick={() => onRecord(score)}
+          disabled={!isFilled || error !== null}
+          className="flex-1"
+        >
+          {isFilled && !error ? `Record ${score.team1}–${score.team2}` : 'Record Score'}
+        </Button>
+      </div>
+    </div>
+  );
+}
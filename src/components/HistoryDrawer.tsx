@@ -0,0 +1,70 @@
+import type { Session } from '../types';
+import { Button } from './Button';
+import { describeAction, getRedoStack, getUndoStack, isUndoable, type ActionLog } from '../store/actionLog';
+
+interface HistoryDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  log: ActionLog;
+  session: Session;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+// Everything staff have done this session, newest first. Undo takes back the
+// latest action still in effect; undone actions stay listed, struck through.
+export function HistoryDrawer({ isOpen, onClose, log, session, onUndo, onRedo }: HistoryDrawerProps) {
+  if (!isOpen) return null;
+
+  const entries = log.entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => isUndoable(entry))
+    .reverse();
+  const canUndo = getUndoStack(log).length > 0;
+  const canRedo = getRedoStack(log).length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-sm h-full flex flex-col shadow-xl pb-safe"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900">History</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl p-1">
+            &times;
+          </button>
+        </div>
+
+        <div className="px-4 py-3 flex gap-2 border-b border-gray-100">
+          <Button variant="secondary" size="sm" onClick={onUndo} disabled={!canUndo} className="flex-1">
+            ↶ Undo
+          </Button>
+          <Button variant="secondary" size="sm" onClick={onRedo} disabled={!canRedo} className="flex-1">
+            ↷ Redo
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8">Nothing to undo yet</p>
+          ) : (
+            entries.map(({ entry, index }) => (
+              <div
+                key={index}
+                className={`px-4 py-2 flex items-baseline gap-3 text-sm ${entry.undone ? 'text-gray-400 line-through' : 'text-gray-800'}`}
+              >
+                <span className="text-xs text-gray-400 w-16 flex-shrink-0">{formatTime(entry.at)}</span>
+                <span className="flex-1">{describeAction(entry.action, session)}</span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import { useMemo } from 'react';
 import { Button } from './Button';
 import type { Player } from '../types';
+import { calculatePointsLeaderboard } from '../utils/americano';
+import { calculateLeaderboard } from '../utils/matching';
+import { formatPointDifferential, getPointDifferential } from '../utils/score';
+import { hasSeriesPlay } from '../utils/series';
 
 interface LiveStandingsModalProps {
   isOpen: boolean;
@@ -8,6 +12,7 @@ interface LiveStandingsModalProps {
   players: Player[];
   totalGames: number;
   location: string;
+  rankByPoints?: boolean; // Americano/Mexicano rank by points scored
 }
 
 export function LiveStandingsModal({
@@ -16,24 +21,16 @@ export function LiveStandingsModal({
   players,
   totalGames,
   location,
+  rankByPoints = false,
 }: LiveStandingsModalProps) {
   // Calculate leaderboard - same logic as LeaderboardScreen
   const leaderboard = useMemo(() => {
-    return [...players]
-      .filter(p => p.gamesPlayed > 0)
-      .sort((a, b) => {
-        // Primary: Most wins
-        if (b.wins !== a.wins) return b.wins - a.wins;
-        // Tiebreaker 1: Win percentage
-        const aWinRate = a.gamesPlayed > 0 ? a.wins / a.gamesPlayed : 0;
-        const bWinRate = b.gamesPlayed > 0 ? b.wins / b.gamesPlayed : 0;
-        if (bWinRate !== aWinRate) return bWinRate - aWinRate;
-        // Tiebreaker 2: Fewer games (efficiency)
-        if (a.gamesPlayed !== b.gamesPlayed) return a.gamesPlayed - b.gamesPlayed;
-        // Tiebreaker 3: Alphabetical
-        return a.name.localeCompare(b.name);
-      });
-  }, [players]);
+    if (rankByPoints) return calculatePointsLeaderboard(players);
+    return calculateLeaderboard([...players]);
+  }, [players, rankByPoints]);
+
+  const hasScores = players.some(p => p.pointsAgainst > 0);
+  const hasSeries = hasSeriesPlay(players);
 
   const getMedal = (index: number) => {
     if (index === 0) return '🥇';
@@ -119,16 +116,19 @@ export function LiveStandingsModal({
                         )}
                       </div>
                       <div className="text-sm text-gray-500">
-                        {player.wins}-{player.losses} • {player.gamesPlayed} games
+                        {hasSeries
+                          ? `${player.wins}-${player.losses} series • ${player.gamesWon}-${player.gamesLost} games`
+                          : `${player.wins}-${player.losses} • ${player.gamesPlayed} games`}
+                        {hasScores && ` • ${formatPointDifferential(getPointDifferential(player))}`}
                       </div>
                     </div>
 
-                    {/* Wins */}
+                    {/* Wins (or points) */}
                     <div className="text-right flex-shrink-0">
                       <div className={`font-bold ${isTopThree ? 'text-2xl' : 'text-xl'} text-green-600`}>
-                        {player.wins}
+                        {rankByPoints ? player.points : player.wins}
                       </div>
-                      <div className="text-xs text-gray-400">WINS</div>
+                      <div className="text-xs text-gray-400">{rankByPoints ? 'POINTS' : hasSeries ? 'SERIES' : 'WINS'}</div>
                     </div>
 
                     {/* Win Rate */}
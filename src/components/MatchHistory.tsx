@@ -0,0 +1,60 @@
+import type { Match, Player } from '../types';
+import { getSeriesScore } from '../utils/series';
+import { MATCH_OUTCOMES } from '../utils/outcome';
+
+interface MatchHistoryProps {
+  matches: Match[];
+  players: Player[];
+}
+
+// Completed matches, newest first
+export function MatchHistory({ matches, players }: MatchHistoryProps) {
+  const nameOf = (id: string) => players.find(p => p.id === id)?.name ?? '?';
+
+  const result = (match: Match) => {
+    if (match.outcome === 'draw' || match.outcome === 'cancelled') return MATCH_OUTCOMES[match.outcome].short;
+    if (match.games.length > 0) {
+      const series = getSeriesScore(match.games);
+      return `${series.team1}–${series.team2}`;
+    }
+    return match.score ? `${match.score.team1}–${match.score.team2}` : 'def.';
+  };
+
+  const team = (match: Match, side: 1 | 2) => {
+    const ids = side === 1 ? match.team1 : match.team2;
+    return (
+      <span className={`flex-1 min-w-0 truncate ${side === 2 ? 'text-right' : ''} ${
+        match.winner === side ? 'font-semibold text-gray-900' : 'text-gray-500'
+      }`}>
+        {ids.map(nameOf).join(' & ')}
+      </span>
+    );
+  };
+
+  if (matches.length === 0) {
+    return <p className="text-sm text-gray-400 text-center py-4">No matches completed yet</p>;
+  }
+
+  return (
+    <div className="divide-y divide-gray-100">
+      {[...matches].reverse().map(match => (
+        <div key={match.id} className="py-2 flex items-center gap-3 text-sm">
+          <span className="text-xs text-gray-400 w-14 flex-shrink-0">Court {match.court}</span>
+          {team(match, 1)}
+          <span className="font-bold text-gray-900 flex-shrink-0">{result(match)}</span>
+          {team(match, 2)}
+          {(match.outcome === 'forfeit' || match.outcome === 'injury') && (
+            <span className="text-xs font-semibold bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded flex-shrink-0" title={MATCH_OUTCOMES[match.outcome].label}>
+              {MATCH_OUTCOMES[match.outcome].short}
+            </span>
+          )}
+          {match.timeCapped && (
+            <span className="text-xs font-semibold bg-red-100 text-red-700 px-1.5 py-0.5 rounded flex-shrink-0" title="Ended on the time cap">
+              ⏱ Cap
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import type { Player } from '../types';
 import { Button } from './Button';
 import { SkillSelector } from './SkillSelector';
-import type { SkillLevel } from '../types';
+import { CategorySelector } from './CategorySelector';
+import type { SkillLevel, PlayerCategory } from '../types';
 
 interface PlayerCardProps {
   player: Player;
@@ -9,10 +10,12 @@ interface PlayerCardProps {
   showActions?: boolean;
   showStats?: boolean;
   onSkillChange?: (skill: SkillLevel) => void;
+  onCategoryChange?: (category: PlayerCategory) => void;
   onCheckIn?: () => void;
   onCheckOut?: () => void;
   onRemove?: () => void;
   courtNumber?: number;
+  elsewhere?: string; // Location of another session the player is checked into
 }
 
 const statusColors = {
@@ -35,10 +38,12 @@ export function PlayerCard({
   showActions = true,
   showStats = false,
   onSkillChange,
+  onCategoryChange,
   onCheckIn,
   onCheckOut,
   onRemove,
   courtNumber,
+  elsewhere,
 }: PlayerCardProps) {
   const isLeft = player.status === 'left';
 
@@ -65,6 +70,9 @@ export function PlayerCard({
               size="sm"
             />
           )}
+          {onCategoryChange && (
+            <CategorySelector category={player.category} onChange={onCategoryChange} />
+          )}
         </div>
 
         <div className="flex items-center gap-2 flex-shrink-0">
@@ -80,6 +88,12 @@ export function PlayerCard({
             </span>
           )}
 
+          {player.status === 'not-here' && elsewhere && (
+            <span className="bg-gray-500 text-white text-xs font-semibold px-2 py-1 rounded-lg truncate max-w-[8rem]" title="Checked into another session">
+              At {elsewhere}
+            </span>
+          )}
+
           {showStats && player.gamesPlayed > 0 && (
             <span className="text-sm text-gray-600 font-medium">
               {player.wins}-{player.losses}
@@ -90,7 +104,7 @@ export function PlayerCard({
 
       {showActions && (
         <div className="flex gap-2 mt-3">
-          {player.status === 'not-here' && onCheckIn && (
+          {player.status === 'not-here' && onCheckIn && !elsewhere && (
             <Button
               variant="primary"
               size="sm"
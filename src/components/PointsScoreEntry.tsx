@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import type { MatchScore } from '../types';
+import { Button } from './Button';
+
+interface PointsScoreEntryProps {
+  pointsPerMatch: number; // Both teams' points add up to this
+  team1Label: string;
+  team2Label: string;
+  onRecord: (score: MatchScore) => void;
+}
+
+// Americano/Mexicano score entry: staff sets one team's points and the other
+// team gets the rest of the match total. A level score is recorded as a draw.
+export function PointsScoreEntry({ pointsPerMatch, team1Label, team2Label, onRecord }: PointsScoreEntryProps) {
+  const [team1, setTeam1] = useState(Math.ceil(pointsPerMatch / 2));
+  const team2 = pointsPerMatch - team1;
+  const isTie = team1 === team2;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 text-center">
+          <div className="text-xs font-bold text-[#1976D2] truncate">{team1Label}</div>
+          <div className="text-3xl font-bold text-gray-900">{team1}</div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" size="sm" onClick={() => setTeam1(t => t - 1)} disabled={team1 <= 0}>
+            ◀
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => setTeam1(t => t + 1)} disabled={team1 >= pointsPerMatch}>
+            ▶
+          </Button>
+        </div>
+        <div className="flex-1 text-center">
+          <div className="text-xs font-bold text-[#F57C00] truncate">{team2Label}</div>
+          <div className="text-3xl font-bold text-gray-900">{team2}</div>
+        </div>
+      </div>
+      <Button
+        variant="primary"
+        size="lg"
+        onClick={() => onRecord({ team1, team2 })}
+        className="w-full"
+      >
+        {isTie ? `Record ${team1}–${team2} draw` : `Record ${team1}–${team2}`}
+      </Button>
+    </div>
+  );
+}
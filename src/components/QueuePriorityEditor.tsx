@@ -0,0 +1,56 @@
+import type { QueuePriorityPolicy } from '../types';
+import { Button } from './Button';
+
+interface QueuePriorityEditorProps {
+  policy: QueuePriorityPolicy;
+  onChange: (policy: Partial<QueuePriorityPolicy>) => void;
+}
+
+const WEIGHTS: { key: keyof QueuePriorityPolicy; label: string; description: string; step: number }[] = [
+  { key: 'waitTime', label: 'Time since last game', description: 'Spots moved up per minute waiting', step: 0.5 },
+  { key: 'gamesPlayed', label: 'Games played', description: 'Spots moved back per game played today', step: 1 },
+  { key: 'arrival', label: 'Arrival time', description: 'Spots moved up per minute since arriving', step: 0.1 },
+  { key: 'membership', label: 'Membership', description: 'Spots members move up', step: 1 },
+];
+
+export function QueuePriorityEditor({ policy, onChange }: QueuePriorityEditorProps) {
+  const isFifo = WEIGHTS.every(w => policy[w.key] === 0);
+
+  return (
+    <div className="space-y-3">
+      {WEIGHTS.map(({ key, label, description, step }) => (
+        <div key={key} className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <div className="text-sm font-medium text-gray-700">{label}</div>
+            <div className="text-xs text-gray-500">{description}</div>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => onChange({ [key]: Math.round((policy[key] - step) * 10) / 10 })}
+              disabled={policy[key] <= 0}
+            >
+              −
+            </Button>
+            <span className="text-lg font-bold text-gray-900 w-10 text-center">
+              {policy[key]}
+            </span>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => onChange({ [key]: Math.round((policy[key] + step) * 10) / 10 })}
+            >
+              +
+            </Button>
+          </div>
+        </div>
+      ))}
+      <p className="text-xs text-gray-500">
+        {isFifo
+          ? 'All zero: first come, first served.'
+          : 'The queue is reordered by these weights, starting from first come, first served.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useMemo } from 'react';
+import type { Match, Player } from '../types';
+import { calculateRiverStandings } from '../utils/river';
+
+interface RiverStandingsProps {
+  players: Player[];
+  matches: Match[];
+  round?: number; // Current round while play is going on
+}
+
+export function RiverStandings({ players, matches, round }: RiverStandingsProps) {
+  const standings = useMemo(() => calculateRiverStandings(players, matches), [players, matches]);
+
+  return (
+    <section className="bg-white rounded-2xl p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-700">River Standings</h2>
+        {round !== undefined && <span className="text-sm text-gray-500">Round {round}</span>}
+      </div>
+
+      {standings.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">Standings appear after the first round</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {standings.map(({ player, court, wonLast }, index) => (
+            <div key={player.id} className="py-2 flex items-center gap-3">
+              <span className="text-lg font-bold text-gray-400 w-6 text-center">{index + 1}</span>
+              <span className="flex-1 min-w-0 font-medium text-gray-900 truncate">{player.name}</span>
+              <span className="text-xs text-gray-500">
+                Court {court} {wonLast ? 'winner' : 'loser'}
+              </span>
+              <span className="text-sm text-gray-600 w-12 text-right">{player.wins}-{player.losses}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
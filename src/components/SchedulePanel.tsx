@@ -0,0 +1,83 @@
+import type { Match, Player, RoundRobinSchedule, ScheduledMatch, ScheduledRound } from '../types';
+
+interface SchedulePanelProps {
+  schedule: RoundRobinSchedule;
+  players: Player[];
+  activeMatches: Match[];
+  openEnded?: boolean; // Mexicano adds each round as the previous one ends
+}
+
+function RoundDetails({
+  round,
+  players,
+  getStatus,
+}: {
+  round: ScheduledRound;
+  players: Player[];
+  getStatus?: (match: ScheduledMatch) => 'waiting' | 'live' | 'done';
+}) {
+  const nameOf = (id: string) => players.find(p => p.id === id)?.name ?? '?';
+  const names = (ids: string[]) => ids.map(nameOf).join(' & ');
+
+  return (
+    <div className="space-y-1">
+      {round.matches.map(match => {
+        const status = getStatus?.(match);
+        return (
+          <div key={match.court} className="flex items-center gap-2 text-sm">
+            <span className="text-gray-400 w-16 flex-shrink-0">Court {match.court}</span>
+            <span className={`flex-1 min-w-0 truncate ${status === 'done' ? 'text-gray-400 line-through' : 'text-gray-800'}`}>
+              {names(match.team1)} <span className="text-gray-400">vs</span> {names(match.team2)}
+            </span>
+            {status === 'live' && <span className="text-xs font-bold text-red-600">LIVE</span>}
+            {status === 'done' && <span className="text-xs text-green-600">✓</span>}
+          </div>
+        );
+      })}
+      {round.byes.length > 0 && (
+        <div className="text-xs text-gray-500">Sitting out: {round.byes.map(nameOf).join(', ')}</div>
+      )}
+    </div>
+  );
+}
+
+export function SchedulePanel({ schedule, players, activeMatches, openEnded = false }: SchedulePanelProps) {
+  const total = schedule.rounds.length;
+  const current = schedule.rounds[schedule.currentRound];
+  const upcoming = schedule.rounds.slice(schedule.currentRound + 1);
+
+  const getStatus = (match: ScheduledMatch) => {
+    if (!match.matchId) return 'waiting';
+    return activeMatches.some(m => m.id === match.matchId) ? 'live' : 'done';
+  };
+
+  return (
+    <section className="bg-white rounded-2xl p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-700">
+          {current
+            ? `Round ${schedule.currentRound + 1}${openEnded ? '' : ` of ${total}`}`
+            : openEnded ? 'Waiting for players' : 'Schedule complete'}
+        </h2>
+        {current && upcoming.length > 0 && (
+          <span className="text-sm text-gray-500">{upcoming.length} to go</span>
+        )}
+      </div>
+
+      {current && <RoundDetails round={current} players={players} getStatus={getStatus} />}
+
+      {upcoming.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-gray-100 space-y-3 max-h-[40vh] overflow-y-auto">
+          {upcoming.map((round, i) => (
+            <div key={schedule.currentRound + 1 + i}>
+              <div className="text-xs font-semibold text-gray-500 uppercase mb-1">
+                Round {schedule.currentRound + 2 + i}
+              </div>
+              <RoundDetails round={round} players={players} />
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,92 @@
+import type { Match, MatchScore, Player } from '../types';
+import { Button } from './Button';
+import { callScore, getRallyState, type RallyOptions } from '../utils/rally';
+import { announceScore } from '../utils/speech';
+
+interface ScorekeeperProps {
+  match: Match;
+  players: Player[];
+  options: RallyOptions;
+  onRally: (winner: 1 | 2) => void;
+  onUndoRally: () => void;
+  onGameOver: (winner: 1 | 2, score: MatchScore) => void;
+  onClose: () => void;
+}
+
+// Full-screen courtside scorekeeper: tap the side that won the rally. The
+// score is called out before each serve and the game ends itself at the target.
+export function Scorekeeper({ match, players, options, onRally, onUndoRally, onGameOver, onClose }: ScorekeeperProps) {
+  const state = getRallyState(match.rallies, options);
+  const call = callScore(state, options);
+  const nameOf = (id: string) => players.find(p => p.id === id)?.name ?? '?';
+
+  const handleRally = (winner: 1 | 2) => {
+    const next = getRallyState([...match.rallies, winner], options);
+    onRally(winner);
+    if (next.winner !== null) {
+      onGameOver(next.winner, next.score);
+    } else {
+      announceScore(callScore(next, options));
+    }
+  };
+
+  const side = (team: 1 | 2) => {
+    const ids = team === 1 ? match.team1 : match.team2;
+    const points = team === 1 ? state.score.team1 : state.score.team2;
+    const isServing = state.servingTeam === team;
+    const color = team === 1 ? 'bg-[#1976D2]' : 'bg-[#F57C00]';
+    return (
+      <button
+        onClick={() => handleRally(team)}
+        disabled={state.winner !== null}
+        className={`${color} flex-1 rounded-2xl p-4 flex flex-col items-center justify-center text-white active:opacity-80 disabled:opacity-60`}
+      >
+        <div className="text-lg font-semibold text-center">{ids.map(nameOf).join(' & ')}</div>
+        <div className="text-8xl font-bold my-2">{points}</div>
+        <div className="h-6 text-sm font-bold">
+          {isServing && (options.singles || options.rallyScoring ? 'SERVING' : `SERVER ${state.serverNumber}`)}
+        </div>
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 z-50 flex flex-col p-4 pb-safe">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <div className="text-white font-bold text-lg">Court {match.court}</div>
+          <div className="text-xs text-gray-400">
+            {options.rallyScoring ? 'Rally scoring' : 'Side-out scoring'} · Game to {options.gameTo}, win by 2
+          </div>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-3xl p-1">
+          &times;
+        </button>
+      </div>
+
+      <button
+        onClick={() => announceScore(call)}
+        className="text-center text-5xl font-mono font-bold text-white mb-4"
+        title="Call the score"
+      >
+        {state.winner !== null ? 'Game' : call}
+      </button>
+
+      <div className="flex-1 flex flex-col sm:flex-row gap-4">
+        {side(1)}
+        {side(2)}
+      </div>
+
+      <div className="flex gap-3 mt-4">
+        <Button variant="secondary" size="lg" onClick={onUndoRally} disabled={match.rallies.length === 0} className="flex-1">
+          Undo Rally
+        </Button>
+        {state.winner !== null && (
+          <Button variant="primary" size="lg" onClick={() => onGameOver(state.winner!, state.score)} className="flex-1">
+            Record {state.score.team1}–{state.score.team2}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
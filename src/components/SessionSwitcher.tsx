@@ -0,0 +1,37 @@
+import type { Session } from '../types';
+
+interface SessionSwitcherProps {
+  session: Session;
+  otherSessions: Session[];
+  onSwitch: (sessionId: string) => void;
+  onNew: () => void;
+  dark?: boolean; // For the scoreboard-style play screen header
+}
+
+const NEW_SESSION = 'new';
+
+function describeSession(session: Session): string {
+  const name = session.location.trim() || 'Untitled session';
+  if (session.endTime) return `${name} (ended)`;
+  if (session.startTime) return `${name} (live)`;
+  return `${name} (setting up)`;
+}
+
+// Sessions running side by side on this device, e.g. one per gym
+export function SessionSwitcher({ session, otherSessions, onSwitch, onNew, dark = false }: SessionSwitcherProps) {
+  return (
+    <select
+      value={session.id}
+      onChange={(e) => (e.target.value === NEW_SESSION ? onNew() : onSwitch(e.target.value))}
+      className={`max-w-[10rem] truncate rounded-lg px-2 py-2 text-sm font-medium border-0 focus:ring-2 focus:ring-green-500 ${
+        dark ? 'bg-gray-700 text-white' : 'bg-gray-200 text-gray-800'
+      }`}
+      title="Switch session"
+    >
+      {[session, ...otherSessions].map(s => (
+        <option key={s.id} value={s.id}>{describeSession(s)}</option>
+      ))}
+      <option value={NEW_SESSION}>+ New session</option>
+    </select>
+  );
+}
@@ -0,0 +1,57 @@
+import { useSession } from '../store/useSession';
+import { BracketView } from '../components/BracketView';
+import { QRCode } from '../components/QRCode';
+import { getLocalVenue } from '../utils/supabase';
+
+export function BracketScreen() {
+  const { session, setScreen } = useSession();
+  const venue = getLocalVenue();
+  const bracket = session.bracket;
+  const publicUrl = venue && bracket
+    ? `${window.location.origin}/venue/${venue.slug}/bracket/${bracket.id}`
+    : null;
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="bg-gray-900 text-white px-4 py-3">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <div>
+            {venue && <div className="text-xs text-gray-400">{venue.name}</div>}
+            <h1 className="text-lg font-bold">{session.location} Bracket</h1>
+          </div>
+          <button
+            onClick={() => setScreen('play')}
+            className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-sm font-medium transition-colors"
+          >
+            Back to Courts
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-4 space-y-6">
+        {bracket ? (
+          <BracketView bracket={bracket} liveMatchIds={session.activeMatches.map(m => m.id)} />
+        ) : (
+          <p className="text-gray-500 text-center py-12">No bracket for this session</p>
+        )}
+
+        {publicUrl && (
+          <div className="bg-green-100 rounded-2xl p-4 shadow-sm text-center">
+            <div className="text-sm font-semibold text-green-800 mb-3">
+              Scan to follow the bracket live
+            </div>
+            <div className="flex justify-center mb-3">
+              <QRCode url={publicUrl} size={160} />
+            </div>
+            <button
+              onClick={() => navigator.clipboard.writeText(publicUrl)}
+              className="px-6 py-3 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 transition-colors min-h-[44px]"
+            >
+              Copy Link
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -4,15 +4,32 @@ import { Button } from '../components/Button';
 import { QRCode } from '../components/QRCode';
 import { ShareModal } from '../components/ShareModal';
 import { ShareLeaderboardModal } from '../components/ShareLeaderboardModal';
+import { RiverStandings } from '../components/RiverStandings';
+import { MatchHistory } from '../components/MatchHistory';
+import { SessionSwitcher } from '../components/SessionSwitcher';
+import { isPointsFormat, calculatePointsLeaderboard } from '../utils/americano';
+import { getPlayedMatches } from '../utils/outcome';
+import { getPlayTime } from '../utils/pause';
 import { calculateLeaderboard, getWinPercentage } from '../utils/matching';
 import { announceLeaderboard } from '../utils/speech';
+import { formatPointDifferential, getPointDifferential } from '../utils/score';
+import { hasSeriesPlay } from '../utils/series';
 import { getLocalVenue } from '../utils/supabase';
 import type { Player } from '../types';
 
 const CLOUD_BANNER_DISMISSED_KEY = 'dinksync_cloud_banner_dismissed';
 
 export function LeaderboardScreen() {
-  const { session, newSession, syncedSessionId, setScreen } = useSession();
+  const {
+    session,
+    otherSessions,
+    newSession,
+    resumeSession,
+    switchSession,
+    startAnotherSession,
+    syncedSessionId,
+    setScreen,
+  } = useSession();
   const venue = getLocalVenue();
   const hasAnnounced = useRef(false);
   const [cloudBannerDismissed, setCloudBannerDismissed] = useState(
@@ -26,10 +43,15 @@ export function LeaderboardScreen() {
 
   const showCloudBanner = !venue && !cloudBannerDismissed;
 
-  const leaderboard = calculateLeaderboard(session.players);
-  const totalGames = session.matches.length;
+  const rankByPoints = isPointsFormat(session.rotationMode);
+  const leaderboard = rankByPoints
+    ? calculatePointsLeaderboard(session.players)
+    : calculateLeaderboard(session.players);
+  const totalGames = getPlayedMatches(session.matches).length;
+  const hasScores = session.players.some(p => p.pointsAgainst > 0);
+  const hasSeries = hasSeriesPlay(session.players);
   const sessionDuration = session.startTime && session.endTime
-    ? Math.round((session.endTime - session.startTime) / 1000 / 60)
+    ? Math.round(getPlayTime(session.pauses, session.startTime, session.endTime) / 1000 / 60)
     : 0;
 
   // Announce top 3 when leaderboard screen loads
@@ -46,6 +68,7 @@ export function LeaderboardScreen() {
 
   const [sharePlayer, setSharePlayer] = useState<Player | null>(null);
   const [showLeaderboardShare, setShowLeaderboardShare] = useState(false);
+  const [showResumeConfirm, setShowResumeConfirm] = useState(false);
 
   const getMedal = (index: number) => {
     if (index === 0) return '🥇';
@@ -66,11 +89,21 @@ export function LeaderboardScreen() {
             <h1 className="text-2xl font-bold text-gray-900">🏓 PickleQ</h1>
             <p className="text-gray-600 text-sm">Session Complete</p>
           </button>
-          <div className="text-right">
-            <div className="text-4xl">🏆</div>
-            {venue && (
-              <p className="text-xs text-gray-500 mt-1">{venue.name}</p>
+          <div className="flex items-center gap-3">
+            {otherSessions.length > 0 && (
+              <SessionSwitcher
+                session={session}
+                otherSessions={otherSessions}
+                onSwitch={switchSession}
+                onNew={startAnotherSession}
+              />
             )}
+            <div className="text-right">
+              <div className="text-4xl">🏆</div>
+              {venue && (
+                <p className="text-xs text-gray-500 mt-1">{venue.name}</p>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -124,6 +157,13 @@ export function LeaderboardScreen() {
           </div>
         </div>
 
+        {/* River mode ranks players by where they finished on the ladder */}
+        {session.rotationMode === 'river' && (
+          <div className="mb-6">
+            <RiverStandings players={session.players} matches={session.matches} />
+          </div>
+        )}
+
         {/* Shareable Session QR Code */}
         {venue && syncedSessionId && (
           <div className="bg-green-100 rounded-2xl p-4 shadow-sm mb-6">
@@ -222,16 +262,19 @@ export function LeaderboardScreen() {
                         )}
                       </div>
                       <div className="text-sm text-gray-500">
-                        {player.wins}-{player.losses} · {player.gamesPlayed} games
+                        {hasSeries
+                          ? `${player.wins}-${player.losses} series · ${player.gamesWon}-${player.gamesLost} games`
+                          : `${player.wins}-${player.losses} · ${player.gamesPlayed} games`}
+                        {hasScores && ` · ${formatPointDifferential(getPointDifferential(player))}`}
                       </div>
                     </div>
 
-                    {/* Wins (primary stat) */}
+                    {/* Wins, or points in Americano/Mexicano (primary stat) */}
                     <div className="text-right flex-shrink-0">
                       <div className={`font-bold ${isTopThree ? 'text-2xl' : 'text-xl'} text-green-600`}>
-                        {player.wins}
+                        {rankByPoints ? player.points : player.wins}
                       </div>
-                      <div className="text-xs text-gray-400">WINS</div>
+                      <div className="text-xs text-gray-400">{rankByPoints ? 'POINTS' : hasSeries ? 'SERIES' : 'WINS'}</div>
                     </div>
 
                     {/* Win Rate (secondary) */}
@@ -272,6 +315,14 @@ export function LeaderboardScreen() {
           </div>
         )}
 
+        {/* Match History */}
+        {session.matches.length > 0 && (
+          <div className="mt-6 bg-white rounded-2xl p-4 shadow-sm">
+            <h3 className="font-semibold text-gray-700 mb-2">Match History</h3>
+            <MatchHistory matches={session.matches} players={session.players} />
+          </div>
+        )}
+
         {/* New Session Button */}
         <div className="mt-8">
           <Button
@@ -282,9 +333,50 @@ export function LeaderboardScreen() {
           >
             Start New Session
           </Button>
+          <button
+            onClick={() => setShowResumeConfirm(true)}
+            className="w-full mt-3 py-2 text-sm text-gray-500 hover:text-gray-700"
+          >
+            Ended by mistake? Resume session
+          </button>
         </div>
       </main>
 
+      {/* Resume Session Confirmation */}
+      {showResumeConfirm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl p-6 max-w-sm w-full">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">
+              Resume Session?
+            </h3>
+            <p className="text-gray-600 mb-6">
+              Play picks up where it left off. Lifetime stats from this session are taken back and saved again when it ends.
+            </p>
+            <div className="flex gap-3">
+              <Button
+                variant="secondary"
+                size="lg"
+                onClick={() => setShowResumeConfirm(false)}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                size="lg"
+                onClick={() => {
+                  setShowResumeConfirm(false);
+                  resumeSession();
+                }}
+                className="flex-1"
+              >
+                Resume
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Share Player Modal */}
       {sharePlayer && (() => {
         const rankIndex = leaderboard.findIndex(p => p.id === sharePlayer.id);
@@ -1,5 +1,6 @@
-import { useState, useEffect, useRef, useMemo } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useSession } from '../store/useSession';
+import { describeAction, isUndoable } from '../store/actionLog';
 import { Button } from '../components/Button';
 import { CourtCard } from '../components/CourtCard';
 import { PlayerCard } from '../components/PlayerCard';
@@ -7,8 +8,24 @@ import { PlayerPicker } from '../components/PlayerPicker';
 import { SkillSelector } from '../components/SkillSelector';
 import { UndoToast } from '../components/UndoToast';
 import { LiveStandingsModal } from '../components/LiveStandingsModal';
-import { announceNextMatch, announceWinner, isMuted, setMuted, cancelAllSpeech } from '../utils/speech';
-import { getLocalVenue } from '../utils/supabase';
+import { SchedulePanel } from '../components/SchedulePanel';
+import { RiverStandings } from '../components/RiverStandings';
+import { ChallengePanel } from '../components/ChallengePanel';
+import { Scorekeeper } from '../components/Scorekeeper';
+import { MatchHistory } from '../components/MatchHistory';
+import { HistoryDrawer } from '../components/HistoryDrawer';
+import { SessionSwitcher } from '../components/SessionSwitcher';
+import { announce, announceNextMatch, announceWinner, announceGameWinner, isMuted, setMuted, cancelAllSpeech } from '../utils/speech';
+import { getLocalVenue, getVenueSettings } from '../utils/supabase';
+import { getCourtTier, isEligibleForCourt } from '../utils/matching';
+import { isPointsFormat } from '../utils/americano';
+import { getReadyMatches } from '../utils/bracket';
+import { getSeriesScore, getSeriesWinner } from '../utils/series';
+import { getTimeCapLeader, getTimeCapStage, getTimeRemaining } from '../utils/timeCap';
+import { getRallyState } from '../utils/rally';
+import { allowsDraw, getPlayedMatches } from '../utils/outcome';
+import { getNextBreakTime, getPlayTime, isPaused } from '../utils/pause';
+import type { MatchScore } from '../types';
 
 function formatDuration(ms: number): string {
   const totalSeconds = Math.round(ms / 1000);
@@ -17,17 +34,40 @@ function formatDuration(ms: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 }
 
+// Actions that get the quick-undo toast
+const RESULT_ACTIONS = ['RECORD_WINNER', 'RECORD_GAME', 'END_MATCH'];
+
+type PullOutcome = 'cancelled' | 'forfeit' | 'injury';
+
+// How a match ends when a player has to come off and nobody can sub in
+const PULL_OUTCOMES: { value: PullOutcome; label: string }[] = [
+  { value: 'cancelled', label: 'Cancel' },
+  { value: 'forfeit', label: 'Forfeit' },
+  { value: 'injury', label: 'Injury' },
+];
+
 export function PlayScreen() {
   const {
     session,
     queue,
-    undoAction,
+    actionLog,
+    otherSessions,
+    playersElsewhere,
+    switchSession,
+    startAnotherSession,
+    undo,
+    redo,
     recordWinner,
-    undoWinner,
+    recordScore,
+    recordGame,
+    undoGame,
+    recordRally,
+    undoRally,
     checkInPlayer,
     checkOutPlayer,
     endSession,
-    clearUndo,
+    pausePlay,
+    resumePlay,
     addPlayer,
     addPlayerWithSkill,
     setPlayerSkill,
@@ -35,14 +75,28 @@ export function PlayScreen() {
     lockPartners,
     unlockPartner,
     pullFromCourt,
+    recordOutcome,
+    addChallenge,
+    cancelChallenge,
+    setChallengeCourt,
+    setScreen,
   } = useSession();
 
   const [showEndConfirm, setShowEndConfirm] = useState(false);
   const [showLiveStandings, setShowLiveStandings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [muted, setMutedState] = useState(isMuted);
   const [selectedForPairing, setSelectedForPairing] = useState<string | null>(null);
   const [editingSkillPlayerId, setEditingSkillPlayerId] = useState<string | null>(null);
-  const [pullConfirm, setPullConfirm] = useState<{ playerId: string; matchId: string; playerName: string; court: number } | null>(null);
+  const [scorekeeperMatchId, setScorekeeperMatchId] = useState<string | null>(null);
+  const [pullConfirm, setPullConfirm] = useState<{
+    playerId: string;
+    matchId: string;
+    playerName: string;
+    court: number;
+    hasSubstitute: boolean;
+    outcome: PullOutcome;
+  } | null>(null);
   const sessionPlayerNames = session.players.map(p => p.name);
   const venue = getLocalVenue();
 
@@ -92,18 +146,95 @@ export function PlayScreen() {
     }
   }, [session.activeMatches, session.players]);
 
+  // Time caps: call the last two minutes, then settle the match by policy once
+  // time is up (staff record the result themselves when there's no leader)
+  const twoMinuteCalls = useRef<Set<string>>(new Set());
+  const timeUpMatches = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    const capMinutes = session.timeCapMinutes;
+    if (capMinutes === null) return;
+
+    const check = () => {
+      const now = Date.now();
+      for (const match of session.activeMatches) {
+        const stage = getTimeCapStage(getTimeRemaining(match, capMinutes, now, session.pauses));
+        if (stage === 'final' && !twoMinuteCalls.current.has(match.id)) {
+          twoMinuteCalls.current.add(match.id);
+          announce(`Court ${match.court}, two minutes remaining`);
+        }
+        if (stage !== 'expired' || timeUpMatches.current.has(match.id)) continue;
+        timeUpMatches.current.add(match.id);
+
+        const options = {
+          gameTo: session.gameTo,
+          singles: match.team1.length === 1,
+          rallyScoring: getVenueSettings().rallyScoring,
+        };
+        const leader = session.timeCapPolicy === 'leader-wins' ? getTimeCapLeader(match, options) : null;
+        if (leader === null) {
+          announce(`Court ${match.court}, time.`);
+          continue;
+        }
+        const winnerNames = (leader === 1 ? match.team1 : match.team2)
+          .map(id => session.players.find(p => p.id === id)?.name)
+          .filter(Boolean) as string[];
+        announce(`Court ${match.court}, time.`);
+        announceWinner(match.court, winnerNames);
+        // A single game keeps its score so far; a series is decided on games
+        const score = match.games.length === 0 && match.rallies.length > 0
+          ? getRallyState(match.rallies, options).score
+          : undefined;
+        recordWinner(match.id, leader, score);
+      }
+    };
+
+    check();
+    const interval = setInterval(check, 1000);
+    return () => clearInterval(interval);
+  }, [session.activeMatches, session.players, session.pauses, session.timeCapMinutes, session.timeCapPolicy, session.gameTo, recordWinner]);
+
+  // Pauses: scheduled breaks start on their own and end when their time is
+  // up; the courts hear both, and hear when any pause ends
+  const paused = isPaused(session.pauses);
+  const currentPause = paused ? session.pauses[session.pauses.length - 1] : null;
+
+  const handleResume = useCallback(() => {
+    resumePlay();
+    announce('Break is over. Play resumes now.');
+  }, [resumePlay]);
+
+  useEffect(() => {
+    const check = () => {
+      const now = Date.now();
+      if (currentPause?.until && now >= currentPause.until) {
+        handleResume();
+        return;
+      }
+      const nextBreak = getNextBreakTime(session.pauses, session.breakEveryMinutes, session.startTime, now);
+      if (nextBreak !== null && now >= nextBreak) {
+        pausePlay(true);
+        announce(`Time for a ${session.breakLengthMinutes} minute break.`);
+      }
+    };
+
+    check();
+    const interval = setInterval(check, 1000);
+    return () => clearInterval(interval);
+  }, [currentPause, session.pauses, session.breakEveryMinutes, session.breakLengthMinutes, session.startTime, pausePlay, handleResume]);
+
   const notHerePlayers = session.players.filter(p => p.status === 'not-here');
   const leftPlayers = session.players.filter(p => p.status === 'left');
 
   // Calculate average game duration from completed matches
   const gameStats = useMemo(() => {
-    const completedMatches = session.matches.filter(m => m.endTime && m.startTime);
+    const completedMatches = getPlayedMatches(session.matches).filter(m => m.endTime && m.startTime);
     if (completedMatches.length === 0) {
       return { avgDuration: null, estimatedWait: null };
     }
 
     const totalDuration = completedMatches.reduce((sum, m) => {
-      return sum + ((m.endTime ?? 0) - m.startTime);
+      return sum + getPlayTime(session.pauses, m.startTime, m.endTime ?? 0);
     }, 0);
     const avgDuration = totalDuration / completedMatches.length;
 
@@ -116,44 +247,116 @@ export function PlayScreen() {
     const playersServedPerRound = gamesPerRound * playersPerGame;
 
     return { avgDuration, playersServedPerRound };
-  }, [session.matches, session.activeMatches.length, session.gameMode]);
+  }, [session.matches, session.pauses, session.activeMatches.length, session.gameMode]);
 
   // Generate court grid
   const courts = Array.from({ length: session.courts }, (_, i) => i + 1);
 
-  const handleRecordWinner = (matchId: string, winner: 1 | 2) => {
+  // Best-of-N: results are recorded a game at a time (points formats always play single matches)
+  const isSeries = session.bestOf > 1 && !isPointsFormat(session.rotationMode);
+
+  const handleRecordWinner = (matchId: string, winner: 1 | 2, score?: MatchScore) => {
     // Find the match and get winner names before recording (which removes the match)
     const match = session.activeMatches.find(m => m.id === matchId);
+    // Once time is up, staff's pick decides the whole series
+    const timeUp = match !== undefined &&
+      getTimeCapStage(getTimeRemaining(match, session.timeCapMinutes, Date.now(), session.pauses)) === 'expired';
+    const isGameOfSeries = isSeries && !timeUp;
     if (match) {
       const winningTeam = winner === 1 ? match.team1 : match.team2;
       const winnerNames = winningTeam
         .map(id => session.players.find(p => p.id === id)?.name)
         .filter(Boolean) as string[];
 
-      // Announce winner
-      announceWinner(match.court, winnerNames);
+      // Announce winner (of the game, while the series is still going)
+      const games = [...match.games, { winner, score: score ?? null, rallies: [] }];
+      if (isGameOfSeries && getSeriesWinner(games, session.bestOf) === null) {
+        const series = getSeriesScore(games);
+        const [winnerGames, loserGames] = winner === 1 ? [series.team1, series.team2] : [series.team2, series.team1];
+        announceGameWinner(match.court, winnerNames, winnerGames, loserGames);
+      } else {
+        announceWinner(match.court, winnerNames);
+      }
     }
 
-    recordWinner(matchId, winner);
+    if (isGameOfSeries) {
+      recordGame(matchId, winner, score);
+    } else {
+      recordWinner(matchId, winner, score);
+    }
   };
 
-  const handleUndo = () => {
-    if (undoAction?.type === 'winner') {
-      const data = undoAction.data as { matchId: string };
-      undoWinner(data.matchId);
+  const handleRecordScore = (matchId: string, score: MatchScore) => {
+    if (isSeries) {
+      if (score.team1 !== score.team2) handleRecordWinner(matchId, score.team1 > score.team2 ? 1 : 2, score);
+      return;
+    }
+    const match = session.activeMatches.find(m => m.id === matchId);
+    if (match && score.team1 !== score.team2) {
+      const winningTeam = score.team1 > score.team2 ? match.team1 : match.team2;
+      const winnerNames = winningTeam
+        .map(id => session.players.find(p => p.id === id)?.name)
+        .filter(Boolean) as string[];
+      announceWinner(match.court, winnerNames);
     }
-    clearUndo();
+
+    recordScore(matchId, score);
   };
 
+  const pointsFormat = isPointsFormat(session.rotationMode);
+  const scorekeeperMatch = session.activeMatches.find(m => m.id === scorekeeperMatchId);
+
+  // Offer a quick undo right after a result; anything older is in the history drawer
+  const latestAction = actionLog.entries.filter(isUndoable).at(-1);
+  const [toastDismissedAt, setToastDismissedAt] = useState(() => latestAction?.at ?? null);
+  const dismissToast = useCallback(() => setToastDismissedAt(latestAction?.at ?? null), [latestAction]);
+  const toastAction = latestAction && !latestAction.undone && latestAction.at !== toastDismissedAt &&
+    RESULT_ACTIONS.includes(latestAction.action.type) ? latestAction : null;
+
   const getMatchForCourt = (court: number) => {
     return session.activeMatches.find(m => m.court === court);
   };
 
+  // Players ready for a court: its eligible queue, or in a round robin, the
+  // players of its next scheduled game who are waiting
+  const getQueueLengthForCourt = (court: number) => {
+    if (court === session.challengeCourt) {
+      const isReady = (id: string) => queue.some(p => p.id === id);
+      const ready = session.challenges.some(c =>
+        !c.matchId && isReady(c.challengerId) && isReady(c.defenderId));
+      return ready ? 2 : 0;
+    }
+    if (session.schedule) {
+      const scheduled = session.schedule.rounds[session.schedule.currentRound]?.matches
+        .find(m => m.court === court && !m.matchId);
+      if (!scheduled) return 0;
+      return [...scheduled.team1, ...scheduled.team2].filter(id => queue.some(p => p.id === id)).length;
+    }
+    if (session.bracket) {
+      const isReady = (entrantId: string | null) => session.bracket!.entrants
+        .find(e => e.id === entrantId)?.playerIds.every(id => queue.some(p => p.id === id));
+      const ready = getReadyMatches(session.bracket).find(m => isReady(m.entrant1) && isReady(m.entrant2));
+      return ready ? queue.length : 0;
+    }
+    const tier = getCourtTier(session.courtTiers, court);
+    return queue.filter(p => isEligibleForCourt(p, tier)).length;
+  };
+
   const handlePullPlayer = (playerId: string, matchId: string) => {
     const player = session.players.find(p => p.id === playerId);
     const match = session.activeMatches.find(m => m.id === matchId);
     if (player && match) {
-      setPullConfirm({ playerId, matchId, playerName: player.name, court: match.court });
+      // Nobody stands in for a challenge or a bracket entrant
+      const isFixedMatch = session.challenges.some(c => c.matchId === matchId) ||
+        !!session.bracket?.matches.some(m => m.matchId === matchId);
+      setPullConfirm({
+        playerId,
+        matchId,
+        playerName: player.name,
+        court: match.court,
+        hasSubstitute: queue.length > 0 && !isFixedMatch,
+        outcome: 'cancelled',
+      });
     }
   };
 
@@ -170,7 +373,7 @@ export function PlayScreen() {
             <div className="hidden sm:flex items-center gap-4 text-sm">
               <div className="flex items-center gap-1.5">
                 <span className="text-gray-400">GAMES</span>
-                <span className="font-bold text-xl">{session.matches.length}</span>
+                <span className="font-bold text-xl">{getPlayedMatches(session.matches).length}</span>
               </div>
               <div className="flex items-center gap-1.5">
                 <span className="text-gray-400">COURTS</span>
@@ -183,6 +386,38 @@ export function PlayScreen() {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <SessionSwitcher
+              session={session}
+              otherSessions={otherSessions}
+              onSwitch={switchSession}
+              onNew={startAnotherSession}
+              dark
+            />
+            {session.bracket && (
+              <button
+                onClick={() => setScreen('bracket')}
+                className="px-3 py-2 rounded-lg transition-colors bg-gray-700 text-white text-sm font-medium hover:bg-gray-600"
+                title="View bracket"
+              >
+                Bracket
+              </button>
+            )}
+            <button
+              onClick={paused ? handleResume : () => pausePlay()}
+              className={`p-2 rounded-lg transition-colors ${
+                paused ? 'bg-amber-500 text-white hover:bg-amber-400' : 'bg-gray-700 text-white hover:bg-gray-600'
+              }`}
+              title={paused ? 'Resume play' : 'Pause play'}
+            >
+              <span className="text-lg">{paused ? '▶' : '⏸'}</span>
+            </button>
+            <button
+              onClick={() => setShowHistory(true)}
+              className="p-2 rounded-lg transition-colors bg-gray-700 text-white hover:bg-gray-600"
+              title="History and undo"
+            >
+              <span className="text-lg">↶</span>
+            </button>
             <button
               onClick={() => setShowLiveStandings(true)}
               className="p-2 rounded-lg transition-colors bg-gray-700 text-yellow-400 hover:bg-gray-600"
@@ -221,26 +456,93 @@ export function PlayScreen() {
         </div>
       </header>
 
+      {currentPause && (
+        <div className="bg-amber-100 border-b border-amber-200 px-4 py-2">
+          <div className="max-w-6xl mx-auto flex items-center justify-between gap-3">
+            <span className="text-sm font-semibold text-amber-900">
+              ⏸ {currentPause.scheduled ? 'Scheduled break' : 'Play paused'}
+              {currentPause.until && (
+                <span className="font-normal">
+                  {' '}· back at {new Date(currentPause.until).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                </span>
+              )}
+              <span className="font-normal"> · match clocks are stopped and no new matches start</span>
+            </span>
+            <Button variant="primary" size="sm" onClick={handleResume}>
+              Resume
+            </Button>
+          </div>
+        </div>
+      )}
+
       <main className="max-w-6xl mx-auto p-4 space-y-6">
         {/* Courts Grid */}
         <section>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {courts.map((court) => (
-              <CourtCard
-                key={court}
-                court={court}
-                match={getMatchForCourt(court)}
-                players={session.players}
-                gameMode={session.gameMode}
-                queueLength={queue.length}
-                onRecordWinner={handleRecordWinner}
-                onStartNextMatch={fillCourt}
-                onPullPlayer={handlePullPlayer}
-              />
-            ))}
+            {courts.map((court) => {
+              const tier = getCourtTier(session.courtTiers, court);
+              const isChallengeCourt = court === session.challengeCourt;
+              return (
+                <CourtCard
+                  key={court}
+                  court={court}
+                  match={getMatchForCourt(court)}
+                  players={session.players}
+                  gameMode={isChallengeCourt ? 'singles' : session.gameMode}
+                  rotationMode={session.rotationMode}
+                  tier={tier}
+                  queueLength={getQueueLengthForCourt(court)}
+                  avoidList={session.avoidList}
+                  moves={isChallengeCourt ? undefined : session.river?.moves}
+                  pointsPerMatch={pointsFormat && !isChallengeCourt ? session.pointsPerMatch : undefined}
+                  gameTo={session.gameTo}
+                  bestOf={isSeries ? session.bestOf : 1}
+                  timeCapMinutes={session.timeCapMinutes}
+                  pauses={session.pauses}
+                  isPaused={paused}
+                  isChallengeCourt={isChallengeCourt}
+                  onRecordWinner={handleRecordWinner}
+                  onRecordScore={handleRecordScore}
+                  onStartNextMatch={fillCourt}
+                  onPullPlayer={handlePullPlayer}
+                  onKeepScore={setScorekeeperMatchId}
+                  onUndoGame={undoGame}
+                  onRecordOutcome={recordOutcome}
+                  canDraw={allowsDraw(session.rotationMode) && !isChallengeCourt}
+                />
+              );
+            })}
           </div>
         </section>
 
+        {/* Round-robin / Americano / Mexicano schedule */}
+        {session.schedule && (
+          <SchedulePanel
+            schedule={session.schedule}
+            players={session.players}
+            activeMatches={session.activeMatches}
+            openEnded={session.rotationMode === 'mexicano'}
+          />
+        )}
+
+        {/* Up-and-down-the-river ladder */}
+        {session.rotationMode === 'river' && session.river && (
+          <RiverStandings players={session.players} matches={session.matches} round={session.river.round} />
+        )}
+
+        {/* Venue challenge ladder */}
+        <ChallengePanel
+          ladder={session.ladder}
+          challenges={session.challenges}
+          challengeCourt={session.challengeCourt}
+          courts={session.courts}
+          range={getVenueSettings().ladderChallengeRange}
+          players={session.players}
+          onSetChallengeCourt={setChallengeCourt}
+          onAddChallenge={addChallenge}
+          onCancelChallenge={cancelChallenge}
+        />
+
         {/* Queue - styled as "Next Up" lineup */}
         <section className="bg-gray-900 rounded-2xl overflow-hidden shadow-lg">
           <div className="px-4 py-2 border-b border-gray-700 flex items-center justify-between">
@@ -319,6 +621,11 @@ export function PlayScreen() {
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2">
                         <span className="font-semibold text-white truncate">{player.name}</span>
+                        {player.isMember && session.queuePriority.membership > 0 && (
+                          <span className="text-xs bg-green-700 text-white px-1.5 py-0.5 rounded" title="Member priority">
+                            Member
+                          </span>
+                        )}
                         {isLocked && lockedPartner && (
                           <span className="text-xs bg-purple-600 text-white px-1.5 py-0.5 rounded">
                             🔗 {lockedPartner.name}
@@ -356,6 +663,9 @@ export function PlayScreen() {
                             )}
                           </button>
                         )}
+                        {player.rating !== null && (
+                          <span title="Rating">{player.rating}</span>
+                        )}
                         <span>{player.gamesPlayed}G</span>
                         {winRate !== null && (
                           <span className={winRate >= 50 ? 'text-green-400' : 'text-gray-400'}>
@@ -449,6 +759,7 @@ export function PlayScreen() {
                   showSkill={false}
                   showActions={true}
                   onCheckIn={() => checkInPlayer(player.id)}
+                  elsewhere={playersElsewhere[player.name.trim().toLowerCase()]}
                 />
               ))}
             </div>
@@ -473,28 +784,59 @@ export function PlayScreen() {
                       {player.wins}-{player.losses} ({player.gamesPlayed} games)
                     </span>
                   </div>
-                  <button
-                    onClick={() => checkInPlayer(player.id)}
-                    className="px-3 py-1.5 bg-green-100 text-green-700 rounded-lg text-sm font-medium hover:bg-green-200 transition-colors"
-                  >
-                    Check In
-                  </button>
+                  {playersElsewhere[player.name.trim().toLowerCase()] ? (
+                    <span className="text-sm text-gray-400">
+                      At {playersElsewhere[player.name.trim().toLowerCase()]}
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => checkInPlayer(player.id)}
+                      className="px-3 py-1.5 bg-green-100 text-green-700 rounded-lg text-sm font-medium hover:bg-green-200 transition-colors"
+                    >
+                      Check In
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
           </section>
         )}
+
+        {/* Match History */}
+        {session.matches.length > 0 && (
+          <details className="bg-white rounded-2xl p-4 shadow-sm">
+            <summary className="text-lg font-semibold text-gray-700 cursor-pointer">
+              Match History ({session.matches.length})
+            </summary>
+            <div className="mt-3">
+              <MatchHistory matches={session.matches} players={session.players} />
+            </div>
+          </details>
+        )}
       </main>
 
       {/* Undo Toast */}
-      {undoAction && undoAction.type === 'winner' && (
+      {toastAction && (
         <UndoToast
-          message="Winner recorded"
-          onUndo={handleUndo}
-          onDismiss={clearUndo}
+          key={toastAction.at}
+          message={describeAction(toastAction.action, session)}
+          onUndo={() => {
+            undo();
+            dismissToast();
+          }}
+          onDismiss={dismissToast}
         />
       )}
 
+      <HistoryDrawer
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        log={actionLog}
+        session={session}
+        onUndo={undo}
+        onRedo={redo}
+      />
+
       {/* End Session Confirmation */}
       {showEndConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -538,11 +880,29 @@ export function PlayScreen() {
               Remove from Court {pullConfirm.court}?
             </h3>
             <p className="text-gray-600 mb-6">
-              <strong>{pullConfirm.playerName}</strong> will return to the queue.
-              {queue.length > 0
+              <strong>{pullConfirm.playerName}</strong>
+              {pullConfirm.outcome === 'injury' ? ' will leave the session.' : ' will return to the queue.'}
+              {pullConfirm.hasSubstitute
                 ? ' A substitute will take their spot.'
-                : ' The match will be cancelled since no substitutes are available.'}
+                : ' No substitute is available, so the match ends:'}
             </p>
+            {!pullConfirm.hasSubstitute && (
+              <div className="grid grid-cols-3 gap-2 -mt-4 mb-6">
+                {PULL_OUTCOMES.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setPullConfirm({ ...pullConfirm, outcome: value })}
+                    className={`py-2 rounded-lg text-sm font-semibold border-2 ${
+                      pullConfirm.outcome === value
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 text-gray-600'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="flex gap-3">
               <Button
                 variant="secondary"
@@ -556,7 +916,8 @@ export function PlayScreen() {
                 variant="danger"
                 size="lg"
                 onClick={() => {
-                  pullFromCourt(pullConfirm.playerId, pullConfirm.matchId);
+                  pullFromCourt(pullConfirm.playerId, pullConfirm.matchId,
+                    pullConfirm.hasSubstitute ? undefined : pullConfirm.outcome);
                   setPullConfirm(null);
                 }}
                 className="flex-1"
@@ -573,9 +934,27 @@ export function PlayScreen() {
         isOpen={showLiveStandings}
         onClose={() => setShowLiveStandings(false)}
         players={session.players}
-        totalGames={session.matches.length}
+        totalGames={getPlayedMatches(session.matches).length}
         location={session.location}
+        rankByPoints={pointsFormat}
       />
+
+      {/* Courtside scorekeeper (closes itself once the game is recorded) */}
+      {scorekeeperMatch && (
+        <Scorekeeper
+          match={scorekeeperMatch}
+          players={session.players}
+          options={{
+            gameTo: session.gameTo,
+            singles: scorekeeperMatch.team1.length === 1,
+            rallyScoring: getVenueSettings().rallyScoring,
+          }}
+          onRally={(winner) => recordRally(scorekeeperMatch.id, winner)}
+          onUndoRally={() => undoRally(scorekeeperMatch.id)}
+          onGameOver={(winner, score) => handleRecordWinner(scorekeeperMatch.id, winner, score)}
+          onClose={() => setScorekeeperMatchId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -2,17 +2,21 @@ import { useState, useMemo } from 'react';
 import { useSession } from '../store/useSession';
 import { Button } from '../components/Button';
 import { SkillSelector } from '../components/SkillSelector';
+import { CategorySelector } from '../components/CategorySelector';
+import { AvoidListEditor } from '../components/AvoidListEditor';
 import {
   getSavedPlayers,
   updateSavedPlayerSkill,
+  updateSavedPlayerCategory,
+  updateSavedPlayerMembership,
   updateSavedPlayerName,
   deleteSavedPlayer,
   type SavedPlayer,
 } from '../utils/storage';
-import type { SkillLevel } from '../types';
+import type { SkillLevel, PlayerCategory } from '../types';
 
 export function PlayersScreen() {
-  const { setScreen } = useSession();
+  const { session, setScreen, addAvoidPair, removeAvoidPair } = useSession();
   const [searchQuery, setSearchQuery] = useState('');
   const [editingPlayer, setEditingPlayer] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
@@ -34,6 +38,16 @@ export function PlayersScreen() {
     setPlayers(getSavedPlayers());
   };
 
+  const handleCategoryChange = (playerId: string, category: PlayerCategory) => {
+    updateSavedPlayerCategory(playerId, category);
+    setPlayers(getSavedPlayers());
+  };
+
+  const handleMembershipChange = (playerId: string, isMember: boolean) => {
+    updateSavedPlayerMembership(playerId, isMember);
+    setPlayers(getSavedPlayers());
+  };
+
   const startEditing = (player: SavedPlayer) => {
     setEditingPlayer(player.id);
     setEditName(player.name);
@@ -194,13 +208,28 @@ export function PlayersScreen() {
                           </div>
                         </div>
 
-                        {/* Skill Selector */}
+                        {/* Skill and Category Selectors */}
                         <div className="flex items-center gap-2">
                           <SkillSelector
                             skill={player.skill}
                             onChange={(skill) => handleSkillChange(player.id, skill)}
                             size="md"
                           />
+                          <CategorySelector
+                            category={player.category ?? null}
+                            onChange={(category) => handleCategoryChange(player.id, category)}
+                          />
+                          <button
+                            onClick={() => handleMembershipChange(player.id, !player.isMember)}
+                            className={`px-2 h-7 rounded-lg text-xs font-bold transition-colors ${
+                              player.isMember
+                                ? 'bg-green-600 text-white'
+                                : 'bg-gray-100 text-gray-400 hover:bg-gray-200'
+                            }`}
+                            title={player.isMember ? 'Member' : 'Not a member'}
+                          >
+                            Member
+                          </button>
                         </div>
 
                         {/* Delete */}
@@ -239,6 +268,16 @@ export function PlayersScreen() {
           )}
         </div>
 
+        {/* Avoid List */}
+        <div className="mt-4">
+          <AvoidListEditor
+            avoidList={session.avoidList}
+            playerNames={players.map(p => p.name).sort((a, b) => a.localeCompare(b))}
+            onAdd={addAvoidPair}
+            onRemove={removeAvoidPair}
+          />
+        </div>
+
         {/* Help text */}
         <div className="mt-4 text-center text-sm text-gray-500">
           <p>Tap the stars to change skill level</p>
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { getVenueBySlug, getVenueBracket } from '../utils/supabase';
+import { BracketView } from '../components/BracketView';
+import type { Bracket, Venue } from '../types';
+
+interface PublicBracketScreenProps {
+  slug: string;
+  bracketId: string;
+}
+
+// How often to check for new results while the tournament is running
+const REFRESH_INTERVAL_MS = 30000;
+
+export function PublicBracketScreen({ slug, bracketId }: PublicBracketScreenProps) {
+  const [venue, setVenue] = useState<Venue | null>(null);
+  const [bracket, setBracket] = useState<Bracket | null>(null);
+  const [location, setLocation] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let venueId: string | null = null;
+
+    async function loadBracket() {
+      if (!venueId) {
+        const venueData = await getVenueBySlug(slug);
+        if (!venueData) {
+          setError('Venue not found');
+          setLoading(false);
+          return;
+        }
+        venueId = venueData.id;
+        setVenue(venueData);
+      }
+
+      const bracketData = await getVenueBracket(venueId, bracketId);
+      if (!bracketData) {
+        setError('Bracket not found');
+        setLoading(false);
+        return;
+      }
+      setBracket(bracketData.bracket);
+      setLocation(bracketData.location);
+      setLoading(false);
+    }
+
+    loadBracket();
+    const interval = setInterval(loadBracket, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [slug, bracketId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-green-50 to-emerald-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-4xl mb-4">🏓</div>
+          <p className="text-gray-600">Loading bracket...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !venue || !bracket) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 flex items-center justify-center p-4">
+        <div className="text-center bg-white rounded-2xl p-8 shadow-sm max-w-md">
+          <div className="text-6xl mb-4">🔍</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Bracket Not Found</h1>
+          <p className="text-gray-600">
+            We couldn't find this bracket. Please check the link and try again.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-green-50 to-emerald-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-4 py-2">
+          <a
+            href={`/venue/${slug}`}
+            className="inline-flex items-center gap-1.5 text-sm text-gray-400 hover:text-green-600 transition-colors"
+          >
+            <span>🏓</span>
+            <span className="font-semibold">{venue.name}</span>
+          </a>
+        </div>
+        <div className="max-w-6xl mx-auto px-4 pb-4 text-center">
+          <h1 className="text-xl font-bold text-gray-900">{location}</h1>
+          <p className="text-gray-500 text-sm">
+            {bracket.doubleElimination ? 'Double Elimination' : 'Single Elimination'} • {bracket.entrants.length} entrants
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-4 pb-8">
+        <BracketView bracket={bracket} />
+      </main>
+    </div>
+  );
+}
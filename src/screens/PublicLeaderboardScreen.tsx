@@ -1,5 +1,5 @@
 import { useEffect, useState, useMemo } from 'react';
-import { getVenueBySlug, getVenuePlayers, getVenueSessions } from '../utils/supabase';
+import { getVenueBySlug, getVenuePlayers, getVenueSessions, getVenueLadder } from '../utils/supabase';
 import { getSkillLabel } from '../components/SkillSelector';
 import { ShareModal } from '../components/ShareModal';
 import { ShareLeaderboardModal } from '../components/ShareLeaderboardModal';
@@ -15,6 +15,7 @@ export function PublicLeaderboardScreen({ slug }: PublicLeaderboardScreenProps)
   const [venue, setVenue] = useState<Venue | null>(null);
   const [players, setPlayers] = useState<VenuePlayer[]>([]);
   const [sessions, setSessions] = useState<VenueSession[]>([]);
+  const [ladder, setLadder] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [sharePlayer, setSharePlayer] = useState<VenuePlayer | null>(null);
@@ -35,12 +36,14 @@ export function PublicLeaderboardScreen({ slug }: PublicLeaderboardScreenProps)
       setVenue(venueData);
       trackPublicLeaderboardViewed(slug);
 
-      const [playersData, sessionsData] = await Promise.all([
+      const [playersData, sessionsData, ladderData] = await Promise.all([
         getVenuePlayers(venueData.id),
         getVenueSessions(venueData.id, 10),
+        getVenueLadder(venueData.id),
       ]);
       setPlayers(playersData);
       setSessions(sessionsData);
+      setLadder(ladderData);
       setLoading(false);
     }
 
@@ -333,6 +336,37 @@ export function PublicLeaderboardScreen({ slug }: PublicLeaderboardScreenProps)
           </div>
         )}
 
+        {/* Challenge Ladder */}
+        {ladder.length > 0 && (
+          <div className="mt-6 bg-white rounded-2xl shadow-sm overflow-hidden">
+            <div className="bg-gray-100 px-4 py-3 border-b">
+              <h2 className="font-semibold text-gray-700">Challenge Ladder</h2>
+              <p className="text-xs text-gray-400 mt-0.5">Beat someone above you to take their rung</p>
+            </div>
+
+            <div className="divide-y divide-gray-100">
+              {ladder.map((name, index) => {
+                const player = players.find(p => p.name.toLowerCase() === name.toLowerCase());
+                return (
+                  <div key={name} className="flex items-center gap-4 px-4 py-3">
+                    <div className="w-12 text-center">
+                      <span className="text-lg font-bold text-gray-400">{index + 1}</span>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <span className="font-medium truncate text-gray-900">{name}</span>
+                    </div>
+                    {player && (
+                      <div className="text-sm text-gray-500">
+                        {player.lifetimeWins}W - {player.lifetimeLosses}L
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Recent Sessions */}
         {sessions.length > 0 && (
           <div className="mt-6">
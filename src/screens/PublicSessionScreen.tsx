@@ -3,6 +3,7 @@ import {
   getVenueBySlug,
   getSessionById,
   getSessionPlayers,
+  getSessionMatches,
 } from '../utils/supabase';
 import { getSkillLabel } from '../components/SkillSelector';
 import { PlayerStatsCard } from '../components/PlayerStatsCard';
@@ -10,7 +11,9 @@ import { ShareLeaderboardModal } from '../components/ShareLeaderboardModal';
 import { Button } from '../components/Button';
 import { captureElement, shareImage, downloadImage, canNativeShare } from '../utils/share';
 import { trackPublicSessionViewed, trackStatsShared } from '../utils/analytics';
-import type { Venue, VenueSession, SessionPlayer } from '../types';
+import type { Venue, VenueSession, SessionPlayer, SessionMatch } from '../types';
+import { formatPointDifferential } from '../utils/score';
+import { hasSeriesPlay } from '../utils/series';
 
 interface PublicSessionScreenProps {
   slug: string;
@@ -21,6 +24,7 @@ export function PublicSessionScreen({ slug, sessionId }: PublicSessionScreenProp
   const [venue, setVenue] = useState<Venue | null>(null);
   const [session, setSession] = useState<VenueSession | null>(null);
   const [players, setPlayers] = useState<SessionPlayer[]>([]);
+  const [matches, setMatches] = useState<SessionMatch[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [sharePlayer, setSharePlayer] = useState<SessionPlayer | null>(null);
@@ -61,8 +65,12 @@ export function PublicSessionScreen({ slug, sessionId }: PublicSessionScreenProp
       trackPublicSessionViewed(slug, sessionId);
 
       // Load session players
-      const playersData = await getSessionPlayers(sessionId);
+      const [playersData, matchesData] = await Promise.all([
+        getSessionPlayers(sessionId),
+        getSessionMatches(sessionId),
+      ]);
       setPlayers(playersData);
+      setMatches(matchesData);
       setLoading(false);
     }
 
@@ -79,13 +87,19 @@ export function PublicSessionScreen({ slug, sessionId }: PublicSessionScreenProp
         const aWinRate = a.gamesPlayed > 0 ? a.wins / a.gamesPlayed : 0;
         const bWinRate = b.gamesPlayed > 0 ? b.wins / b.gamesPlayed : 0;
         if (bWinRate !== aWinRate) return bWinRate - aWinRate;
-        // Tiebreaker 2: Fewer games (efficiency)
+        // Tiebreaker 2: Point differential
+        const aDiff = a.pointsFor - a.pointsAgainst;
+        const bDiff = b.pointsFor - b.pointsAgainst;
+        if (bDiff !== aDiff) return bDiff - aDiff;
+        // Tiebreaker 3: Fewer games (efficiency)
         if (a.gamesPlayed !== b.gamesPlayed) return a.gamesPlayed - b.gamesPlayed;
-        // Tiebreaker 3: Alphabetical
+        // Tiebreaker 4: Alphabetical
         return a.playerName.localeCompare(b.playerName);
       });
   }, [players]);
 
+  const hasSeries = hasSeriesPlay(players);
+
   const getWinRate = (player: SessionPlayer) => {
     if (player.gamesPlayed === 0) return 0;
     return Math.round((player.wins / player.gamesPlayed) * 100);
@@ -292,7 +306,13 @@ export function PublicSessionScreen({ slug, sessionId }: PublicSessionScreenProp
                       <div className="text-sm text-gray-500">
                         {player.wins}W - {player.losses}L
                         <span className="mx-1">•</span>
-                        {player.gamesPlayed} games
+                        {hasSeries ? `games ${player.gamesWon}-${player.gamesLost}` : `${player.gamesPlayed} games`}
+                        {matches.length > 0 && (
+                          <>
+                            <span className="mx-1">•</span>
+                            {formatPointDifferential(player.pointsFor - player.pointsAgainst)}
+                          </>
+                        )}
                       </div>
                     </div>
 
@@ -303,7 +323,7 @@ export function PublicSessionScreen({ slug, sessionId }: PublicSessionScreenProp
                       >
                         {player.wins}
                       </div>
-                      <div className="text-xs text-gray-400">WINS</div>
+                      <div className="text-xs text-gray-400">{hasSeries ? 'SERIES' : 'WINS'}</div>
                     </div>
 
                     {/* Win Rate (secondary) */}
@@ -337,6 +357,31 @@ export function PublicSessionScreen({ slug, sessionId }: PublicSessionScreenProp
           )}
         </div>
 
+        {/* Scores */}
+        {matches.length > 0 && (
+          <div className="mt-6 bg-white rounded-2xl shadow-sm overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-100">
+              <h2 className="text-lg font-semibold text-gray-700">Scores</h2>
+            </div>
+            <div className="divide-y divide-gray-100">
+              {matches.map((match) => (
+                <div key={match.id} className="px-4 py-3 flex items-center gap-3 text-sm">
+                  <span className="text-xs text-gray-400 w-14 flex-shrink-0">Court {match.court}</span>
+                  <span className={`flex-1 min-w-0 truncate ${match.team1Score > match.team2Score ? 'font-semibold text-gray-900' : 'text-gray-500'}`}>
+                    {match.team1.join(' & ')}
+                  </span>
+                  <span className="font-bold text-gray-900 flex-shrink-0">
+                    {match.team1Score}–{match.team2Score}
+                  </span>
+                  <span className={`flex-1 min-w-0 truncate text-right ${match.team2Score > match.team1Score ? 'font-semibold text-gray-900' : 'text-gray-500'}`}>
+                    {match.team2.join(' & ')}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Link to full leaderboard */}
         <div className="mt-6 text-center">
           <a
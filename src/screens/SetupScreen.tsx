@@ -2,23 +2,49 @@ import { useMemo, useState } from 'react';
 import { useSession } from '../store/useSession';
 import { getSavedLocations } from '../utils/storage';
 import { getLocalVenue } from '../utils/supabase';
+import { COURT_TIERS, getCourtTier } from '../utils/matching';
+import { getRoundCount } from '../utils/schedule';
+import { TIME_CAP_POLICIES } from '../utils/timeCap';
+import type { CourtTier, TimeCapPolicy } from '../types';
 import { Button } from '../components/Button';
 import { PlayerCard } from '../components/PlayerCard';
 import { PlayerPicker } from '../components/PlayerPicker';
 import { SkillSelector } from '../components/SkillSelector';
+import { CategorySelector } from '../components/CategorySelector';
+import { QueuePriorityEditor } from '../components/QueuePriorityEditor';
+import { SessionSwitcher } from '../components/SessionSwitcher';
 
 export function SetupScreen() {
   const {
     session,
+    otherSessions,
+    playersElsewhere,
+    switchSession,
+    startAnotherSession,
     checkedInCount,
     canStartSession,
     setLocation,
     setCourts,
+    setCourtTier,
     setGameMode,
+    setRotationMode,
+    setWinStreakCap,
+    setPointsPerMatch,
+    setGameTo,
+    setBestOf,
+    setTimeCap,
+    setTimeCapPolicy,
+    setBreakEvery,
+    setBreakLength,
+    setDoubleElimination,
+    setMixedDoubles,
+    setMixedFallback,
+    setQueuePriority,
     addPlayer,
     addPlayerWithSkill,
     removePlayer,
     setPlayerSkill,
+    setPlayerCategory,
     checkInPlayer,
     startSession,
     setScreen,
@@ -59,6 +85,12 @@ export function SetupScreen() {
             </p>
           </div>
           <div className="flex gap-1.5">
+            <SessionSwitcher
+              session={session}
+              otherSessions={otherSessions}
+              onSwitch={switchSession}
+              onNew={startAnotherSession}
+            />
             <button
               onClick={() => setScreen('venue-setup')}
               className={`p-2 sm:px-3 rounded-lg text-sm font-medium transition-colors flex items-center gap-1.5 ${
@@ -158,6 +190,31 @@ export function SetupScreen() {
               +
             </Button>
           </div>
+
+          {/* Court tiers - restrict a court to one skill level */}
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <p className="text-xs text-gray-500 mb-2">
+              Court tiers (tiered courts only take players with that skill level)
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {Array.from({ length: session.courts }, (_, i) => i + 1).map((court) => (
+                <label key={court} className="flex items-center gap-2 text-sm text-gray-700">
+                  <span className="w-16 shrink-0">Court {court}</span>
+                  <select
+                    value={getCourtTier(session.courtTiers, court)}
+                    onChange={(e) => setCourtTier(court, e.target.value as CourtTier)}
+                    className="flex-1 px-2 py-1.5 border-2 border-gray-200 rounded-lg bg-white focus:border-green-500 focus:outline-none"
+                  >
+                    {(Object.keys(COURT_TIERS) as CourtTier[]).map((tier) => (
+                      <option key={tier} value={tier}>
+                        {COURT_TIERS[tier].label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
         </section>
 
         {/* Game Mode */}
@@ -187,6 +244,386 @@ export function SetupScreen() {
               Singles (2 players)
             </button>
           </div>
+          {session.gameMode === 'doubles' && (
+            <div className="mt-3 pt-3 border-t border-gray-100">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={session.mixedDoubles}
+                  onChange={(e) => setMixedDoubles(e.target.checked)}
+                  className="w-4 h-4 accent-green-600"
+                />
+                Mixed doubles (one M and one F on every team)
+              </label>
+              {session.mixedDoubles && (
+                <div className="mt-3 flex items-center justify-between">
+                  <p className="text-xs text-gray-500">
+                    Play regular doubles if no mixed game is possible after (minutes)
+                  </p>
+                  <div className="flex items-center gap-3">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => setMixedFallback(session.mixedFallbackMinutes - 5)}
+                      disabled={session.mixedFallbackMinutes <= 0}
+                    >
+                      −
+                    </Button>
+                    <span className="text-xl font-bold text-gray-900 w-8 text-center">
+                      {session.mixedFallbackMinutes}
+                    </span>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => setMixedFallback(session.mixedFallbackMinutes + 5)}
+                      disabled={session.mixedFallbackMinutes >= 60}
+                    >
+                      +
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+
+        {/* Rotation */}
+        <section className="bg-white rounded-2xl p-4 shadow-sm">
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Rotation
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => setRotationMode('standard')}
+              className={`flex-1 py-3 px-4 rounded-xl font-medium transition-colors ${
+                session.rotationMode === 'standard'
+                  ? 'bg-green-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Everyone rotates
+            </button>
+            <button
+              onClick={() => setRotationMode('winners-stay')}
+              className={`flex-1 py-3 px-4 rounded-xl font-medium transition-colors ${
+                session.rotationMode === 'winners-stay'
+                  ? 'bg-green-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Winners stay
+            </button>
+            <button
+              onClick={() => setRotationMode('round-robin')}
+              className={`flex-1 py-3 px-4 rounded-xl font-medium transition-colors ${
+                session.rotationMode === 'round-robin'
+                  ? 'bg-green-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Round robin
+            </button>
+            <button
+              onClick={() => setRotationMode('river')}
+              className={`flex-1 py-3 px-4 rounded-xl font-medium transition-colors ${
+                session.rotationMode === 'river'
+                  ? 'bg-green-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Up the river
+            </button>
+            <button
+              onClick={() => setRotationMode('americano')}
+              className={`flex-1 py-3 px-4 rounded-xl font-medium transition-colors ${
+                session.rotationMode === 'americano'
+                  ? 'bg-green-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Americano
+            </button>
+            <button
+              onClick={() => setRotationMode('mexicano')}
+              className={`flex-1 py-3 px-4 rounded-xl font-medium transition-colors ${
+                session.rotationMode === 'mexicano'
+                  ? 'bg-green-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Mexicano
+            </button>
+            <button
+              onClick={() => setRotationMode('tournament')}
+              className={`flex-1 py-3 px-4 rounded-xl font-medium transition-colors ${
+                session.rotationMode === 'tournament'
+                  ? 'bg-green-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Tournament
+            </button>
+          </div>
+          {session.rotationMode === 'river' && (
+            <p className="mt-3 text-xs text-gray-500">
+              Court 1 is the top court. When every court has finished, winners move up a court,
+              losers move down, and partners split up. Players waiting come in on the last court.
+            </p>
+          )}
+          {session.rotationMode === 'tournament' && (
+            <div className="mt-3 space-y-3">
+              <p className="text-xs text-gray-500">
+                A bracket is seeded by rating (or skill) from everyone checked in when the session starts.
+                {session.gameMode === 'doubles' && ' Locked partners play as a team; everyone else is paired strongest with weakest.'}
+                {' '}Matches go on a free court as soon as both sides are known.
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={session.doubleElimination}
+                  onChange={(e) => setDoubleElimination(e.target.checked)}
+                  className="w-4 h-4 accent-green-600"
+                />
+                Double elimination (losers drop to a losers' bracket)
+              </label>
+            </div>
+          )}
+          {session.rotationMode === 'round-robin' && (
+            <p className="mt-3 text-xs text-gray-500">
+              A fixed schedule is made for everyone checked in when the session starts, so each
+              player partners and faces everyone as evenly as possible.
+              {checkedInCount > 0 && ` ${getRoundCount(checkedInCount, session.gameMode, session.courts)} rounds with the current roster.`}
+            </p>
+          )}
+          {(session.rotationMode === 'americano' || session.rotationMode === 'mexicano') && (
+            <div className="mt-3 space-y-3">
+              <p className="text-xs text-gray-500">
+                {session.rotationMode === 'americano'
+                  ? 'Partners rotate on a fixed schedule. '
+                  : 'Each round is paired from the standings: 1st and 4th play 2nd and 3rd. '}
+                Every player keeps the points their team scores, and the standings rank by total points.
+              </p>
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">Points per match (both teams together)</p>
+                <div className="flex items-center gap-3">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setPointsPerMatch(session.pointsPerMatch - 1)}
+                    disabled={session.pointsPerMatch <= 5}
+                  >
+                    −
+                  </Button>
+                  <span className="text-xl font-bold text-gray-900 w-8 text-center">
+                    {session.pointsPerMatch}
+                  </span>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setPointsPerMatch(session.pointsPerMatch + 1)}
+                    disabled={session.pointsPerMatch >= 64}
+                  >
+                    +
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+          {session.rotationMode === 'winners-stay' && (
+            <div className="mt-3 flex items-center justify-between">
+              <p className="text-xs text-gray-500">
+                Winners rotate off after this many wins in a row
+              </p>
+              <div className="flex items-center gap-3">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setWinStreakCap(session.winStreakCap - 1)}
+                  disabled={session.winStreakCap <= 1}
+                >
+                  −
+                </Button>
+                <span className="text-xl font-bold text-gray-900 w-6 text-center">
+                  {session.winStreakCap}
+                </span>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setWinStreakCap(session.winStreakCap + 1)}
+                  disabled={session.winStreakCap >= 10}
+                >
+                  +
+                </Button>
+              </div>
+            </div>
+          )}
+          {session.rotationMode !== 'americano' && session.rotationMode !== 'mexicano' && (
+            <div className="mt-3 flex items-center justify-between">
+              <p className="text-xs text-gray-500">
+                Entered scores are games to this many points, win by 2
+              </p>
+              <div className="flex items-center gap-3">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setGameTo(session.gameTo - 1)}
+                  disabled={session.gameTo <= 5}
+                >
+                  −
+                </Button>
+                <span className="text-xl font-bold text-gray-900 w-6 text-center">
+                  {session.gameTo}
+                </span>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setGameTo(session.gameTo + 1)}
+                  disabled={session.gameTo >= 25}
+                >
+                  +
+                </Button>
+              </div>
+            </div>
+          )}
+          {session.rotationMode !== 'americano' && session.rotationMode !== 'mexicano' && (
+            <div className="mt-3 flex items-center justify-between">
+              <p className="text-xs text-gray-500">
+                Each court match is best of this many games
+              </p>
+              <div className="flex items-center gap-3">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setBestOf(session.bestOf - 2)}
+                  disabled={session.bestOf <= 1}
+                >
+                  −
+                </Button>
+                <span className="text-xl font-bold text-gray-900 w-6 text-center">
+                  {session.bestOf}
+                </span>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setBestOf(session.bestOf + 2)}
+                  disabled={session.bestOf >= 7}
+                >
+                  +
+                </Button>
+              </div>
+            </div>
+          )}
+          <div className="mt-3 flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              Time cap per court match (minutes)
+            </p>
+            <div className="flex items-center gap-3">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setTimeCap(session.timeCapMinutes! <= 5 ? null : session.timeCapMinutes! - 5)}
+                disabled={session.timeCapMinutes === null}
+              >
+                −
+              </Button>
+              <span className="text-xl font-bold text-gray-900 w-8 text-center">
+                {session.timeCapMinutes ?? 'Off'}
+              </span>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setTimeCap(session.timeCapMinutes === null ? 10 : session.timeCapMinutes + 5)}
+                disabled={session.timeCapMinutes !== null && session.timeCapMinutes >= 90}
+              >
+                +
+              </Button>
+            </div>
+          </div>
+          {session.timeCapMinutes !== null && (
+            <>
+              <div className="mt-2 flex gap-2">
+                {(Object.keys(TIME_CAP_POLICIES) as TimeCapPolicy[]).map(policy => (
+                  <button
+                    key={policy}
+                    onClick={() => setTimeCapPolicy(policy)}
+                    title={TIME_CAP_POLICIES[policy].description}
+                    className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border-2 transition-colors ${
+                      session.timeCapPolicy === policy
+                        ? 'border-green-600 bg-green-50 text-green-800'
+                        : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                    }`}
+                  >
+                    {TIME_CAP_POLICIES[policy].label}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                {TIME_CAP_POLICIES[session.timeCapPolicy].description}. The court hears a two-minute warning first.
+              </p>
+            </>
+          )}
+          <div className="mt-3 flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              Scheduled break every (minutes of play)
+            </p>
+            <div className="flex items-center gap-3">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setBreakEvery(session.breakEveryMinutes! <= 15 ? null : session.breakEveryMinutes! - 15)}
+                disabled={session.breakEveryMinutes === null}
+              >
+                −
+              </Button>
+              <span className="text-xl font-bold text-gray-900 w-8 text-center">
+                {session.breakEveryMinutes ?? 'Off'}
+              </span>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setBreakEvery(session.breakEveryMinutes === null ? 60 : session.breakEveryMinutes + 15)}
+                disabled={session.breakEveryMinutes !== null && session.breakEveryMinutes >= 180}
+              >
+                +
+              </Button>
+            </div>
+          </div>
+          {session.breakEveryMinutes !== null && (
+            <div className="mt-2 flex items-center justify-between">
+              <p className="text-xs text-gray-500">
+                Break length (minutes)
+              </p>
+              <div className="flex items-center gap-3">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setBreakLength(session.breakLengthMinutes - 5)}
+                  disabled={session.breakLengthMinutes <= 5}
+                >
+                  −
+                </Button>
+                <span className="text-xl font-bold text-gray-900 w-8 text-center">
+                  {session.breakLengthMinutes}
+                </span>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setBreakLength(session.breakLengthMinutes + 5)}
+                  disabled={session.breakLengthMinutes >= 30}
+                >
+                  +
+                </Button>
+              </div>
+            </div>
+          )}
+        </section>
+
+        {/* Queue Priority */}
+        <section className="bg-white rounded-2xl p-4 shadow-sm">
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Queue Priority
+          </label>
+          <QueuePriorityEditor policy={session.queuePriority} onChange={setQueuePriority} />
         </section>
 
         {/* Add Players */}
@@ -268,6 +705,12 @@ export function SetupScreen() {
                           onChange={(skill) => setPlayerSkill(player.id, skill)}
                           size="sm"
                         />
+                        {session.mixedDoubles && (
+                          <CategorySelector
+                            category={player.category}
+                            onChange={(category) => setPlayerCategory(player.id, category)}
+                          />
+                        )}
                       </div>
                       <div className="flex items-center gap-1">
                         {session.gameMode === 'doubles' && !isLocked && !selectedForPairing && (
@@ -322,8 +765,12 @@ export function SetupScreen() {
                   showSkill={true}
                   showActions={true}
                   onSkillChange={(skill) => setPlayerSkill(player.id, skill)}
+                  onCategoryChange={session.mixedDoubles
+                    ? (category) => setPlayerCategory(player.id, category)
+                    : undefined}
                   onCheckIn={() => checkInPlayer(player.id)}
                   onRemove={() => removePlayer(player.id)}
+                  elsewhere={playersElsewhere[player.name.trim().toLowerCase()]}
                 />
               ))}
             </div>
@@ -3,6 +3,7 @@ import { useSession } from '../store/useSession';
 import { useLanding } from '../App';
 import { Button } from '../components/Button';
 import { QRCode } from '../components/QRCode';
+import { QueuePriorityEditor } from '../components/QueuePriorityEditor';
 import {
   getLocalVenue,
   checkSlugAvailable,
@@ -13,7 +14,7 @@ import {
   getVenueSettings,
   updateVenueSettings,
 } from '../utils/supabase';
-import { DEFAULT_VENUE_SETTINGS } from '../types';
+import { DEFAULT_VENUE_SETTINGS, type QueuePriorityPolicy } from '../types';
 import { identifyVenue, resetIdentity, trackVenueCreated, trackVenueJoined } from '../utils/analytics';
 
 export function VenueSetupScreen() {
@@ -43,6 +44,34 @@ export function VenueSetupScreen() {
     updateVenueSettings({ minGamesForRanking: clamped });
   };
 
+  const [ladderChallengeRange, setLadderChallengeRange] = useState(
+    () => getVenueSettings().ladderChallengeRange
+  );
+
+  const handleUpdateChallengeRange = (value: number) => {
+    const clamped = Math.max(1, Math.min(10, value));
+    setLadderChallengeRange(clamped);
+    updateVenueSettings({ ladderChallengeRange: clamped });
+  };
+
+  const [rallyScoring, setRallyScoring] = useState(() => getVenueSettings().rallyScoring);
+
+  const handleUpdateRallyScoring = (enabled: boolean) => {
+    setRallyScoring(enabled);
+    updateVenueSettings({ rallyScoring: enabled });
+  };
+
+  const [queuePriority, setQueuePriority] = useState(() => getVenueSettings().queuePriority);
+
+  const handleUpdateQueuePriority = (changes: Partial<QueuePriorityPolicy>) => {
+    const updated = { ...queuePriority, ...changes };
+    for (const key of Object.keys(updated) as (keyof QueuePriorityPolicy)[]) {
+      updated[key] = Math.max(0, updated[key]);
+    }
+    setQueuePriority(updated);
+    updateVenueSettings({ queuePriority: updated });
+  };
+
   // Auto-generate slug from name
   useEffect(() => {
     if (!existingVenue && mode === 'create') {
@@ -275,6 +304,70 @@ export function VenueSetupScreen() {
               </div>
             </div>
 
+            <div className="bg-white rounded-2xl p-6 shadow-sm">
+              <h3 className="font-semibold text-gray-700 mb-4">Challenge Ladder</h3>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Challenge range
+                </label>
+                <p className="text-xs text-gray-500 mb-3">
+                  How many rungs above themselves a player may challenge.
+                </p>
+                <div className="flex items-center gap-4">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => handleUpdateChallengeRange(ladderChallengeRange - 1)}
+                    disabled={ladderChallengeRange <= 1}
+                    className="w-12 h-12 text-xl"
+                  >
+                    −
+                  </Button>
+                  <span className="text-3xl font-bold text-gray-900 w-16 text-center">
+                    {ladderChallengeRange}
+                  </span>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => handleUpdateChallengeRange(ladderChallengeRange + 1)}
+                    disabled={ladderChallengeRange >= 10}
+                    className="w-12 h-12 text-xl"
+                  >
+                    +
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-2xl p-6 shadow-sm">
+              <h3 className="font-semibold text-gray-700 mb-4">Scorekeeping</h3>
+
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={rallyScoring}
+                  onChange={(e) => handleUpdateRallyScoring(e.target.checked)}
+                  className="w-4 h-4 mt-0.5 accent-green-600"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-700">Rally scoring</span>
+                  <span className="block text-xs text-gray-500">
+                    The courtside scorekeeper gives a point for every rally. Off means traditional
+                    side-out scoring, where only the serving team scores.
+                  </span>
+                </span>
+              </label>
+            </div>
+
+            <div className="bg-white rounded-2xl p-6 shadow-sm">
+              <h3 className="font-semibold text-gray-700 mb-1">Queue Priority</h3>
+              <p className="text-xs text-gray-500 mb-4">
+                Default for new sessions at this venue. Each session can adjust it on the setup screen.
+              </p>
+              <QueuePriorityEditor policy={queuePriority} onChange={handleUpdateQueuePriority} />
+            </div>
+
             <Button
               variant="secondary"
               size="lg"
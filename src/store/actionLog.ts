@@ -0,0 +1,143 @@
+import type { Session } from '../types';
+import type { SessionAction, SessionState } from './useSession';
+
+// Every action dispatched during a session, with the time it happened, on top
+// of the state the log started from (the oldest are folded into that state
+// once the log gets long). Replaying the entries through
+// sessionReducer rebuilds the session exactly, so staff can trace how a
+// result or a pairing came about and recover from a corrupted snapshot.
+
+const ACTION_LOG_KEY = 'dinksync_action_log';
+
+export interface ActionLogEntry {
+  at: number;
+  action: SessionAction;
+  undone?: boolean; // Taken back by staff; skipped on replay but kept for the record
+  ids?: string[]; // Ids the action handed out, handed out again on replay
+}
+
+export interface ActionLog {
+  base: SessionState;
+  entries: ActionLogEntry[];
+}
+
+// Actions that replace the whole session start a new log from their result
+const LOG_RESETS: SessionAction['type'][] = ['NEW_SESSION', 'LOAD_SESSION'];
+
+export function createActionLog(base: SessionState): ActionLog {
+  return { base, entries: [] };
+}
+
+export function appendToLog(log: ActionLog, entry: ActionLogEntry, result: SessionState): ActionLog {
+  if (LOG_RESETS.includes(entry.action.type)) return createActionLog(result);
+  return { ...log, entries: [...log.entries, entry] };
+}
+
+// Staff actions that can be undone and redone. Undoing one replays the log
+// without it, so every later action sees the session as if it never happened.
+const UNDOABLE_ACTIONS: SessionAction['type'][] = [
+  'CHECK_IN_PLAYER',
+  'CHECK_OUT_PLAYER',
+  'REMOVE_FROM_COURT',
+  'PULL_FROM_COURT',
+  'LOCK_PARTNERS',
+  'UNLOCK_PARTNER',
+  'FILL_COURT',
+  'FILL_COURTS',
+  'RECORD_WINNER',
+  'RECORD_GAME',
+  'END_MATCH',
+];
+
+export function isUndoable(entry: ActionLogEntry): boolean {
+  return UNDOABLE_ACTIONS.includes(entry.action.type);
+}
+
+// Staff actions still in effect, oldest first; undo takes back the last one
+export function getUndoStack(log: ActionLog): ActionLogEntry[] {
+  return log.entries.filter(e => isUndoable(e) && !e.undone);
+}
+
+// Actions undone since the last new staff action, with the next to redo last.
+// Doing something new clears it, as in any editor.
+export function getRedoStack(log: ActionLog): ActionLogEntry[] {
+  const stack: ActionLogEntry[] = [];
+  for (const entry of [...log.entries].reverse()) {
+    if (!isUndoable(entry)) continue;
+    if (!entry.undone) break;
+    stack.push(entry);
+  }
+  return stack;
+}
+
+function setUndone(log: ActionLog, entry: ActionLogEntry | undefined, undone: boolean): ActionLog {
+  if (!entry) return log;
+  return { ...log, entries: log.entries.map(e => e === entry ? { ...e, undone } : e) };
+}
+
+export function undoLast(log: ActionLog): ActionLog {
+  return setUndone(log, getUndoStack(log).at(-1), true);
+}
+
+export function redoLast(log: ActionLog): ActionLog {
+  return setUndone(log, getRedoStack(log).at(-1), false);
+}
+
+// One line for the history drawer, e.g. "Court 2: Alice & Bob won"
+export function describeAction(action: SessionAction, session: Session): string {
+  const nameOf = (id: string) => session.players.find(p => p.id === id)?.name ?? 'A player';
+  const matchOf = (id: string) => [...session.matches, ...session.activeMatches].find(m => m.id === id);
+  const teamNames = (ids: string[]) => ids.map(nameOf).join(' & ');
+
+  switch (action.type) {
+    case 'CHECK_IN_PLAYER':
+      return `Checked in ${nameOf(action.playerId)}`;
+    case 'CHECK_OUT_PLAYER':
+      return `Checked out ${nameOf(action.playerId)}`;
+    case 'REMOVE_FROM_COURT':
+      return `Removed ${nameOf(action.playerId)} from court`;
+    case 'PULL_FROM_COURT':
+      return `Pulled ${nameOf(action.playerId)} off court`;
+    case 'LOCK_PARTNERS':
+      return `Locked ${nameOf(action.player1Id)} & ${nameOf(action.player2Id)} as partners`;
+    case 'UNLOCK_PARTNER':
+      return `Unlocked ${nameOf(action.playerId)}'s partner`;
+    case 'FILL_COURT':
+      return `Started court ${action.court}`;
+    case 'FILL_COURTS':
+      return 'Filled open courts';
+    case 'RECORD_WINNER':
+    case 'RECORD_GAME': {
+      const match = matchOf(action.matchId);
+      if (!match) return action.type === 'RECORD_WINNER' ? 'Recorded a result' : 'Recorded a game';
+      const winners = teamNames(action.winner === 1 ? match.team1 : match.team2);
+      const score = action.score ? ` ${action.score.team1}–${action.score.team2}` : '';
+      const how = action.type === 'RECORD_GAME' ? 'won a game'
+        : action.outcome === 'forfeit' ? 'won by forfeit'
+        : action.outcome === 'injury' ? 'won by retirement'
+        : 'won';
+      return `Court ${match.court}: ${winners} ${how}${score}`;
+    }
+    case 'END_MATCH': {
+      const court = matchOf(action.matchId)?.court;
+      const what = action.outcome === 'draw' ? 'drawn' : 'cancelled';
+      return court ? `Court ${court}: match ${what}` : `Match ${what}`;
+    }
+    default:
+      return action.type;
+  }
+}
+
+export function saveActionLog(log: ActionLog): void {
+  localStorage.setItem(ACTION_LOG_KEY, JSON.stringify(log));
+}
+
+export function loadActionLog(): ActionLog | null {
+  const data = localStorage.getItem(ACTION_LOG_KEY);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as ActionLog;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,69 @@
+import type { Session } from '../types';
+import { migrateSession } from '../utils/storage';
+import type { LoggedSessionState } from './useSession';
+
+// Sessions running alongside the one on screen, e.g. one per gym on a shared
+// front-desk tablet. Each is parked whole, with its sync state and the end
+// of its action log, so switching back picks up where it left off.
+
+const PARKED_SESSIONS_KEY = 'dinksync_parked_sessions';
+
+export function getParkedSessions(): LoggedSessionState[] {
+  const data = localStorage.getItem(PARKED_SESSIONS_KEY);
+  if (!data) return [];
+  try {
+    const parked = JSON.parse(data) as LoggedSessionState[];
+    return parked.map(p => ({ ...p, state: { ...p.state, session: migrateSession(p.state.session) } }));
+  } catch {
+    return [];
+  }
+}
+
+function saveParkedSessions(parked: LoggedSessionState[]): void {
+  localStorage.setItem(PARKED_SESSIONS_KEY, JSON.stringify(parked));
+}
+
+export function parkSession(logged: LoggedSessionState): void {
+  const others = getParkedSessions().filter(p => p.state.session.id !== logged.state.session.id);
+  saveParkedSessions([...others, logged]);
+}
+
+// For results that arrive after staff have switched away, like a finished sync
+export function updateParkedSession(sessionId: string, update: (logged: LoggedSessionState) => LoggedSessionState): void {
+  saveParkedSessions(getParkedSessions().map(p => p.state.session.id === sessionId ? update(p) : p));
+}
+
+// Take a session out of the parked list to put it back on screen
+export function unparkSession(sessionId: string): LoggedSessionState | null {
+  const parked = getParkedSessions();
+  const found = parked.find(p => p.state.session.id === sessionId);
+  if (!found) return null;
+  saveParkedSessions(parked.filter(p => p !== found));
+  return found;
+}
+
+// A session still being played (not yet ended), whose players are in use
+export function isLiveSession(session: Session): boolean {
+  return session.endTime === null;
+}
+
+// Players checked in or on court in the parked live sessions, by lowercase
+// name, with the location they're at. A player can only be in one session
+// at a time.
+export function getPlayersCheckedInElsewhere(
+  sessions: Session[] = getParkedSessions().map(p => p.state.session)
+): Record<string, string> {
+  const elsewhere: Record<string, string> = {};
+  for (const session of sessions.filter(isLiveSession)) {
+    for (const player of session.players) {
+      if (player.status === 'checked-in' || player.status === 'playing') {
+        elsewhere[player.name.trim().toLowerCase()] = session.location || 'another session';
+      }
+    }
+  }
+  return elsewhere;
+}
+
+export function isCheckedInElsewhere(name: string, playersElsewhere: Record<string, string>): boolean {
+  return name.trim().toLowerCase() in playersElsewhere;
+}
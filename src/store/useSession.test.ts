@@ -1,16 +1,40 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import type { Player, Session, Match } from '../types';
-import { sessionReducer, type SessionState, type SessionAction } from './useSession';
+import type { Player, Session } from '../types';
+import {
+  sessionReducer,
+  loggedSessionReducer,
+  createInitialSession,
+  replayActionLog,
+  foldActionLog,
+  runLogEntry,
+  saveSessionChanges,
+  getOutcomeAction,
+  type LoggedAction,
+  type LoggedSessionState,
+  type SessionState,
+  type SessionAction,
+} from './useSession';
+import { appendToLog, createActionLog, getRedoStack, getUndoStack } from './actionLog';
+import { runAt } from '../utils/clock';
+import { updatePlayerStats, revertPlayerStats, getOrCreateSavedPlayer, saveLadder, saveAvoidPair, deleteAvoidPair, saveLocation } from '../utils/storage';
+import { createPlayer, createMatch } from '../test/factories';
 
 // Mock the storage module to avoid localStorage issues in tests
 vi.mock('../utils/storage', () => ({
   saveSession: vi.fn(),
   loadSession: vi.fn(() => null),
   clearSession: vi.fn(),
-  generateId: () => Math.random().toString(36).slice(2),
+  generateId: (rng: () => number = Math.random) => rng().toString(36).slice(2),
   saveLocation: vi.fn(),
   updatePlayerStats: vi.fn(),
+  revertPlayerStats: vi.fn(),
   getSavedLocations: vi.fn(() => []),
+  getOrCreateSavedPlayer: vi.fn(() => null),
+  getAvoidList: vi.fn(() => []),
+  saveAvoidPair: vi.fn(),
+  deleteAvoidPair: vi.fn(),
+  getLadder: vi.fn(() => []),
+  saveLadder: vi.fn(),
 }));
 
 // Mock the supabase module
@@ -18,26 +42,17 @@ vi.mock('../utils/supabase', () => ({
   createSessionAndSync: vi.fn(),
   processSyncQueue: vi.fn(),
   getLocalVenue: vi.fn(() => null),
+  saveBracketToCloud: vi.fn(),
+  getVenueSettings: vi.fn(() => ({
+    minGamesForRanking: 10,
+    queuePriority: { waitTime: 0, gamesPlayed: 0, arrival: 0, membership: 0 },
+    ladderChallengeRange: 3,
+    rallyScoring: false,
+  })),
 }));
 
-// Helper to create test players
-function createPlayer(overrides: Partial<Player> = {}): Player {
-  return {
-    id: Math.random().toString(36).slice(2),
-    name: 'Test Player',
-    skill: null,
-    status: 'checked-in',
-    gamesPlayed: 0,
-    wins: 0,
-    losses: 0,
-    lastPartner: null,
-    lockedPartnerId: null,
-    courtsPlayed: [],
-    checkedInAt: Date.now(),
-    lastMatchId: null,
-    ...overrides,
-  };
-}
+// Saved details for a player the device hasn't seen before
+const NEW_PLAYER = { rating: null, category: null, isMember: false };
 
 // Helper to create a test session
 function createSession(overrides: Partial<Session> = {}): Session {
@@ -45,12 +60,38 @@ function createSession(overrides: Partial<Session> = {}): Session {
     id: 'test-session-id',
     location: 'Test Location',
     courts: 2,
+    courtTiers: {},
     gameMode: 'doubles',
+    rotationMode: 'standard',
+    winStreakCap: 2,
+    pointsPerMatch: 21,
+    gameTo: 11,
+    bestOf: 1,
+    timeCapMinutes: null,
+    timeCapPolicy: 'leader-wins',
+    schedule: null,
+    river: null,
+    doubleElimination: false,
+    bracket: null,
+    mixedDoubles: false,
+    mixedFallbackMinutes: 10,
+    queuePriority: { waitTime: 0, gamesPlayed: 0, arrival: 0, membership: 0 },
     players: [],
     matches: [],
     activeMatches: [],
+    history: { partners: {}, opponents: {} },
+    avoidList: [],
+    ladder: [],
+    challenges: [],
+    challengeCourt: null,
+    seed: 42,
+    rngState: 42,
+    breakEveryMinutes: null,
+    breakLengthMinutes: 10,
+    pauses: [],
     startTime: null,
     endTime: null,
+    previousSync: null,
     ...overrides,
   };
 }
@@ -60,24 +101,15 @@ function createState(overrides: Partial<SessionState> = {}): SessionState {
   return {
     session: createSession(),
     screen: 'setup',
-    undoAction: null,
     syncedSessionId: null,
     ...overrides,
   };
 }
 
-// Helper to create a match
-function createMatch(overrides: Partial<Match> = {}): Match {
-  return {
-    id: Math.random().toString(36).slice(2),
-    court: 1,
-    team1: [],
-    team2: [],
-    winner: null,
-    startTime: Date.now(),
-    endTime: null,
-    ...overrides,
-  };
+// Helper to record an action through the action log and undo it, as staff would
+function recordThenUndo(state: SessionState, action: SessionAction): SessionState {
+  const recorded = loggedSessionReducer({ state, log: createActionLog(state) }, action);
+  return loggedSessionReducer(recorded, { type: 'UNDO' }).state;
 }
 
 describe('sessionReducer', () => {
@@ -211,36 +243,6 @@ describe('sessionReducer', () => {
       expect(newState.session.matches[0].winner).toBe(2);
     });
 
-    it('creates undo action with match data', () => {
-      const players = [
-        createPlayer({ id: 'p1', status: 'playing' }),
-        createPlayer({ id: 'p2', status: 'playing' }),
-        createPlayer({ id: 'p3', status: 'playing' }),
-        createPlayer({ id: 'p4', status: 'playing' }),
-      ];
-
-      const match = createMatch({
-        id: 'match1',
-        team1: ['p1', 'p2'],
-        team2: ['p3', 'p4'],
-      });
-
-      const state = createState({
-        session: createSession({
-          players,
-          activeMatches: [match],
-          startTime: Date.now(),
-        }),
-      });
-
-      const action: SessionAction = { type: 'RECORD_WINNER', matchId: 'match1', winner: 1 };
-      const newState = sessionReducer(state, action);
-
-      expect(newState.undoAction).not.toBeNull();
-      expect(newState.undoAction?.type).toBe('winner');
-      expect((newState.undoAction?.data as { matchId: string }).matchId).toBe('match1');
-    });
-
     it('handles team 2 winning correctly', () => {
       const players = [
         createPlayer({ id: 'p1', name: 'Team1A', gamesPlayed: 0, wins: 0, losses: 0 }),
@@ -275,6 +277,697 @@ describe('sessionReducer', () => {
     });
   });
 
+  describe('Winners-stay rotation', () => {
+    function createWinnersStayState(cap = 2, streaks: Partial<Record<string, number>> = {}) {
+      const players = [
+        createPlayer({ id: 'p1', status: 'playing', checkedInAt: 1, winStreak: streaks.p1 ?? 0 }),
+        createPlayer({ id: 'p2', status: 'playing', checkedInAt: 2, winStreak: streaks.p2 ?? 0 }),
+        createPlayer({ id: 'p3', status: 'playing', checkedInAt: 3 }),
+        createPlayer({ id: 'p4', status: 'playing', checkedInAt: 4 }),
+        createPlayer({ id: 'q1', status: 'checked-in', checkedInAt: 5 }),
+        createPlayer({ id: 'q2', status: 'checked-in', checkedInAt: 6 }),
+        createPlayer({ id: 'q3', status: 'checked-in', checkedInAt: 7 }),
+      ];
+      const match = createMatch({ id: 'match1', court: 3, team1: ['p1', 'p2'], team2: ['p3', 'p4'] });
+      return createState({
+        session: createSession({
+          players,
+          activeMatches: [match],
+          startTime: Date.now(),
+          rotationMode: 'winners-stay',
+          winStreakCap: cap,
+        }),
+      });
+    }
+
+    it('keeps winners on court with challengers from the front of the queue', () => {
+      const newState = sessionReducer(createWinnersStayState(), {
+        type: 'RECORD_WINNER',
+        matchId: 'match1',
+        winner: 1,
+      });
+
+      const nextMatch = newState.session.activeMatches.find(m => m.court === 3)!;
+      expect(nextMatch).toBeDefined();
+      expect(nextMatch.team1).toEqual(['p1', 'p2']);
+      expect(nextMatch.team2).toEqual(['q1', 'q2']);
+
+      const byId = (id: string) => newState.session.players.find(p => p.id === id)!;
+      expect(byId('p1').status).toBe('playing');
+      expect(byId('p1').winStreak).toBe(1);
+      expect(byId('p3').status).toBe('checked-in');
+      expect(byId('p3').winStreak).toBe(0);
+      expect(byId('q3').status).toBe('checked-in');
+    });
+
+    it('rotates winners off once they reach the streak cap', () => {
+      const newState = sessionReducer(createWinnersStayState(2, { p1: 1, p2: 1 }), {
+        type: 'RECORD_WINNER',
+        matchId: 'match1',
+        winner: 1,
+      });
+
+      expect(newState.session.activeMatches).toHaveLength(0);
+      const winner = newState.session.players.find(p => p.id === 'p1')!;
+      expect(winner.status).toBe('checked-in');
+      expect(winner.winStreak).toBe(0);
+    });
+
+    it('undo restores the original match and streaks', () => {
+      const state = createWinnersStayState();
+      const undone = recordThenUndo(state, { type: 'RECORD_WINNER', matchId: 'match1', winner: 1 });
+
+      expect(undone.session.activeMatches).toHaveLength(1);
+      expect(undone.session.activeMatches[0].id).toBe('match1');
+      const byId = (id: string) => undone.session.players.find(p => p.id === id)!;
+      expect(byId('p1').winStreak).toBe(0);
+      expect(byId('p1').status).toBe('playing');
+      expect(byId('q1').status).toBe('checked-in');
+    });
+
+    it('tracks win streaks in standard rotation without keeping the court', () => {
+      const state = createWinnersStayState();
+      state.session.rotationMode = 'standard';
+      const newState = sessionReducer(state, { type: 'RECORD_WINNER', matchId: 'match1', winner: 2 });
+
+      expect(newState.session.activeMatches).toHaveLength(0);
+      expect(newState.session.players.find(p => p.id === 'p3')!.winStreak).toBe(1);
+    });
+  });
+
+  describe('Round-robin schedule', () => {
+    function startRoundRobin(playerCount = 8, courts = 2, overrides: Partial<Session> = {}) {
+      const players = Array.from({ length: playerCount }, (_, i) =>
+        createPlayer({ id: `p${i + 1}`, checkedInAt: i }));
+      const state = createState({
+        session: createSession({ players, courts, rotationMode: 'round-robin', ...overrides }),
+      });
+      return sessionReducer(state, { type: 'START_SESSION' });
+    }
+
+    it('START_SESSION generates a schedule and deals the first round', () => {
+      const state = startRoundRobin();
+      const schedule = state.session.schedule!;
+
+      expect(schedule.rounds).toHaveLength(7);
+      expect(schedule.currentRound).toBe(0);
+      expect(state.session.activeMatches).toHaveLength(2);
+      for (const scheduled of schedule.rounds[0].matches) {
+        const match = state.session.activeMatches.find(m => m.id === scheduled.matchId)!;
+        expect(match.court).toBe(scheduled.court);
+        expect(match.team1).toEqual(scheduled.team1);
+        expect(match.team2).toEqual(scheduled.team2);
+      }
+    });
+
+    it('keeps scheduled games off the challenge court', () => {
+      const state = startRoundRobin(12, 3, { challengeCourt: 2 });
+
+      expect(state.session.schedule!.rounds.every(r => r.matches.every(m => m.court !== 2))).toBe(true);
+      expect(state.session.activeMatches.map(m => m.court).sort()).toEqual([1, 3]);
+    });
+
+    it('moves a game off a court that has since become the challenge court or a tier it does not fit', () => {
+      let state = startRoundRobin(8, 4);
+      state = sessionReducer(state, { type: 'SET_CHALLENGE_COURT', court: 2 });
+      state = sessionReducer(state, { type: 'SET_COURT_TIER', court: 1, tier: 'advanced' });
+      for (const match of [...state.session.activeMatches]) {
+        state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: match.id, winner: 1 });
+      }
+
+      expect(state.session.schedule!.currentRound).toBe(1);
+      expect(state.session.activeMatches.map(m => m.court).sort()).toEqual([3, 4]);
+      expect(state.session.schedule!.rounds[1].matches.map(m => m.court).sort()).toEqual([3, 4]);
+    });
+
+    it('does not schedule standard sessions', () => {
+      const state = sessionReducer(createState({
+        session: createSession({ players: [createPlayer(), createPlayer(), createPlayer(), createPlayer()] }),
+      }), { type: 'START_SESSION' });
+      expect(state.session.schedule).toBeNull();
+    });
+
+    it('RECORD_WINNER moves to the next round once every court finishes', () => {
+      let state = startRoundRobin();
+      const [first, second] = state.session.activeMatches;
+
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: first.id, winner: 1 });
+      expect(state.session.schedule!.currentRound).toBe(0);
+      expect(state.session.activeMatches).toHaveLength(1);
+
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: second.id, winner: 2 });
+      expect(state.session.schedule!.currentRound).toBe(1);
+      expect(state.session.activeMatches).toHaveLength(2);
+      expect(state.session.activeMatches.map(m => m.id))
+        .toEqual(state.session.schedule!.rounds[1].matches.map(m => m.matchId));
+    });
+
+    it('skips games whose players have left', () => {
+      let state = startRoundRobin(8, 1);
+      const [first] = state.session.activeMatches;
+      const nextGame = state.session.schedule!.rounds[1].matches[0];
+
+      state = sessionReducer(state, { type: 'CHECK_OUT_PLAYER', playerId: nextGame.team1[0] });
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: first.id, winner: 1 });
+
+      expect(state.session.schedule!.currentRound).toBeGreaterThan(1);
+    });
+
+    it('undo takes back the round dealt after the last court finished', () => {
+      let state = startRoundRobin();
+      const [first, second] = state.session.activeMatches;
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: first.id, winner: 1 });
+      const beforeLast = state;
+
+      state = recordThenUndo(state, { type: 'RECORD_WINNER', matchId: second.id, winner: 1 });
+
+      expect(state.session.schedule).toEqual(beforeLast.session.schedule);
+      expect(state.session.activeMatches.map(m => m.id)).toEqual([second.id]);
+      const playing = state.session.players.filter(p => p.status === 'playing').map(p => p.id).sort();
+      expect(playing).toEqual([...second.team1, ...second.team2].sort());
+    });
+  });
+
+  describe('Up-and-down-the-river', () => {
+    function startRiver() {
+      const players = Array.from({ length: 8 }, (_, i) =>
+        createPlayer({ id: `p${i + 1}`, checkedInAt: i }));
+      const state = createState({
+        session: createSession({ players, courts: 2, rotationMode: 'river' }),
+      });
+      return sessionReducer(state, { type: 'START_SESSION' });
+    }
+
+    it('waits for every court before starting the next round', () => {
+      let state = startRiver();
+      expect(state.session.river!.round).toBe(1);
+      const [first, second] = [...state.session.activeMatches].sort((a, b) => a.court - b.court);
+
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: second.id, winner: 1 });
+      expect(state.session.activeMatches).toHaveLength(1);
+      expect(state.session.river!.finishedMatchIds).toEqual([second.id]);
+
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: first.id, winner: 2 });
+      expect(state.session.river!.round).toBe(2);
+      expect(state.session.river!.finishedMatchIds).toEqual([]);
+
+      const court1 = state.session.activeMatches.find(m => m.court === 1)!;
+      const court2 = state.session.activeMatches.find(m => m.court === 2)!;
+      expect([...court1.team1, ...court1.team2].sort()).toEqual([...first.team2, ...second.team1].sort());
+      expect([...court2.team1, ...court2.team2].sort()).toEqual([...first.team1, ...second.team2].sort());
+      expect(state.session.river!.moves[second.team1[0]]).toBe('up');
+      expect(state.session.river!.moves[first.team1[0]]).toBe('down');
+    });
+
+    it('undo takes back the round started by the last court', () => {
+      let state = startRiver();
+      const [first, second] = state.session.activeMatches;
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: first.id, winner: 1 });
+      const beforeLast = state;
+
+      state = recordThenUndo(state, { type: 'RECORD_WINNER', matchId: second.id, winner: 1 });
+
+      expect(state.session.river).toEqual(beforeLast.session.river);
+      expect(state.session.activeMatches.map(m => m.id)).toEqual([second.id]);
+    });
+  });
+
+  describe('Americano and Mexicano', () => {
+    function startPointsSession(rotationMode: 'americano' | 'mexicano', playerCount = 8) {
+      const players = Array.from({ length: playerCount }, (_, i) =>
+        createPlayer({ id: `p${i + 1}`, checkedInAt: i }));
+      const state = createState({
+        session: createSession({ players, courts: 2, rotationMode }),
+      });
+      return sessionReducer(state, { type: 'START_SESSION' });
+    }
+
+    it('RECORD_WINNER with a score gives each player their team\'s points', () => {
+      const state = startPointsSession('americano');
+      const match = state.session.activeMatches[0];
+      const newState = sessionReducer(state, {
+        type: 'RECORD_WINNER',
+        matchId: match.id,
+        winner: 2,
+        score: { team1: 9, team2: 12 },
+      });
+
+      const byId = (id: string) => newState.session.players.find(p => p.id === id)!;
+      expect(byId(match.team1[0]).points).toBe(9);
+      expect(byId(match.team2[0]).points).toBe(12);
+      expect(newState.session.matches[0].score).toEqual({ team1: 9, team2: 12 });
+    });
+
+    it('undo takes the points back', () => {
+      const state = startPointsSession('americano');
+      const match = state.session.activeMatches[0];
+      const undone = recordThenUndo(state, {
+        type: 'RECORD_WINNER',
+        matchId: match.id,
+        winner: 1,
+        score: { team1: 15, team2: 6 },
+      });
+
+      expect(undone.session.players.every(p => p.points === 0)).toBe(true);
+      expect(undone.session.activeMatches.find(m => m.id === match.id)!.score).toBeNull();
+    });
+
+    it('a tied score is a draw that gives each side its points', () => {
+      const state = startPointsSession('americano');
+      const match = state.session.activeMatches[0];
+      const newState = sessionReducer(state, {
+        type: 'END_MATCH',
+        matchId: match.id,
+        outcome: 'draw',
+        score: { team1: 12, team2: 12 },
+      });
+
+      const byId = (id: string) => newState.session.players.find(p => p.id === id)!;
+      for (const id of [match.team1[0], match.team2[0]]) {
+        expect(byId(id)).toMatchObject({ points: 12, pointsAgainst: 12, gamesPlayed: 1, wins: 0, losses: 0 });
+      }
+      expect(newState.session.matches[0]).toMatchObject({ outcome: 'draw', winner: null, score: { team1: 12, team2: 12 } });
+    });
+
+    it('a draw needs a level score in a points format', () => {
+      const state = startPointsSession('americano');
+      const matchId = state.session.activeMatches[0].id;
+      expect(sessionReducer(state, { type: 'END_MATCH', matchId, outcome: 'draw' })).toBe(state);
+    });
+
+    it('Americano plays a full round-robin schedule', () => {
+      const state = startPointsSession('americano');
+      expect(state.session.schedule!.rounds).toHaveLength(7);
+      expect(state.session.activeMatches).toHaveLength(2);
+    });
+
+    it('Mexicano pairs the next round from the standings', () => {
+      let state = startPointsSession('mexicano');
+      expect(state.session.schedule!.rounds).toHaveLength(1);
+
+      const [first, second] = [...state.session.activeMatches].sort((a, b) => a.court - b.court);
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: first.id, winner: 1, score: { team1: 20, team2: 1 } });
+      expect(state.session.schedule!.rounds).toHaveLength(1);
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: second.id, winner: 1, score: { team1: 11, team2: 10 } });
+
+      const schedule = state.session.schedule!;
+      expect(schedule.rounds).toHaveLength(2);
+      expect(schedule.currentRound).toBe(1);
+      // 20, 20, 11, 11 points on court 1; 10, 10, 1, 1 on court 2
+      const court1 = state.session.activeMatches.find(m => m.court === 1)!;
+      expect([...court1.team1, ...court1.team2].sort()).toEqual([...first.team1, ...second.team1].sort());
+    });
+
+    it('RECORD_WINNER with a final score tracks points against for the differential', () => {
+      const players = Array.from({ length: 4 }, (_, i) => createPlayer({ id: `p${i + 1}`, checkedInAt: i }));
+      const state = sessionReducer(createState({ session: createSession({ players }) }), { type: 'START_SESSION' });
+      const match = state.session.activeMatches[0];
+      const recorded = sessionReducer(state, {
+        type: 'RECORD_WINNER',
+        matchId: match.id,
+        winner: 1,
+        score: { team1: 11, team2: 7 },
+      });
+
+      const byId = (id: string) => recorded.session.players.find(p => p.id === id)!;
+      expect(byId(match.team1[0])).toMatchObject({ points: 11, pointsAgainst: 7, wins: 1 });
+      expect(byId(match.team2[0])).toMatchObject({ points: 7, pointsAgainst: 11, losses: 1 });
+
+      const undone = recordThenUndo(state, {
+        type: 'RECORD_WINNER',
+        matchId: match.id,
+        winner: 1,
+        score: { team1: 11, team2: 7 },
+      });
+      expect(undone.session.players.every(p => p.points === 0 && p.pointsAgainst === 0)).toBe(true);
+    });
+
+    it('SET_GAME_TO keeps the target within range', () => {
+      const state = createState();
+      expect(sessionReducer(state, { type: 'SET_GAME_TO', gameTo: 2 }).session.gameTo).toBe(5);
+      expect(sessionReducer(state, { type: 'SET_GAME_TO', gameTo: 15 }).session.gameTo).toBe(15);
+      expect(sessionReducer(state, { type: 'SET_GAME_TO', gameTo: 40 }).session.gameTo).toBe(25);
+    });
+
+    it('RECORD_RALLY and UNDO_RALLY keep the live rally list, which stays with the finished match', () => {
+      const players = Array.from({ length: 4 }, (_, i) => createPlayer({ id: `p${i + 1}`, checkedInAt: i }));
+      let state = sessionReducer(createState({ session: createSession({ players }) }), { type: 'START_SESSION' });
+      const matchId = state.session.activeMatches[0].id;
+
+      state = sessionReducer(state, { type: 'RECORD_RALLY', matchId, winner: 1 });
+      state = sessionReducer(state, { type: 'RECORD_RALLY', matchId, winner: 2 });
+      state = sessionReducer(state, { type: 'UNDO_RALLY', matchId });
+      state = sessionReducer(state, { type: 'RECORD_RALLY', matchId, winner: 1 });
+      expect(state.session.activeMatches[0].rallies).toEqual([1, 1]);
+
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId, winner: 1, score: { team1: 11, team2: 0 } });
+      expect(state.session.matches[0].rallies).toEqual([1, 1]);
+    });
+
+    it('RECORD_GAME keeps a best-of-3 match on court until one side wins two', () => {
+      const players = Array.from({ length: 4 }, (_, i) => createPlayer({ id: `p${i + 1}`, checkedInAt: i }));
+      let state = sessionReducer(createState({ session: createSession({ players, bestOf: 3 }) }), { type: 'START_SESSION' });
+      const match = state.session.activeMatches[0];
+
+      state = sessionReducer(state, { type: 'RECORD_GAME', matchId: match.id, winner: 1, score: { team1: 11, team2: 5 } });
+      state = sessionReducer(state, { type: 'RECORD_GAME', matchId: match.id, winner: 2, score: { team1: 9, team2: 11 } });
+      expect(state.session.matches).toHaveLength(0);
+      expect(state.session.activeMatches[0].games).toHaveLength(2);
+
+      state = sessionReducer(state, { type: 'RECORD_GAME', matchId: match.id, winner: 1 });
+      const completed = state.session.matches[0];
+      expect(completed.winner).toBe(1);
+      expect(completed.games.map(g => g.winner)).toEqual([1, 2, 1]);
+
+      const byId = (id: string) => state.session.players.find(p => p.id === id)!;
+      expect(byId(match.team1[0])).toMatchObject({ wins: 1, gamesWon: 2, gamesLost: 1, points: 20, pointsAgainst: 16 });
+      expect(byId(match.team2[0])).toMatchObject({ losses: 1, gamesWon: 1, gamesLost: 2 });
+    });
+
+    it('undo on a series goes back to before the deciding game', () => {
+      const players = Array.from({ length: 4 }, (_, i) => createPlayer({ id: `p${i + 1}`, checkedInAt: i }));
+      let state = sessionReducer(createState({ session: createSession({ players, bestOf: 3 }) }), { type: 'START_SESSION' });
+      const matchId = state.session.activeMatches[0].id;
+      state = sessionReducer(state, { type: 'RECORD_GAME', matchId, winner: 2 });
+      state = recordThenUndo(state, { type: 'RECORD_GAME', matchId, winner: 2 });
+
+      const restored = state.session.activeMatches.find(m => m.id === matchId)!;
+      expect(restored.games.map(g => g.winner)).toEqual([2]);
+      expect(state.session.players.every(p => p.gamesWon === 0 && p.gamesLost === 0 && p.wins === 0)).toBe(true);
+
+      state = sessionReducer(state, { type: 'UNDO_GAME', matchId });
+      expect(state.session.activeMatches.find(m => m.id === matchId)!.games).toEqual([]);
+    });
+
+    it('SET_BEST_OF keeps series odd and within range', () => {
+      const state = createState();
+      expect(sessionReducer(state, { type: 'SET_BEST_OF', bestOf: 4 }).session.bestOf).toBe(5);
+      expect(sessionReducer(state, { type: 'SET_BEST_OF', bestOf: -1 }).session.bestOf).toBe(1);
+      expect(sessionReducer(state, { type: 'SET_BEST_OF', bestOf: 9 }).session.bestOf).toBe(7);
+    });
+
+    it('RECORD_WINNER flags a match that ran past the time cap', () => {
+      const players = Array.from({ length: 8 }, (_, i) => createPlayer({ id: `p${i + 1}`, checkedInAt: i }));
+      let state = sessionReducer(createState({ session: createSession({ players, courts: 2, timeCapMinutes: 15 }) }), { type: 'START_SESSION' });
+      const [late, onTime] = state.session.activeMatches;
+      state = {
+        ...state,
+        session: {
+          ...state.session,
+          activeMatches: state.session.activeMatches.map(m =>
+            m.id === late.id ? { ...m, startTime: Date.now() - 16 * 60 * 1000 } : m),
+        },
+      };
+
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: late.id, winner: 1 });
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: onTime.id, winner: 2 });
+      expect(state.session.matches.map(m => m.timeCapped)).toEqual([true, false]);
+    });
+
+    it('SET_TIME_CAP keeps the cap within range and allows none', () => {
+      const state = createState();
+      expect(sessionReducer(state, { type: 'SET_TIME_CAP', minutes: 2 }).session.timeCapMinutes).toBe(5);
+      expect(sessionReducer(state, { type: 'SET_TIME_CAP', minutes: 20 }).session.timeCapMinutes).toBe(20);
+      expect(sessionReducer(state, { type: 'SET_TIME_CAP', minutes: null }).session.timeCapMinutes).toBeNull();
+    });
+
+    it('SET_POINTS_PER_MATCH keeps the total within range', () => {
+      const state = createState();
+      expect(sessionReducer(state, { type: 'SET_POINTS_PER_MATCH', points: 2 }).session.pointsPerMatch).toBe(5);
+      expect(sessionReducer(state, { type: 'SET_POINTS_PER_MATCH', points: 32 }).session.pointsPerMatch).toBe(32);
+    });
+  });
+
+  describe('Tournament brackets', () => {
+    function startTournament(playerCount: number, doubleElimination = false) {
+      const players = Array.from({ length: playerCount }, (_, i) =>
+        createPlayer({ id: `p${i + 1}`, name: `P${i + 1}`, rating: 1500 - i * 10, checkedInAt: i }));
+      const state = createState({
+        session: createSession({ players, courts: 2, gameMode: 'singles', rotationMode: 'tournament', doubleElimination }),
+      });
+      return sessionReducer(state, { type: 'START_SESSION' });
+    }
+
+    it('seeds the bracket and starts first-round matches on free courts', () => {
+      const state = startTournament(4);
+      expect(state.session.bracket!.entrants.map(e => e.id)).toEqual(['p1', 'p2', 'p3', 'p4']);
+      expect(state.session.activeMatches.map(m => [...m.team1, ...m.team2])).toEqual([['p1', 'p4'], ['p2', 'p3']]);
+    });
+
+    it('advances the winner and starts the next match once both sides are known', () => {
+      let state = startTournament(4);
+      const [first, second] = state.session.activeMatches;
+
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: first.id, winner: 2 });
+      expect(state.session.activeMatches).toHaveLength(1);
+
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: second.id, winner: 1 });
+      const final = state.session.activeMatches[0];
+      expect([...final.team1, ...final.team2]).toEqual(['p4', 'p2']);
+
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: final.id, winner: 1 });
+      expect(state.session.bracket!.champion).toBe('p4');
+    });
+
+    it('drops losers to the losers bracket in double elimination', () => {
+      let state = startTournament(4, true);
+      const [first, second] = state.session.activeMatches;
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: first.id, winner: 1 });
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: second.id, winner: 1 });
+
+      const matchups = state.session.activeMatches.map(m => [...m.team1, ...m.team2]);
+      expect(matchups).toEqual([['p1', 'p2'], ['p4', 'p3']]);
+    });
+
+    it('undo takes back the advance and the match it started', () => {
+      let state = startTournament(4);
+      const [first, second] = state.session.activeMatches;
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: first.id, winner: 1 });
+      const before = state;
+
+      state = recordThenUndo(state, { type: 'RECORD_WINNER', matchId: second.id, winner: 1 });
+
+      expect(state.session.bracket).toEqual(before.session.bracket);
+      expect(state.session.activeMatches.map(m => m.id)).toEqual([second.id]);
+    });
+  });
+
+  describe('Challenge ladder', () => {
+    function startLadderSession(ladder: string[]) {
+      const players = ['Ann', 'Bob', 'Cat', 'Dan', 'Eve', 'Fay'].map((name, i) =>
+        createPlayer({ id: name.toLowerCase(), name, checkedInAt: i }));
+      const state = createState({
+        session: createSession({ players, courts: 2, challengeCourt: 2, ladder }),
+      });
+      return sessionReducer(state, { type: 'START_SESSION' });
+    }
+
+    it('keeps the challenge court free of regular games', () => {
+      const state = startLadderSession([]);
+      expect(state.session.activeMatches.map(m => m.court)).toEqual([1]);
+    });
+
+    it('plays a challenge on the challenge court and swaps the ladder on an upset', () => {
+      let state = startLadderSession(['Ann', 'Bob', 'Cat', 'Dan', 'Eve', 'Fay']);
+      state = sessionReducer(state, { type: 'ADD_CHALLENGE', challengerId: 'fay', defenderId: 'eve', challengeRange: 3 });
+
+      const challengeMatch = state.session.activeMatches.find(m => m.court === 2)!;
+      expect([...challengeMatch.team1, ...challengeMatch.team2]).toEqual(['fay', 'eve']);
+      expect(state.session.challenges[0].matchId).toBe(challengeMatch.id);
+
+      const upset: SessionAction = { type: 'RECORD_WINNER', matchId: challengeMatch.id, winner: 1 };
+      const recorded = sessionReducer(state, upset);
+      expect(recorded.session.ladder).toEqual(['Ann', 'Bob', 'Cat', 'Dan', 'Fay', 'Eve']);
+      expect(recorded.session.challenges).toEqual([]);
+
+      state = recordThenUndo(state, upset);
+      expect(state.session.ladder).toEqual(['Ann', 'Bob', 'Cat', 'Dan', 'Eve', 'Fay']);
+      expect(state.session.challenges[0].matchId).toBe(challengeMatch.id);
+      // The provider saves whichever ladder the session ends up with
+      expect(saveLadder).not.toHaveBeenCalled();
+    });
+
+    it('picks up ladder moves made by another session', () => {
+      const state = startLadderSession(['Ann', 'Bob', 'Cat', 'Dan']);
+      const moved = sessionReducer(state, { type: 'LOAD_LADDER', ladder: ['Bob', 'Ann', 'Cat', 'Dan'] });
+      expect(moved.session.ladder).toEqual(['Bob', 'Ann', 'Cat', 'Dan']);
+
+      expect(sessionReducer(state, { type: 'LOAD_LADDER', ladder: [...state.session.ladder] })).toBe(state);
+    });
+
+    it('rejects challenges beyond the venue range', () => {
+      const state = startLadderSession(['Ann', 'Bob', 'Cat', 'Dan', 'Eve', 'Fay']);
+      const newState = sessionReducer(state, { type: 'ADD_CHALLENGE', challengerId: 'fay', defenderId: 'bob', challengeRange: 3 });
+      expect(newState.session.challenges).toEqual([]);
+    });
+
+    it('queues challenges until the court and both players are free', () => {
+      let state = startLadderSession(['Ann', 'Bob', 'Cat', 'Dan', 'Eve', 'Fay']);
+      state = sessionReducer(state, { type: 'ADD_CHALLENGE', challengerId: 'fay', defenderId: 'eve', challengeRange: 3 });
+      state = sessionReducer(state, { type: 'ADD_CHALLENGE', challengerId: 'eve', defenderId: 'dan', challengeRange: 3 });
+      expect(state.session.challenges.map(c => c.matchId === null)).toEqual([false, true]);
+
+      const first = state.session.activeMatches.find(m => m.court === 2)!;
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: first.id, winner: 2 });
+      // Dan is still playing on court 1
+      expect(state.session.activeMatches.some(m => m.court === 2)).toBe(false);
+
+      const court1 = state.session.activeMatches.find(m => m.court === 1)!;
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: court1.id, winner: 1 });
+      const next = state.session.activeMatches.find(m => m.court === 2)!;
+      expect([...next.team1, ...next.team2]).toEqual(['eve', 'dan']);
+      expect(state.session.ladder).toEqual(['Ann', 'Bob', 'Cat', 'Dan', 'Eve', 'Fay']);
+    });
+
+    it('calls off a challenge when a player is pulled from it', () => {
+      let state = startLadderSession([]);
+      state = sessionReducer(state, { type: 'ADD_CHALLENGE', challengerId: 'fay', defenderId: 'eve', challengeRange: 3 });
+      const match = state.session.activeMatches.find(m => m.court === 2)!;
+
+      state = sessionReducer(state, { type: 'PULL_FROM_COURT', playerId: 'fay', matchId: match.id });
+      expect(state.session.challenges).toEqual([]);
+      expect(state.session.activeMatches.some(m => m.id === match.id)).toBe(false);
+      expect(state.session.players.find(p => p.id === 'eve')!.status).toBe('checked-in');
+    });
+  });
+
+  describe('Ratings', () => {
+    function createRatedState() {
+      const players = [
+        createPlayer({ id: 'p1', status: 'playing', rating: 1000 }),
+        createPlayer({ id: 'p2', status: 'playing', rating: 1000 }),
+        createPlayer({ id: 'p3', status: 'playing', skill: 3 }),
+        createPlayer({ id: 'p4', status: 'playing', skill: 3 }),
+      ];
+      const match = createMatch({ id: 'match1', team1: ['p1', 'p2'], team2: ['p3', 'p4'] });
+      return createState({
+        session: createSession({ players, activeMatches: [match], startTime: Date.now() }),
+      });
+    }
+
+    it('RECORD_WINNER moves ratings toward the result', () => {
+      const newState = sessionReducer(createRatedState(), {
+        type: 'RECORD_WINNER',
+        matchId: 'match1',
+        winner: 1,
+      });
+
+      const byId = (id: string) => newState.session.players.find(p => p.id === id)!;
+      // Underdogs (1000) beat favorites seeded from skill 3 (1100)
+      expect(byId('p1').rating).toBeGreaterThan(1000);
+      expect(byId('p2').rating).toBe(byId('p1').rating);
+      expect(byId('p3').rating).toBeLessThan(1100);
+      // Zero-sum across the two teams
+      expect(byId('p1').rating! - 1000).toBe(1100 - byId('p3').rating!);
+    });
+
+    it('undo restores previous ratings, including unrated players', () => {
+      const undone = recordThenUndo(createRatedState(), {
+        type: 'RECORD_WINNER',
+        matchId: 'match1',
+        winner: 1,
+      });
+
+      const byId = (id: string) => undone.session.players.find(p => p.id === id)!;
+      expect(byId('p1').rating).toBe(1000);
+      expect(byId('p3').rating).toBeNull();
+    });
+  });
+
+  describe('Match outcomes', () => {
+    function createOutcomeState(overrides: Partial<Session> = {}) {
+      const players = ['p1', 'p2', 'p3', 'p4'].map(id =>
+        createPlayer({ id, status: 'playing', rating: 1000, winStreak: 1 }));
+      const match = createMatch({ id: 'match1', team1: ['p1', 'p2'], team2: ['p3', 'p4'] });
+      return createState({
+        session: createSession({ players, activeMatches: [match], startTime: Date.now(), ...overrides }),
+      });
+    }
+    const byId = (state: SessionState, id: string) => state.session.players.find(p => p.id === id)!;
+
+    it('a forfeit counts as a win and a loss without moving ratings', () => {
+      const newState = sessionReducer(createOutcomeState(), {
+        type: 'RECORD_WINNER', matchId: 'match1', winner: 1, outcome: 'forfeit',
+      });
+
+      expect(newState.session.matches[0].outcome).toBe('forfeit');
+      expect(byId(newState, 'p1')).toMatchObject({ wins: 1, gamesPlayed: 1, rating: 1000 });
+      expect(byId(newState, 'p3')).toMatchObject({ losses: 1, gamesPlayed: 1, rating: 1000 });
+    });
+
+    it('an injury retirement takes the injured player out of the session', () => {
+      const retirement: SessionAction = {
+        type: 'RECORD_WINNER', matchId: 'match1', winner: 2, outcome: 'injury', retiredPlayerId: 'p1',
+      };
+      const newState = sessionReducer(createOutcomeState(), retirement);
+
+      expect(newState.session.matches[0].outcome).toBe('injury');
+      expect(byId(newState, 'p1')).toMatchObject({ status: 'left', losses: 1 });
+      expect(byId(newState, 'p2')).toMatchObject({ status: 'checked-in', losses: 1 });
+
+      const undone = recordThenUndo(createOutcomeState(), retirement);
+      expect(byId(undone, 'p1')).toMatchObject({ status: 'playing', losses: 0 });
+      expect(undone.session.activeMatches[0].outcome).toBeNull();
+    });
+
+    it('an injury picked from the court card retires the chosen player', () => {
+      const newState = sessionReducer(createOutcomeState(), getOutcomeAction('match1', 'injury', 2, 'p4'));
+
+      expect(newState.session.matches[0]).toMatchObject({ outcome: 'injury', winner: 1 });
+      expect(byId(newState, 'p4')).toMatchObject({ status: 'left', losses: 1 });
+      expect(byId(newState, 'p3')).toMatchObject({ status: 'checked-in', losses: 1 });
+    });
+
+    it('a draw counts as a game for everyone with no win or loss', () => {
+      const newState = sessionReducer(createOutcomeState(), { type: 'END_MATCH', matchId: 'match1', outcome: 'draw' });
+
+      expect(newState.session.activeMatches).toHaveLength(0);
+      expect(newState.session.matches[0]).toMatchObject({ outcome: 'draw', winner: null });
+      for (const id of ['p1', 'p3']) {
+        expect(byId(newState, id)).toMatchObject({
+          status: 'checked-in', gamesPlayed: 1, wins: 0, losses: 0, winStreak: 0, rating: 1000,
+        });
+      }
+    });
+
+    it('a draw is not allowed where the format needs a winner', () => {
+      const state = createOutcomeState({ rotationMode: 'river' });
+      const newState = sessionReducer(state, { type: 'END_MATCH', matchId: 'match1', outcome: 'draw' });
+      expect(newState).toBe(state);
+    });
+
+    it('a cancelled match is recorded but counts for nothing', () => {
+      const newState = sessionReducer(createOutcomeState(), { type: 'END_MATCH', matchId: 'match1', outcome: 'cancelled' });
+
+      expect(newState.session.activeMatches).toHaveLength(0);
+      expect(newState.session.matches[0]).toMatchObject({ outcome: 'cancelled', winner: null });
+      expect(byId(newState, 'p1')).toMatchObject({ status: 'checked-in', gamesPlayed: 0, wins: 0, winStreak: 0 });
+      expect(newState.session.history.partners).toEqual({});
+    });
+
+    it('PULL_FROM_COURT with no substitute cancels the match by default', () => {
+      const newState = sessionReducer(createOutcomeState(), { type: 'PULL_FROM_COURT', playerId: 'p1', matchId: 'match1' });
+
+      expect(newState.session.matches[0].outcome).toBe('cancelled');
+      expect(byId(newState, 'p1').status).toBe('checked-in');
+    });
+
+    it('PULL_FROM_COURT with no substitute can record a forfeit or an injury', () => {
+      const forfeited = sessionReducer(createOutcomeState(), {
+        type: 'PULL_FROM_COURT', playerId: 'p3', matchId: 'match1', outcome: 'forfeit',
+      });
+      expect(forfeited.session.matches[0]).toMatchObject({ outcome: 'forfeit', winner: 1 });
+      expect(byId(forfeited, 'p3')).toMatchObject({ status: 'checked-in', losses: 1 });
+
+      const injured = sessionReducer(createOutcomeState(), {
+        type: 'PULL_FROM_COURT', playerId: 'p3', matchId: 'match1', outcome: 'injury',
+      });
+      expect(injured.session.matches[0]).toMatchObject({ outcome: 'injury', winner: 1 });
+      expect(byId(injured, 'p3').status).toBe('left');
+      expect(byId(injured, 'p4').status).toBe('checked-in');
+    });
+  });
+
   describe('LOCK_PARTNERS', () => {
     it('sets lockedPartnerId on both players', () => {
       const player1 = createPlayer({ id: 'p1', name: 'Player1' });
@@ -469,166 +1162,126 @@ describe('sessionReducer', () => {
     });
   });
 
-  describe('UNDO_WINNER', () => {
-    it('reverses win/loss stats for all players', () => {
-      const players = [
-        createPlayer({ id: 'p1', gamesPlayed: 1, wins: 1, losses: 0, status: 'checked-in' }),
-        createPlayer({ id: 'p2', gamesPlayed: 1, wins: 1, losses: 0, status: 'checked-in' }),
-        createPlayer({ id: 'p3', gamesPlayed: 1, wins: 0, losses: 1, status: 'checked-in' }),
-        createPlayer({ id: 'p4', gamesPlayed: 1, wins: 0, losses: 1, status: 'checked-in' }),
-      ];
-
-      const completedMatch: Match = {
-        id: 'match1',
-        court: 1,
-        team1: ['p1', 'p2'],
-        team2: ['p3', 'p4'],
-        winner: 1,
-        startTime: Date.now() - 60000,
-        endTime: Date.now(),
-      };
-
+  describe('Pairing history', () => {
+    it('RECORD_WINNER adds the match to the history', () => {
+      const players = ['p1', 'p2', 'p3', 'p4'].map(id => createPlayer({ id, status: 'playing' }));
+      const match = createMatch({ id: 'match1', team1: ['p1', 'p2'], team2: ['p3', 'p4'] });
       const state = createState({
-        session: createSession({
-          players,
-          matches: [completedMatch],
-          activeMatches: [],
-          startTime: Date.now() - 120000,
-        }),
-        undoAction: {
-          type: 'winner',
-          data: { matchId: 'match1', winner: 1, match: completedMatch },
-          timestamp: Date.now(),
-        },
+        session: createSession({ players, activeMatches: [match], startTime: Date.now() }),
       });
 
-      const action: SessionAction = { type: 'UNDO_WINNER', matchId: 'match1' };
+      const action: SessionAction = { type: 'RECORD_WINNER', matchId: 'match1', winner: 1 };
       const newState = sessionReducer(state, action);
+      expect(newState.session.history.partners['p1:p2']).toBe(1);
+      expect(newState.session.history.opponents['p1:p3']).toBe(1);
 
-      // Stats should be reversed
-      expect(newState.session.players.find(p => p.id === 'p1')!.wins).toBe(0);
-      expect(newState.session.players.find(p => p.id === 'p1')!.gamesPlayed).toBe(0);
-      expect(newState.session.players.find(p => p.id === 'p3')!.losses).toBe(0);
-      expect(newState.session.players.find(p => p.id === 'p3')!.gamesPlayed).toBe(0);
+      const undone = recordThenUndo(state, action);
+      expect(undone.session.history.partners).toEqual({});
     });
 
-    it('restores match to active and removes from completed', () => {
-      const players = [
-        createPlayer({ id: 'p1', status: 'checked-in' }),
-        createPlayer({ id: 'p2', status: 'checked-in' }),
-        createPlayer({ id: 'p3', status: 'checked-in' }),
-        createPlayer({ id: 'p4', status: 'checked-in' }),
-      ];
+    it('LOAD_SESSION rebuilds the history from completed matches', () => {
+      const match = createMatch({ team1: ['p1', 'p2'], team2: ['p3', 'p4'], winner: 1, endTime: Date.now() });
+      const session = createSession({ matches: [match, { ...match, id: 'again' }] });
 
-      const completedMatch: Match = {
-        id: 'match1',
-        court: 1,
-        team1: ['p1', 'p2'],
-        team2: ['p3', 'p4'],
-        winner: 1,
-        startTime: Date.now() - 60000,
-        endTime: Date.now(),
-      };
-
-      const state = createState({
-        session: createSession({
-          players,
-          matches: [completedMatch],
-          activeMatches: [],
-          startTime: Date.now() - 120000,
-        }),
-        undoAction: {
-          type: 'winner',
-          data: { matchId: 'match1', winner: 1, match: completedMatch },
-          timestamp: Date.now(),
-        },
-      });
+      const newState = sessionReducer(createState(), { type: 'LOAD_SESSION', session });
+      expect(newState.session.history.partners['p3:p4']).toBe(2);
+    });
+  });
 
-      const action: SessionAction = { type: 'UNDO_WINNER', matchId: 'match1' };
-      const newState = sessionReducer(state, action);
+  describe('SET_WIN_STREAK_CAP', () => {
+    it('clamps the cap between 1 and 10', () => {
+      const state = createState();
+      expect(sessionReducer(state, { type: 'SET_WIN_STREAK_CAP', cap: 0 }).session.winStreakCap).toBe(1);
+      expect(sessionReducer(state, { type: 'SET_WIN_STREAK_CAP', cap: 12 }).session.winStreakCap).toBe(10);
+      expect(sessionReducer(state, { type: 'SET_WIN_STREAK_CAP', cap: 3 }).session.winStreakCap).toBe(3);
+    });
+  });
 
-      // Match should be back in active, removed from completed
-      expect(newState.session.matches).toHaveLength(0);
-      expect(newState.session.activeMatches).toHaveLength(1);
-      expect(newState.session.activeMatches[0].winner).toBeNull();
+  describe('Undo and redo', () => {
+    function startLogged(): LoggedSessionState {
+      const players = ['p1', 'p2', 'p3', 'p4', 'p5', 'p6', 'p7', 'p8'].map((id, i) =>
+        createPlayer({ id, checkedInAt: i }));
+      players.push(createPlayer({ id: 'late', status: 'not-here' }));
+      const state = sessionReducer(createState({ session: createSession({ players }) }), { type: 'START_SESSION' });
+      return { state, log: createActionLog(state) };
+    }
+    const run = (logged: LoggedSessionState, ...actions: LoggedAction[]) =>
+      actions.reduce(loggedSessionReducer, logged);
+
+    it('takes back results one at a time, latest first', () => {
+      const start = startLogged();
+      const [first, second] = start.state.session.activeMatches;
+      const afterFirst = run(start, { type: 'RECORD_WINNER', matchId: first.id, winner: 1 });
+      const afterBoth = run(afterFirst, { type: 'RECORD_WINNER', matchId: second.id, winner: 2 });
+
+      const undoneOnce = run(afterBoth, { type: 'UNDO' });
+      expect(undoneOnce.state.session).toEqual(afterFirst.state.session);
+
+      const undoneTwice = run(undoneOnce, { type: 'UNDO' });
+      expect(undoneTwice.state.session).toEqual(start.state.session);
+      expect(getUndoStack(undoneTwice.log)).toHaveLength(0);
     });
 
-    it('puts players back to playing status', () => {
-      const players = [
-        createPlayer({ id: 'p1', status: 'checked-in' }),
-        createPlayer({ id: 'p2', status: 'checked-in' }),
-        createPlayer({ id: 'p3', status: 'checked-in' }),
-        createPlayer({ id: 'p4', status: 'checked-in' }),
-      ];
+    it('redoes undone actions in order', () => {
+      const start = startLogged();
+      const [first, second] = start.state.session.activeMatches;
+      const done = run(start,
+        { type: 'RECORD_WINNER', matchId: first.id, winner: 1 },
+        { type: 'RECORD_WINNER', matchId: second.id, winner: 2 });
 
-      const completedMatch: Match = {
-        id: 'match1',
-        court: 1,
-        team1: ['p1', 'p2'],
-        team2: ['p3', 'p4'],
-        winner: 1,
-        startTime: Date.now() - 60000,
-        endTime: Date.now(),
-      };
+      const undone = run(done, { type: 'UNDO' }, { type: 'UNDO' });
+      expect(getRedoStack(undone.log)).toHaveLength(2);
 
-      const state = createState({
-        session: createSession({
-          players,
-          matches: [completedMatch],
-          activeMatches: [],
-          startTime: Date.now() - 120000,
-        }),
-        undoAction: {
-          type: 'winner',
-          data: { matchId: 'match1', winner: 1, match: completedMatch },
-          timestamp: Date.now(),
-        },
-      });
+      const redone = run(undone, { type: 'REDO' }, { type: 'REDO' });
+      expect(redone.state.session).toEqual(done.state.session);
+      expect(getRedoStack(redone.log)).toHaveLength(0);
+    });
 
-      const action: SessionAction = { type: 'UNDO_WINNER', matchId: 'match1' };
-      const newState = sessionReducer(state, action);
+    it('a new action clears the redo stack', () => {
+      const start = startLogged();
+      const [first] = start.state.session.activeMatches;
+      const undone = run(start, { type: 'RECORD_WINNER', matchId: first.id, winner: 1 }, { type: 'UNDO' });
 
-      // All original players should be back to playing
-      ['p1', 'p2', 'p3', 'p4'].forEach(id => {
-        expect(newState.session.players.find(p => p.id === id)!.status).toBe('playing');
-      });
+      const after = run(undone, { type: 'CHECK_IN_PLAYER', playerId: 'late' });
+      expect(getRedoStack(after.log)).toHaveLength(0);
+      expect(run(after, { type: 'REDO' }).state).toBe(after.state);
     });
 
-    it('clears undo action after undo', () => {
-      const players = [
-        createPlayer({ id: 'p1' }),
-        createPlayer({ id: 'p2' }),
-        createPlayer({ id: 'p3' }),
-        createPlayer({ id: 'p4' }),
-      ];
+    it('undoes check-ins and partner locks as well as results', () => {
+      const start = startLogged();
+      const checkedIn = run(start, { type: 'CHECK_IN_PLAYER', playerId: 'late' });
+      expect(checkedIn.state.session.players.find(p => p.id === 'late')!.status).toBe('checked-in');
 
-      const completedMatch: Match = {
-        id: 'match1',
-        court: 1,
-        team1: ['p1', 'p2'],
-        team2: ['p3', 'p4'],
-        winner: 1,
-        startTime: Date.now(),
-        endTime: Date.now(),
-      };
+      const locked = run(checkedIn, { type: 'LOCK_PARTNERS', player1Id: 'p1', player2Id: 'late' });
+      const unlocked = run(locked, { type: 'UNDO' });
+      expect(unlocked.state.session.players.find(p => p.id === 'p1')!.lockedPartnerId).toBeNull();
 
-      const state = createState({
-        session: createSession({
-          players,
-          matches: [completedMatch],
-          startTime: Date.now(),
-        }),
-        undoAction: {
-          type: 'winner',
-          data: { matchId: 'match1', winner: 1, match: completedMatch },
-          timestamp: Date.now(),
-        },
-      });
+      const notHere = run(unlocked, { type: 'UNDO' });
+      expect(notHere.state.session.players.find(p => p.id === 'late')!.status).toBe('not-here');
+    });
 
-      const action: SessionAction = { type: 'UNDO_WINNER', matchId: 'match1' };
-      const newState = sessionReducer(state, action);
+    it('keeps later actions that name a player added after the undone action', () => {
+      const start = startLogged();
+      const [first] = start.state.session.activeMatches;
+      const refilled = run(start,
+        { type: 'RECORD_WINNER', matchId: first.id, winner: 1 },
+        { type: 'FILL_COURT', court: first.court },
+        { type: 'ADD_PLAYER', name: 'Zed', saved: NEW_PLAYER, checkedInElsewhere: false });
+      const zed = refilled.state.session.players.find(p => p.name === 'Zed')!;
+      const rated = run(refilled, { type: 'SET_PLAYER_SKILL', playerId: zed.id, skill: 3 });
+
+      // Taking back the fill changes what the RNG has drawn by the time Zed arrives
+      const undone = run(rated, { type: 'UNDO' });
+      expect(undone.state.session.activeMatches).toHaveLength(start.state.session.activeMatches.length - 1);
+      expect(undone.state.session.players.find(p => p.name === 'Zed')).toMatchObject({ id: zed.id, skill: 3 });
+    });
+
+    it('ignores undo once the session has ended', () => {
+      const start = startLogged();
+      const [first] = start.state.session.activeMatches;
+      const ended = run(start, { type: 'RECORD_WINNER', matchId: first.id, winner: 1 }, { type: 'END_SESSION' });
 
-      expect(newState.undoAction).toBeNull();
+      expect(run(ended, { type: 'UNDO' })).toEqual(ended);
     });
   });
 
@@ -710,6 +1363,187 @@ describe('sessionReducer', () => {
     });
   });
 
+  describe('Pausing play', () => {
+    const MINUTE = 60 * 1000;
+
+    function startPlaying(overrides: Partial<Session> = {}) {
+      const players = ['p1', 'p2', 'p3', 'p4', 'p5', 'p6', 'p7', 'p8'].map((id, i) =>
+        createPlayer({ id, checkedInAt: i }));
+      const state = createState({ session: createSession({ players, courts: 1, ...overrides }) });
+      return runAt(0, () => sessionReducer(state, { type: 'START_SESSION' }));
+    }
+
+    it('opens a pause once, and only while the session is running', () => {
+      const paused = runAt(MINUTE, () => sessionReducer(startPlaying(), { type: 'PAUSE_PLAY' }));
+      expect(paused.session.pauses).toEqual([{ start: MINUTE, end: null, until: null, scheduled: false }]);
+      expect(sessionReducer(paused, { type: 'PAUSE_PLAY' })).toBe(paused);
+
+      const notStarted = createState();
+      expect(sessionReducer(notStarted, { type: 'PAUSE_PLAY' })).toBe(notStarted);
+    });
+
+    it('gives a scheduled break its planned end', () => {
+      const state = startPlaying({ breakLengthMinutes: 15 });
+      const paused = runAt(60 * MINUTE, () => sessionReducer(state, { type: 'PAUSE_PLAY', scheduled: true }));
+      expect(paused.session.pauses[0]).toMatchObject({ scheduled: true, until: 75 * MINUTE });
+    });
+
+    it('starts no matches while paused', () => {
+      let state = startPlaying();
+      const [match] = state.session.activeMatches;
+      state = sessionReducer(state, { type: 'PAUSE_PLAY' });
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: match.id, winner: 1 });
+
+      expect(sessionReducer(state, { type: 'FILL_COURT', court: 1 })).toBe(state);
+      expect(sessionReducer(state, { type: 'FILL_COURTS' })).toBe(state);
+      const checkedOut = sessionReducer(state, { type: 'CHECK_OUT_PLAYER', playerId: 'p8' });
+      expect(sessionReducer(checkedOut, { type: 'CHECK_IN_PLAYER', playerId: 'p8' }).session.activeMatches).toEqual([]);
+    });
+
+    it('deals the round a pause held back once play resumes', () => {
+      let state = startPlaying({ rotationMode: 'round-robin' });
+      const [match] = state.session.activeMatches;
+      state = sessionReducer(state, { type: 'PAUSE_PLAY' });
+      state = sessionReducer(state, { type: 'RECORD_WINNER', matchId: match.id, winner: 1 });
+      expect(state.session.activeMatches).toEqual([]);
+
+      state = sessionReducer(state, { type: 'RESUME_PLAY' });
+      expect(state.session.pauses[0].end).not.toBeNull();
+      expect(state.session.activeMatches).toHaveLength(1);
+      expect(state.session.schedule!.currentRound).toBe(1);
+    });
+
+    it('stops the time cap clock while paused', () => {
+      let state = startPlaying({ timeCapMinutes: 15 });
+      const [match] = state.session.activeMatches;
+      state = runAt(10 * MINUTE, () => sessionReducer(state, { type: 'PAUSE_PLAY' }));
+      state = runAt(20 * MINUTE, () => sessionReducer(state, { type: 'RESUME_PLAY' }));
+      state = runAt(22 * MINUTE, () =>
+        sessionReducer(state, { type: 'RECORD_WINNER', matchId: match.id, winner: 1 }));
+
+      expect(state.session.matches[0].timeCapped).toBe(false);
+    });
+  });
+
+  describe('RESUME_SESSION', () => {
+    function createEndedState(overrides: Partial<SessionState> = {}) {
+      const players = [
+        createPlayer({ id: 'p1', name: 'Ann', gamesPlayed: 2, wins: 2, losses: 0, status: 'playing' }),
+        createPlayer({ id: 'p2', name: 'Bob', gamesPlayed: 2, wins: 0, losses: 2, status: 'playing' }),
+        createPlayer({ id: 'p3', name: 'Cat', status: 'checked-in' }),
+      ];
+      const match = createMatch({ id: 'match1', team1: ['p1'], team2: ['p2'] });
+      const state = createState({
+        session: createSession({ players, activeMatches: [match], gameMode: 'singles', startTime: Date.now() - 60000 }),
+        screen: 'play',
+        ...overrides,
+      });
+      return sessionReducer(state, { type: 'END_SESSION' });
+    }
+
+    beforeEach(() => {
+      vi.mocked(revertPlayerStats).mockClear();
+    });
+
+    it('reopens play where it left off', () => {
+      const ended = createEndedState();
+      const resumed = sessionReducer(ended, { type: 'RESUME_SESSION', checkedInElsewhere: [] });
+
+      expect(resumed.session.endTime).toBeNull();
+      expect(resumed.screen).toBe('play');
+      expect(resumed.session.activeMatches).toEqual(ended.session.activeMatches);
+      expect(resumed.session.players).toEqual(ended.session.players);
+    });
+
+    it('takes back the lifetime stats saved on ending', () => {
+      const ended = createEndedState();
+      saveSessionChanges(ended.session, sessionReducer(ended, { type: 'RESUME_SESSION', checkedInElsewhere: [] }).session);
+
+      expect(revertPlayerStats).toHaveBeenCalledTimes(2);
+      expect(revertPlayerStats).toHaveBeenCalledWith('Ann', 2, 0);
+      expect(revertPlayerStats).toHaveBeenCalledWith('Bob', 0, 2);
+    });
+
+    const sync = {
+      sessionId: 'cloud1',
+      players: [
+        { name: 'Ann', wins: 2, losses: 0, gamesPlayed: 2 },
+        { name: 'Bob', wins: 0, losses: 2, gamesPlayed: 2 },
+      ],
+    };
+
+    it('remembers what was synced so the next sync corrects it', () => {
+      const ended = createEndedState();
+      const synced = sessionReducer(ended, {
+        type: 'SET_SYNCED_SESSION_ID', sessionId: 'cloud1', sync, endTime: ended.session.endTime!,
+      });
+      const resumed = sessionReducer(synced, { type: 'RESUME_SESSION', checkedInElsewhere: [] });
+
+      expect(resumed.syncedSessionId).toBeNull();
+      expect(resumed.session.previousSync).toEqual(sync);
+    });
+
+    it('still syncs a session resumed before its first sync went through', () => {
+      const ended = createEndedState();
+      const resumed = sessionReducer(ended, { type: 'RESUME_SESSION', checkedInElsewhere: [] });
+      const synced = sessionReducer(resumed, {
+        type: 'SET_SYNCED_SESSION_ID', sessionId: 'cloud1', sync, endTime: ended.session.endTime!,
+      });
+
+      // Ending again corrects the rows that sync wrote rather than adding a second session
+      expect(synced.syncedSessionId).toBeNull();
+      expect(synced.session.previousSync).toEqual(sync);
+    });
+
+    it('does nothing to a session that has not ended', () => {
+      const state = createState({ session: createSession({ startTime: Date.now() }), screen: 'play' });
+      expect(sessionReducer(state, { type: 'RESUME_SESSION', checkedInElsewhere: [] })).toBe(state);
+    });
+  });
+
+  describe('Multiple sessions', () => {
+    it('adds a player who is checked in elsewhere as not here', () => {
+      const state = createState({ session: createSession({ startTime: Date.now() }), screen: 'play' });
+      const newState = sessionReducer(state, { type: 'ADD_PLAYER', name: 'Ann', saved: NEW_PLAYER, checkedInElsewhere: true });
+
+      expect(newState.session.players[0].status).toBe('not-here');
+    });
+
+    it('sends players checked in elsewhere home when resuming a session', () => {
+      const players = [
+        createPlayer({ id: 'p1', name: 'Ann', status: 'checked-in' }),
+        createPlayer({ id: 'p2', name: 'Bob', status: 'checked-in' }),
+      ];
+      const state = createState({ session: createSession({ players, startTime: Date.now() - 60000 }), screen: 'play' });
+      const ended = sessionReducer(state, { type: 'END_SESSION' });
+      const resumed = sessionReducer(ended, { type: 'RESUME_SESSION', checkedInElsewhere: ['p1'] });
+
+      expect(resumed.session.players.map(p => p.status)).toEqual(['not-here', 'checked-in']);
+    });
+
+    it('keeps a player checked in elsewhere out after an undo', () => {
+      const players = ['p1', 'p2', 'p3', 'p4'].map((id, i) => createPlayer({ id, checkedInAt: i }));
+      const state = sessionReducer(createState({ session: createSession({ players }) }), { type: 'START_SESSION' });
+      const actions: LoggedAction[] = [
+        { type: 'ADD_PLAYER', name: 'Ann', saved: NEW_PLAYER, checkedInElsewhere: true },
+        { type: 'RECORD_WINNER', matchId: state.session.activeMatches[0].id, winner: 1 },
+        { type: 'UNDO' },
+      ];
+      const undone = actions.reduce(loggedSessionReducer, { state, log: createActionLog(state) });
+
+      expect(undone.state.session.players.find(p => p.name === 'Ann')?.status).toBe('not-here');
+    });
+
+    it('switches to another session with its own log', () => {
+      const current = createState({ session: createSession({ id: 'gym-1' }) });
+      const other = createState({ session: createSession({ id: 'gym-2', location: 'Gym 2' }) });
+      const logged = { state: current, log: createActionLog(current) };
+      const target = { state: other, log: createActionLog(other) };
+
+      expect(loggedSessionReducer(logged, { type: 'SWITCH_SESSION', to: target })).toBe(target);
+    });
+  });
+
   describe('FILL_COURT - lastPartner tracking', () => {
     it('sets lastPartner to teammate for doubles', () => {
       // 4 players in queue, all checked in
@@ -902,6 +1736,346 @@ describe('sessionReducer', () => {
     });
   });
 
+  describe('FILL_COURTS', () => {
+    it('balances courts that open together', () => {
+      // Greedy court-by-court filling would put three pros on court 1
+      const players = [
+        createPlayer({ id: 'p1', skill: 3, checkedInAt: 1 }),
+        createPlayer({ id: 'p2', skill: 3, checkedInAt: 2 }),
+        createPlayer({ id: 'p3', skill: 3, checkedInAt: 3 }),
+        createPlayer({ id: 'b1', skill: 1, checkedInAt: 4 }),
+        createPlayer({ id: 'b2', skill: 1, checkedInAt: 5 }),
+        createPlayer({ id: 'b3', skill: 1, checkedInAt: 6 }),
+        createPlayer({ id: 'b4', skill: 1, checkedInAt: 7 }),
+        createPlayer({ id: 'p4', skill: 3, checkedInAt: 8 }),
+        createPlayer({ id: 'late', skill: 3, checkedInAt: 9 }),
+      ];
+      const state = createState({
+        session: createSession({ players, courts: 2, startTime: Date.now() }),
+      });
+
+      const newState = sessionReducer(state, { type: 'FILL_COURTS' });
+      expect(newState.session.activeMatches).toHaveLength(2);
+
+      const skillOf = (id: string) => players.find(p => p.id === id)!.skill!;
+      for (const match of newState.session.activeMatches) {
+        const team1 = match.team1.reduce((sum, id) => sum + skillOf(id), 0);
+        const team2 = match.team2.reduce((sum, id) => sum + skillOf(id), 0);
+        expect(team1).toBe(team2);
+      }
+
+      // The last arrival still waits their turn
+      expect(newState.session.players.find(p => p.id === 'late')!.status).toBe('checked-in');
+    });
+  });
+
+  describe('Seeded randomness', () => {
+    const unratedPlayers = () => ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map((id, i) =>
+      createPlayer({ id, checkedInAt: i }));
+
+    it('produces identical matches when the same actions are replayed from the same seed', () => {
+      const state = createState({
+        session: createSession({ players: unratedPlayers(), seed: 7, rngState: 7, startTime: Date.now() }),
+      });
+
+      const first = sessionReducer(state, { type: 'FILL_COURTS' });
+      const second = sessionReducer(state, { type: 'FILL_COURTS' });
+
+      const strip = (s: SessionState) => s.session.activeMatches.map(m => [m.court, m.team1, m.team2]);
+      expect(strip(second)).toEqual(strip(first));
+    });
+
+    it('advances rngState when an action draws from it', () => {
+      const state = createState({
+        session: createSession({ players: unratedPlayers(), startTime: Date.now() }),
+      });
+
+      const newState = sessionReducer(state, { type: 'FILL_COURTS' });
+      expect(newState.session.rngState).not.toBe(state.session.rngState);
+      expect(newState.session.seed).toBe(state.session.seed);
+    });
+
+    it('leaves rngState alone for actions without randomness', () => {
+      const state = createState();
+      const newState = sessionReducer(state, { type: 'SET_COURTS', courts: 3 });
+      expect(newState.session.rngState).toBe(state.session.rngState);
+    });
+
+    it('creates new sessions with a seed', () => {
+      const session = createInitialSession();
+      expect(Number.isInteger(session.seed)).toBe(true);
+      expect(session.rngState).toBe(session.seed);
+    });
+  });
+
+  describe('Action log replay', () => {
+    it('rebuilds the same session, timestamps included', () => {
+      const players = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].map((id, i) =>
+        createPlayer({ id, checkedInAt: i }));
+      const base = createState({ session: createSession({ players, seed: 7, rngState: 7 }) });
+
+      let live = base;
+      let log = createActionLog(base);
+      const run = (at: number, action: SessionAction) => {
+        const result = runLogEntry(live, { at, action });
+        live = result.state;
+        log = appendToLog(log, result.entry, live);
+      };
+      run(1000, { type: 'START_SESSION' });
+      run(5000, { type: 'RECORD_WINNER', matchId: live.session.activeMatches[0].id, winner: 1 });
+      run(6000, { type: 'FILL_COURT', court: live.session.matches[0].court });
+      run(9000, { type: 'END_SESSION' });
+      vi.mocked(updatePlayerStats).mockClear();
+
+      expect(replayActionLog(log)).toEqual(live);
+      expect(live.session.matches[0].endTime).toBe(5000);
+      // Lifetime stats are saved by the provider as the session changes
+      expect(updatePlayerStats).not.toHaveBeenCalled();
+    });
+
+    it('adds players with the saved details they arrived with', () => {
+      const base = createState();
+      const action: SessionAction = { type: 'ADD_PLAYER', name: 'Ann', saved: { rating: 1016, category: null, isMember: true },
+        checkedInElsewhere: false };
+      const log = appendToLog(createActionLog(base), { at: 1000, action }, sessionReducer(base, action));
+      // The session's results have since been saved over Ann's record
+      vi.mocked(getOrCreateSavedPlayer).mockReturnValueOnce(
+        { id: 'ann', name: 'Ann', skill: null, rating: 1032, category: null, isMember: true, lifetimeWins: 1, lifetimeLosses: 0, lifetimeGames: 1, lastPlayed: 0 }
+      );
+
+      const [ann] = replayActionLog(log).session.players;
+      expect(ann.rating).toBe(1016);
+      expect(ann.isMember).toBe(true);
+    });
+
+    it('can stop partway to show the session as it was', () => {
+      const base = createState({ session: createSession({ players: [createPlayer({ id: 'a' })] }) });
+      const entries = [
+        { at: 1000, action: { type: 'SET_COURTS', courts: 3 } as SessionAction },
+        { at: 2000, action: { type: 'SET_COURTS', courts: 4 } as SessionAction },
+      ];
+
+      expect(replayActionLog({ base, entries }, 1).session.courts).toBe(3);
+      expect(replayActionLog({ base, entries }).session.courts).toBe(4);
+    });
+
+    it('folds the oldest entries into the base past its depth', () => {
+      const base = createState();
+      const entries = [3, 4, 5].map((courts, i) => ({ at: i, action: { type: 'SET_COURTS', courts } as SessionAction }));
+      const log = { base, entries };
+
+      const folded = foldActionLog(log, 1);
+      expect(folded.base.session.courts).toBe(4);
+      expect(folded.entries).toEqual(entries.slice(2));
+      expect(replayActionLog(folded)).toEqual(replayActionLog(log));
+      expect(foldActionLog(log, 3)).toBe(log);
+    });
+
+    it('starts a new log from a new session', () => {
+      const base = createState();
+      let log = appendToLog(createActionLog(base), { at: 1000, action: { type: 'SET_COURTS', courts: 3 } }, base);
+      const fresh = sessionReducer(base, { type: 'NEW_SESSION' });
+      log = appendToLog(log, { at: 2000, action: { type: 'NEW_SESSION' } }, fresh);
+
+      expect(log.base).toBe(fresh);
+      expect(log.entries).toEqual([]);
+    });
+  });
+
+  describe('Mixed doubles', () => {
+    const now = Date.now();
+    const mixedSession = (players: Player[], overrides: Partial<Session> = {}) =>
+      createSession({ players, courts: 1, mixedDoubles: true, mixedFallbackMinutes: 10, startTime: now, ...overrides });
+
+    it('SET_MIXED_FALLBACK clamps to 0-60 minutes', () => {
+      expect(sessionReducer(createState(), { type: 'SET_MIXED_FALLBACK', minutes: -5 }).session.mixedFallbackMinutes).toBe(0);
+      expect(sessionReducer(createState(), { type: 'SET_MIXED_FALLBACK', minutes: 90 }).session.mixedFallbackMinutes).toBe(60);
+    });
+
+    it('SET_PLAYER_CATEGORY updates the player', () => {
+      const state = createState({ session: createSession({ players: [createPlayer({ id: 'p1' })] }) });
+      const newState = sessionReducer(state, { type: 'SET_PLAYER_CATEGORY', playerId: 'p1', category: 'F' });
+      expect(newState.session.players[0].category).toBe('F');
+    });
+
+    it('FILL_COURT forms two mixed teams', () => {
+      const players = [
+        createPlayer({ id: 'm1', category: 'M', checkedInAt: now - 3 }),
+        createPlayer({ id: 'm2', category: 'M', checkedInAt: now - 2 }),
+        createPlayer({ id: 'm3', category: 'M', checkedInAt: now - 1 }),
+        createPlayer({ id: 'w1', category: 'F', checkedInAt: now }),
+        createPlayer({ id: 'w2', category: 'F', checkedInAt: now }),
+      ];
+      const newState = sessionReducer(createState({ session: mixedSession(players) }), { type: 'FILL_COURT', court: 1 });
+
+      const match = newState.session.activeMatches[0];
+      for (const team of [match.team1, match.team2]) {
+        const categories = team.map(id => players.find(p => p.id === id)!.category).sort();
+        expect(categories).toEqual(['F', 'M']);
+      }
+    });
+
+    it('FILL_COURT waits for a mixed four before the fallback time', () => {
+      const players = ['m1', 'm2', 'm3', 'm4'].map(id =>
+        createPlayer({ id, category: 'M', checkedInAt: now - 5 * 60 * 1000 }));
+      const newState = sessionReducer(createState({ session: mixedSession(players) }), { type: 'FILL_COURT', court: 1 });
+      expect(newState.session.activeMatches).toHaveLength(0);
+    });
+
+    it('FILL_COURT falls back to regular doubles after the fallback time', () => {
+      const players = ['m1', 'm2', 'm3', 'm4'].map(id =>
+        createPlayer({ id, category: 'M', checkedInAt: now - 11 * 60 * 1000 }));
+      const newState = sessionReducer(createState({ session: mixedSession(players) }), { type: 'FILL_COURT', court: 1 });
+      expect(newState.session.activeMatches).toHaveLength(1);
+    });
+  });
+
+  describe('Avoid list', () => {
+    const avoidList = [{ id: 'x1', player1: 'Alice', player2: 'Bob', reason: null }];
+
+    it('ADD_AVOID_PAIR adds an entry once', () => {
+      const state = createState();
+      const added = sessionReducer(state, { type: 'ADD_AVOID_PAIR', player1: 'Alice', player2: 'Bob', reason: 'Dispute' });
+      expect(added.session.avoidList).toHaveLength(1);
+      expect(added.session.avoidList[0]).toMatchObject({ player1: 'Alice', player2: 'Bob', reason: 'Dispute' });
+
+      const again = sessionReducer(added, { type: 'ADD_AVOID_PAIR', player1: 'bob', player2: 'alice', reason: null });
+      expect(again).toBe(added);
+    });
+
+    it('REMOVE_AVOID_PAIR removes the entry', () => {
+      const state = createState({ session: createSession({ avoidList }) });
+      const newState = sessionReducer(state, { type: 'REMOVE_AVOID_PAIR', avoidPairId: 'x1' });
+      expect(newState.session.avoidList).toEqual([]);
+    });
+
+    it('FILL_COURT keeps avoided players off the same court', () => {
+      const players = ['Alice', 'Bob', 'Carol', 'Dan', 'Eve'].map((name, i) =>
+        createPlayer({ id: name.toLowerCase(), name, checkedInAt: i }));
+      const state = createState({
+        session: createSession({ players, avoidList, startTime: Date.now() }),
+      });
+
+      const newState = sessionReducer(state, { type: 'FILL_COURT', court: 1 });
+      const match = newState.session.activeMatches[0];
+      expect([...match.team1, ...match.team2].sort()).toEqual(['alice', 'carol', 'dan', 'eve']);
+    });
+
+    it('PULL_FROM_COURT does not sub in an avoided player', () => {
+      const players = [
+        createPlayer({ id: 'alice', name: 'Alice', status: 'playing' }),
+        createPlayer({ id: 'carol', name: 'Carol', status: 'playing' }),
+        createPlayer({ id: 'dan', name: 'Dan', status: 'playing' }),
+        createPlayer({ id: 'eve', name: 'Eve', status: 'playing' }),
+        createPlayer({ id: 'bob', name: 'Bob', checkedInAt: 1 }),
+        createPlayer({ id: 'fay', name: 'Fay', checkedInAt: 2 }),
+      ];
+      const match = createMatch({ id: 'm1', court: 1, team1: ['alice', 'carol'], team2: ['dan', 'eve'] });
+      const state = createState({
+        session: createSession({ players, avoidList, activeMatches: [match], startTime: Date.now() }),
+      });
+
+      const newState = sessionReducer(state, { type: 'PULL_FROM_COURT', playerId: 'eve', matchId: 'm1' });
+      expect(newState.session.activeMatches[0].team2).toEqual(['dan', 'fay']);
+    });
+  });
+
+  describe('Queue priority policy', () => {
+    it('SET_QUEUE_PRIORITY merges weights and keeps them non-negative', () => {
+      const state = createState();
+      const newState = sessionReducer(state, { type: 'SET_QUEUE_PRIORITY', policy: { gamesPlayed: 2, membership: -1 } });
+      expect(newState.session.queuePriority).toEqual({ waitTime: 0, gamesPlayed: 2, arrival: 0, membership: 0 });
+    });
+
+    it('FILL_COURT picks players by the session policy', () => {
+      const players = ['a', 'b', 'c', 'd', 'e'].map((id, i) =>
+        createPlayer({ id, checkedInAt: i, gamesPlayed: id === 'e' ? 0 : 3 }));
+      const state = createState({
+        session: createSession({
+          players,
+          queuePriority: { waitTime: 0, gamesPlayed: 2, arrival: 0, membership: 0 },
+          startTime: Date.now(),
+        }),
+      });
+
+      const newState = sessionReducer(state, { type: 'FILL_COURT', court: 1 });
+      const match = newState.session.activeMatches[0];
+      expect([...match.team1, ...match.team2]).toContain('e');
+    });
+
+    it('CHECK_IN_PLAYER records the first arrival only', () => {
+      const player = createPlayer({ id: 'p1', status: 'not-here', arrivedAt: null });
+      let state = createState({ session: createSession({ players: [player] }) });
+      state = sessionReducer(state, { type: 'CHECK_IN_PLAYER', playerId: 'p1' });
+      const firstArrival = state.session.players[0].arrivedAt;
+      expect(firstArrival).not.toBeNull();
+
+      state = sessionReducer(state, { type: 'CHECK_OUT_PLAYER', playerId: 'p1' });
+      state = sessionReducer(state, { type: 'CHECK_IN_PLAYER', playerId: 'p1' });
+      expect(state.session.players[0].arrivedAt).toBe(firstArrival);
+    });
+  });
+
+  describe('Court tiers', () => {
+    it('SET_COURT_TIER stores the tier for a court', () => {
+      const newState = sessionReducer(createState(), { type: 'SET_COURT_TIER', court: 2, tier: 'advanced' });
+      expect(newState.session.courtTiers).toEqual({ 2: 'advanced' });
+    });
+
+    it('FILL_COURT only draws eligible players for a tiered court', () => {
+      const players = [
+        createPlayer({ id: 'n1', skill: null, checkedInAt: 1 }),
+        createPlayer({ id: 'b1', skill: 1, checkedInAt: 2 }),
+        createPlayer({ id: 'a1', skill: 3, checkedInAt: 3 }),
+        createPlayer({ id: 'a2', skill: 3, checkedInAt: 4 }),
+        createPlayer({ id: 'a3', skill: 3, checkedInAt: 5 }),
+        createPlayer({ id: 'a4', skill: 3, checkedInAt: 6 }),
+      ];
+      const state = createState({
+        session: createSession({ players, courtTiers: { 1: 'advanced' }, startTime: Date.now() }),
+      });
+
+      const newState = sessionReducer(state, { type: 'FILL_COURT', court: 1 });
+      const match = newState.session.activeMatches[0];
+      expect([...match.team1, ...match.team2].sort()).toEqual(['a1', 'a2', 'a3', 'a4']);
+    });
+
+    it('FILL_COURT leaves a tiered court empty without enough eligible players', () => {
+      const players = ['a', 'b', 'c', 'd'].map(id => createPlayer({ id, skill: 2 }));
+      const state = createState({
+        session: createSession({ players, courtTiers: { 1: 'advanced' }, startTime: Date.now() }),
+      });
+
+      const newState = sessionReducer(state, { type: 'FILL_COURT', court: 1 });
+      expect(newState.session.activeMatches).toHaveLength(0);
+    });
+
+    it('FILL_COURTS fills tiered courts first so open-only players still get the open court', () => {
+      // Court 1 is open, court 2 is advanced. Advanced players are at the front of the queue.
+      const players = [
+        createPlayer({ id: 'a1', skill: 3, checkedInAt: 1 }),
+        createPlayer({ id: 'a2', skill: 3, checkedInAt: 2 }),
+        createPlayer({ id: 'a3', skill: 3, checkedInAt: 3 }),
+        createPlayer({ id: 'a4', skill: 3, checkedInAt: 4 }),
+        createPlayer({ id: 'n1', checkedInAt: 5 }),
+        createPlayer({ id: 'n2', checkedInAt: 6 }),
+        createPlayer({ id: 'n3', checkedInAt: 7 }),
+        createPlayer({ id: 'n4', checkedInAt: 8 }),
+      ];
+      const state = createState({
+        session: createSession({ players, courts: 2, courtTiers: { 2: 'advanced' }, startTime: Date.now() }),
+      });
+
+      const newState = sessionReducer(state, { type: 'FILL_COURTS' });
+      const idsOnCourt = (court: number) => {
+        const match = newState.session.activeMatches.find(m => m.court === court)!;
+        return [...match.team1, ...match.team2].sort();
+      };
+      expect(idsOnCourt(2)).toEqual(['a1', 'a2', 'a3', 'a4']);
+      expect(idsOnCourt(1)).toEqual(['n1', 'n2', 'n3', 'n4']);
+    });
+  });
+
   describe('FILL_COURT edge cases', () => {
     it('does not fill already occupied court', () => {
       const players = [
@@ -968,3 +2142,51 @@ describe('sessionReducer', () => {
     });
   });
 });
+
+describe('saveSessionChanges', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('saves the venue when the session starts', () => {
+    const session = createSession({ location: 'Gym', courts: 3 });
+    saveSessionChanges(session, { ...session, startTime: 1000 });
+    expect(saveLocation).toHaveBeenCalledWith('Gym', 3);
+  });
+
+  it('saves lifetime stats for everyone who played when the session ends', () => {
+    const players = [
+      createPlayer({ name: 'Ann', gamesPlayed: 1, wins: 1, rating: 1016 }),
+      createPlayer({ name: 'Bob' }),
+    ];
+    const session = createSession({ players, startTime: 1000 });
+    saveSessionChanges(session, { ...session, endTime: 2000 });
+
+    expect(updatePlayerStats).toHaveBeenCalledTimes(1);
+    expect(updatePlayerStats).toHaveBeenCalledWith('Ann', null, 1, 0, 1016, null);
+  });
+
+  it('follows the avoid list both ways, undo included', () => {
+    const kept = { id: 'x1', player1: 'Ann', player2: 'Bob', reason: null };
+    const added = { id: 'x2', player1: 'Cat', player2: 'Dan', reason: null };
+    const session = createSession({ avoidList: [kept] });
+    const withPair = { ...session, avoidList: [kept, added] };
+
+    saveSessionChanges(session, withPair);
+    expect(saveAvoidPair).toHaveBeenCalledWith(added);
+
+    saveSessionChanges(withPair, session);
+    expect(deleteAvoidPair).toHaveBeenCalledWith(added);
+    expect(saveAvoidPair).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves a session coming on screen as it is', () => {
+    const current = createSession({ id: 'gym-1', startTime: 1000 });
+    const other = createSession({ id: 'gym-2', startTime: 1000, endTime: 2000, ladder: ['Ann'],
+      players: [createPlayer({ name: 'Ann', gamesPlayed: 1, wins: 1 })] });
+
+    saveSessionChanges(current, other);
+    expect(updatePlayerStats).not.toHaveBeenCalled();
+    expect(saveLadder).not.toHaveBeenCalled();
+  });
+});
@@ -1,61 +1,136 @@
 /* eslint-disable react-refresh/only-export-components */
-import { createContext, useContext, useReducer, useEffect, useCallback, type ReactNode } from 'react';
-import type { Session, Player, Match, AppScreen, SkillLevel, UndoAction, GameMode } from '../types';
-import { saveSession, loadSession, clearSession, generateId, saveLocation, updatePlayerStats, getSavedLocations, getSyncedSessionId, saveSyncedSessionId } from '../utils/storage';
-import { selectNextPlayers, formTeams, createMatch, findSubstitute } from '../utils/matching';
-import { createSessionAndSync, processSyncQueue, getLocalVenue } from '../utils/supabase';
+import { createContext, useContext, useReducer, useEffect, useCallback, useMemo, useRef, useState, type ReactNode } from 'react';
+import type { Session, Player, Match, AppScreen, SkillLevel, PlayerCategory, AvoidPair, GameMode, RotationMode, CourtTier, QueuePriorityPolicy, RoundRobinSchedule, ScheduledRound, RiverState, MatchScore, Challenge, Bracket, TimeCapPolicy, MatchOutcome, SyncedSessionRecord, SessionPause } from '../types';
+import { saveSession, loadSession, generateId, saveLocation, updatePlayerStats, revertPlayerStats, getSavedLocations, getSyncedSessionId, saveSyncedSessionId, getOrCreateSavedPlayer, getAvoidList, saveAvoidPair, deleteAvoidPair, getLadder, saveLadder } from '../utils/storage';
+import { calculateRatingChanges } from '../utils/rating';
+import { createPairingHistory, addMatchToHistory, buildPairingHistory } from '../utils/history';
+import { createMatch, findSubstitute, selectChallengers, optimizeCourtGroups, getCourtTier, isEligibleForCourt, isMixedTeam, hasWaitedForMixed, prioritizeQueue, DEFAULT_MATCHING_STRATEGY } from '../utils/matching';
+import { buildBlockedPairs, findAvoidPair, type BlockedPairs } from '../utils/avoidList';
+import { createSeededRng, generateSeed, type Rng } from '../utils/random';
+import { generateRoundRobin, isRoundComplete } from '../utils/schedule';
+import { getNextRiverRound } from '../utils/river';
+import { createMexicanoRound, isPointsFormat } from '../utils/americano';
+import { canChallenge, applyChallengeResult } from '../utils/ladder';
+import { createBracket, createEntrants, getReadyMatches, recordBracketResult, setBracketMatchId } from '../utils/bracket';
+import { getGameRecord, getMatchPoints, getSeriesWinner } from '../utils/series';
+import { getTimeRemaining } from '../utils/timeCap';
+import { getPlayTime, isPaused } from '../utils/pause';
+import { currentTime, runAt } from '../utils/clock';
+import { getParkedSessions, getPlayersCheckedInElsewhere, isCheckedInElsewhere, parkSession, unparkSession, updateParkedSession } from './sessionSlots';
+import { appendToLog, createActionLog, loadActionLog, redoLast, saveActionLog, undoLast, type ActionLog, type ActionLogEntry } from './actionLog';
+import { allowsDraw, getPlayedMatches, isRatedOutcome } from '../utils/outcome';
+import { createSessionAndSync, resyncSession, processSyncQueue, getLocalVenue, getVenueSettings, saveBracketToCloud, type SessionSyncData } from '../utils/supabase';
 import { trackSessionStarted, trackGameRecorded, trackSessionEnded } from '../utils/analytics';
 
 // Exported for testing
 export interface SessionState {
   session: Session;
   screen: AppScreen;
-  undoAction: UndoAction | null;
   syncedSessionId: string | null;
 }
 
+// What the device remembers about a returning player. Read when they're added
+// and carried in the action, so replaying the log rebuilds the same player
+// even after the session's own results have been saved over it.
+export type SavedPlayerDetails = Pick<Player, 'rating' | 'category' | 'isMember'>;
+
 // Exported for testing
 export type SessionAction =
   | { type: 'LOAD_SESSION'; session: Session }
   | { type: 'SET_LOCATION'; location: string }
   | { type: 'SET_COURTS'; courts: number }
+  | { type: 'SET_COURT_TIER'; court: number; tier: CourtTier }
   | { type: 'SET_GAME_MODE'; gameMode: GameMode }
-  | { type: 'ADD_PLAYER'; name: string }
-  | { type: 'ADD_PLAYER_WITH_SKILL'; name: string; skill: SkillLevel }
+  | { type: 'SET_ROTATION_MODE'; rotationMode: RotationMode }
+  | { type: 'SET_WIN_STREAK_CAP'; cap: number }
+  | { type: 'SET_POINTS_PER_MATCH'; points: number }
+  | { type: 'SET_GAME_TO'; gameTo: number }
+  | { type: 'SET_DOUBLE_ELIMINATION'; enabled: boolean }
+  | { type: 'SET_MIXED_DOUBLES'; enabled: boolean }
+  | { type: 'SET_MIXED_FALLBACK'; minutes: number }
+  | { type: 'SET_QUEUE_PRIORITY'; policy: Partial<QueuePriorityPolicy> }
+  | { type: 'ADD_PLAYER'; name: string; saved: SavedPlayerDetails; checkedInElsewhere: boolean }
+  | { type: 'ADD_PLAYER_WITH_SKILL'; name: string; skill: SkillLevel; saved: SavedPlayerDetails; checkedInElsewhere: boolean }
   | { type: 'REMOVE_PLAYER'; playerId: string }
   | { type: 'SET_PLAYER_SKILL'; playerId: string; skill: SkillLevel }
+  | { type: 'SET_PLAYER_CATEGORY'; playerId: string; category: PlayerCategory }
+  | { type: 'ADD_AVOID_PAIR'; player1: string; player2: string; reason: string | null }
+  | { type: 'REMOVE_AVOID_PAIR'; avoidPairId: string }
+  | { type: 'ADD_CHALLENGE'; challengerId: string; defenderId: string; challengeRange: number }
+  | { type: 'LOAD_LADDER'; ladder: string[] }
+  | { type: 'CANCEL_CHALLENGE'; challengeId: string }
+  | { type: 'SET_CHALLENGE_COURT'; court: number | null }
   | { type: 'CHECK_IN_PLAYER'; playerId: string }
   | { type: 'CHECK_OUT_PLAYER'; playerId: string }
   | { type: 'START_SESSION' }
   | { type: 'END_SESSION' }
-  | { type: 'RECORD_WINNER'; matchId: string; winner: 1 | 2 }
+  | { type: 'RESUME_SESSION'; checkedInElsewhere: string[] } // Ids of players now in another session
+  | { type: 'PAUSE_PLAY'; scheduled?: boolean }
+  | { type: 'RESUME_PLAY' }
+  | { type: 'SET_BREAK_EVERY'; minutes: number | null }
+  | { type: 'SET_BREAK_LENGTH'; minutes: number }
+  | { type: 'RECORD_WINNER'; matchId: string; winner: 1 | 2; score?: MatchScore;
+      outcome?: 'forfeit' | 'injury'; retiredPlayerId?: string }
+  | { type: 'END_MATCH'; matchId: string; outcome: 'draw' | 'cancelled'; score?: MatchScore }
   | { type: 'REMOVE_FROM_COURT'; playerId: string; matchId: string }
   | { type: 'SET_SCREEN'; screen: AppScreen }
-  | { type: 'SET_UNDO'; action: UndoAction | null }
-  | { type: 'UNDO_WINNER'; matchId: string }
+  | { type: 'RECORD_GAME'; matchId: string; winner: 1 | 2; score?: MatchScore }
+  | { type: 'UNDO_GAME'; matchId: string }
+  | { type: 'SET_BEST_OF'; bestOf: number }
+  | { type: 'SET_TIME_CAP'; minutes: number | null }
+  | { type: 'SET_TIME_CAP_POLICY'; policy: TimeCapPolicy }
+  | { type: 'RECORD_RALLY'; matchId: string; winner: 1 | 2 }
+  | { type: 'UNDO_RALLY'; matchId: string }
   | { type: 'NEW_SESSION' }
   | { type: 'FILL_COURTS' }
   | { type: 'FILL_COURT'; court: number }
-  | { type: 'SET_SYNCED_SESSION_ID'; sessionId: string | null }
+  | { type: 'SET_SYNCED_SESSION_ID'; sessionId: string; sync: SyncedSessionRecord; endTime: number } // endTime: the end that was synced
   | { type: 'LOCK_PARTNERS'; player1Id: string; player2Id: string }
   | { type: 'UNLOCK_PARTNER'; playerId: string }
-  | { type: 'PULL_FROM_COURT'; playerId: string; matchId: string };
+  | { type: 'PULL_FROM_COURT'; playerId: string; matchId: string; outcome?: 'cancelled' | 'forfeit' | 'injury' };
 
 // Exported for testing
 export function createInitialSession(): Session {
   const savedLocations = getSavedLocations();
   const lastLocation = savedLocations[0];
+  const seed = generateSeed();
 
   return {
     id: generateId(),
     location: lastLocation?.name ?? '',
     courts: lastLocation?.courts ?? 4,
+    courtTiers: {},
     gameMode: 'doubles',
+    rotationMode: 'standard',
+    winStreakCap: 2,
+    pointsPerMatch: 21,
+    gameTo: 11,
+    bestOf: 1,
+    timeCapMinutes: null,
+    timeCapPolicy: 'leader-wins',
+    schedule: null,
+    river: null,
+    doubleElimination: false,
+    bracket: null,
+    mixedDoubles: false,
+    mixedFallbackMinutes: 10,
+    queuePriority: getVenueSettings().queuePriority,
     players: [],
     matches: [],
     activeMatches: [],
+    history: createPairingHistory(),
+    avoidList: getAvoidList(),
+    ladder: getLadder(),
+    challenges: [],
+    challengeCourt: null,
+    seed,
+    rngState: seed,
+    breakEveryMinutes: null,
+    breakLengthMinutes: 10,
+    pauses: [],
     startTime: null,
     endTime: null,
+    previousSync: null,
   };
 }
 
@@ -68,30 +143,52 @@ function getCheckedInQueue(players: Player[]): Player[] {
     .sort((a, b) => (a.checkedInAt ?? 0) - (b.checkedInAt ?? 0));
 }
 
-function fillSingleCourt(state: SessionState, court: number): SessionState {
-  const { session } = state;
-  const queue = getCheckedInQueue(session.players);
+// Queue of players allowed on a specific court (tiered courts restrict by skill)
+function getEligibleQueue(session: Session, court: number): Player[] {
+  const tier = getCourtTier(session.courtTiers, court);
+  return getCheckedInQueue(session.players).filter(p => isEligibleForCourt(p, tier));
+}
 
-  // Check if court is already occupied
-  const isCourtOccupied = session.activeMatches.some(m => m.court === court);
-  if (isCourtOccupied) return state;
+function isMixedDoubles(session: Session): boolean {
+  return session.mixedDoubles && session.gameMode === 'doubles';
+}
 
-  const selectedPlayers = selectNextPlayers(queue, session.gameMode);
-  if (!selectedPlayers) return state;
+function getBlockedPairs(session: Session): BlockedPairs {
+  return buildBlockedPairs(session.players, session.avoidList);
+}
 
-  const teams = formTeams(selectedPlayers, session.gameMode);
-  if (!teams) return state;
+// Players staying on a match's court when one of them leaves
+function getCourtPlayers(session: Session, match: Match, leavingPlayerId: string): Player[] {
+  return session.players.filter(p =>
+    p.id !== leavingPlayerId && (match.team1.includes(p.id) || match.team2.includes(p.id)));
+}
 
-  const match = createMatch(court, teams.team1, teams.team2);
+// Pick who plays next from a court's queue. Mixed doubles holds out for a four
+// that makes two mixed teams, then falls back to regular doubles once someone
+// has waited longer than the session's fallback time.
+function selectPlayersForCourt(session: Session, queue: Player[]): Player[] | null {
+  const strategy = DEFAULT_MATCHING_STRATEGY;
+  const mixed = isMixedDoubles(session);
+  const blocked = getBlockedPairs(session);
+
+  const selected = strategy.selectNextPlayers(queue, session.gameMode, session.history, mixed, blocked,
+    session.queuePriority);
+  if (selected || !mixed) return selected;
+
+  return hasWaitedForMixed(queue, session.mixedFallbackMinutes, currentTime())
+    ? strategy.selectNextPlayers(queue, session.gameMode, session.history, false, blocked, session.queuePriority)
+    : null;
+}
 
-  // Update player statuses and partners
+// Mark a new match's players as playing and record their partners and court
+function assignPlayersToMatch(players: Player[], match: Match, gameMode: GameMode): Player[] {
   const playerIds = [...match.team1, ...match.team2];
-  const updatedPlayers = session.players.map(p => {
+  return players.map(p => {
     if (!playerIds.includes(p.id)) return p;
 
     const isTeam1 = match.team1.includes(p.id);
     // For singles, there's no partner
-    const partnerId = session.gameMode === 'doubles'
+    const partnerId = gameMode === 'doubles'
       ? (isTeam1
           ? match.team1.find(id => id !== p.id)
           : match.team2.find(id => id !== p.id)) ?? null
@@ -101,76 +198,365 @@ function fillSingleCourt(state: SessionState, court: number): SessionState {
       ...p,
       status: 'playing' as const,
       lastPartner: partnerId,
-      courtsPlayed: [...p.courtsPlayed, court],
+      courtsPlayed: [...p.courtsPlayed, match.court],
     };
   });
+}
+
+// Round-robin, Americano and Mexicano sessions deal games from their schedule
+// instead of the queue
+function isScheduled(session: Session): boolean {
+  return ['round-robin', 'americano', 'mexicano'].includes(session.rotationMode) && session.schedule !== null;
+}
+
+// Scheduled games never go on the challenge court, which is kept for challenges
+function getScheduleCourts(session: Session): number[] {
+  return Array.from({ length: session.courts }, (_, i) => i + 1).filter(c => c !== session.challengeCourt);
+}
+
+// Schedules number their games from court 1; move them onto the courts in use
+function placeRound(round: ScheduledRound, courts: number[]): ScheduledRound {
+  return { ...round, matches: round.matches.map((m, i) => ({ ...m, court: courts[i] })) };
+}
+
+// Whether a scheduled game can go on a court: not the challenge court, and
+// a tiered court only if all its players are in the tier
+function canHostScheduledMatch(session: Session, court: number, players: Player[]): boolean {
+  const tier = getCourtTier(session.courtTiers, court);
+  return court !== session.challengeCourt && players.every(p => isEligibleForCourt(p, tier));
+}
+
+// Mexicano's next round depends on the standings, so it's only made once the
+// previous round is over, from everyone who's checked in at that point
+function addMexicanoRound(session: Session, schedule: RoundRobinSchedule): RoundRobinSchedule {
+  const courts = getScheduleCourts(session);
+  const round = createMexicanoRound(getCheckedInQueue(session.players), session.gameMode, courts.length,
+    schedule.rounds);
+  if (round.matches.length === 0) return schedule;
+  return { ...schedule, rounds: [...schedule.rounds, placeRound(round, courts)] };
+}
+
+// Move past rounds that are finished (or can't be finished because players left)
+function advanceSchedule(session: Session, schedule: RoundRobinSchedule): RoundRobinSchedule {
+  const activeMatchIds = new Set(session.activeMatches.map(m => m.id));
+  const availablePlayerIds = new Set(session.players
+    .filter(p => p.status === 'checked-in' || p.status === 'playing')
+    .map(p => p.id));
+
+  let currentRound = schedule.currentRound;
+  while (currentRound < schedule.rounds.length &&
+    isRoundComplete(schedule.rounds[currentRound], activeMatchIds, availablePlayerIds)) {
+    currentRound++;
+  }
+  return currentRound === schedule.currentRound ? schedule : { ...schedule, currentRound };
+}
+
+// Put the current round's games on their courts (or just one court's game).
+// Games whose court is busy or whose players aren't all in the queue wait. A
+// game whose court can't take it (made the challenge court, or tiered since)
+// moves to a free court no other game in the round is waiting for.
+function dealScheduledRound(state: SessionState, court?: number): SessionState {
+  const { session } = state;
+  if (isPaused(session.pauses)) return state;
+  let schedule = advanceSchedule(session, session.schedule!);
+  if (session.rotationMode === 'mexicano' && schedule.currentRound === schedule.rounds.length) {
+    schedule = addMexicanoRound(session, schedule);
+  }
+  const round = schedule.rounds[schedule.currentRound];
+  if (!round) {
+    return schedule === session.schedule ? state : { ...state, session: { ...session, schedule } };
+  }
+
+  const occupiedCourts = new Set(session.activeMatches.map(m => m.court));
+  const plannedCourts = new Set(round.matches.filter(m => !m.matchId).map(m => m.court));
+  let updatedPlayers = session.players;
+  const updatedActiveMatches = [...session.activeMatches];
+
+  const matches = round.matches.map(scheduled => {
+    if (scheduled.matchId) return scheduled;
+
+    const team1 = scheduled.team1.map(id => updatedPlayers.find(p => p.id === id));
+    const team2 = scheduled.team2.map(id => updatedPlayers.find(p => p.id === id));
+    if ([...team1, ...team2].some(p => p?.status !== 'checked-in')) return scheduled;
+
+    const matchPlayers = [...team1, ...team2] as Player[];
+    const matchCourt = canHostScheduledMatch(session, scheduled.court, matchPlayers)
+      ? scheduled.court
+      : getScheduleCourts(session).find(c => !plannedCourts.has(c) && !occupiedCourts.has(c) &&
+        canHostScheduledMatch(session, c, matchPlayers));
+    if (matchCourt === undefined || occupiedCourts.has(matchCourt)) return scheduled;
+    if (court !== undefined && matchCourt !== court) return scheduled;
+
+    const match = createMatch(matchCourt, team1 as Player[], team2 as Player[], nextId());
+    updatedPlayers = assignPlayersToMatch(updatedPlayers, match, session.gameMode);
+    updatedActiveMatches.push(match);
+    occupiedCourts.add(matchCourt);
+    return { ...scheduled, court: matchCourt, matchId: match.id };
+  });
+
+  const rounds = [...schedule.rounds];
+  rounds[schedule.currentRound] = { ...round, matches };
 
   return {
     ...state,
     session: {
       ...session,
       players: updatedPlayers,
+      activeMatches: updatedActiveMatches,
+      schedule: { ...schedule, rounds },
+    },
+  };
+}
+
+function isRiver(session: Session): boolean {
+  return session.rotationMode === 'river' && session.river !== null;
+}
+
+// Up-and-down-the-river: once every court has finished, move winners up and
+// losers down and start the whole next round together
+function dealRiverRound(state: SessionState): SessionState {
+  const { session } = state;
+  if (isPaused(session.pauses)) return state;
+  const river = session.river!;
+  const results = session.matches.filter(m => river.finishedMatchIds.includes(m.id));
+  const roundPlayerIds = new Set(results.flatMap(m => [...m.team1, ...m.team2]));
+  const queue = getCheckedInQueue(session.players)
+    .filter(p => !roundPlayerIds.has(p.id))
+    .map(p => p.id);
+  const available = new Set(getCheckedInQueue(session.players).map(p => p.id));
+
+  const next = getNextRiverRound(results, queue, available, session.gameMode);
+  let updatedPlayers = session.players;
+  const updatedActiveMatches = [...session.activeMatches];
+  for (const court of next.courts) {
+    const team1 = court.team1.map(id => updatedPlayers.find(p => p.id === id)) as Player[];
+    const team2 = court.team2.map(id => updatedPlayers.find(p => p.id === id)) as Player[];
+    const match = createMatch(court.court, team1, team2, nextId());
+    updatedPlayers = assignPlayersToMatch(updatedPlayers, match, session.gameMode);
+    updatedActiveMatches.push(match);
+  }
+
+  return {
+    ...state,
+    session: {
+      ...session,
+      players: updatedPlayers,
+      activeMatches: updatedActiveMatches,
+      river: { round: river.round + 1, finishedMatchIds: [], moves: next.moves },
+    },
+  };
+}
+
+function isTournament(session: Session): boolean {
+  return session.rotationMode === 'tournament' && session.bracket !== null;
+}
+
+function getBracketMatch(session: Session, matchId: string) {
+  return session.bracket?.matches.find(m => m.matchId === matchId);
+}
+
+// Tournament: start every bracket match whose two sides are known, as long as
+// there's a free court and all its players are here
+function dealBracketMatches(state: SessionState, court?: number): SessionState {
+  const { session } = state;
+  if (isPaused(session.pauses)) return state;
+  let bracket = session.bracket!;
+  const occupiedCourts = new Set(session.activeMatches.map(m => m.court));
+  const freeCourts: number[] = [];
+  for (let i = 1; i <= session.courts; i++) {
+    if (occupiedCourts.has(i) || i === session.challengeCourt) continue;
+    if (court === undefined || i === court) freeCourts.push(i);
+  }
+
+  let updatedPlayers = session.players;
+  const updatedActiveMatches = [...session.activeMatches];
+  const teamOf = (entrantId: string) => bracket.entrants
+    .find(e => e.id === entrantId)!.playerIds
+    .map(id => updatedPlayers.find(p => p.id === id));
+
+  for (const ready of getReadyMatches(bracket)) {
+    if (freeCourts.length === 0) break;
+    const team1 = teamOf(ready.entrant1!);
+    const team2 = teamOf(ready.entrant2!);
+    if ([...team1, ...team2].some(p => p?.status !== 'checked-in')) continue;
+
+    const match = createMatch(freeCourts.shift()!, team1 as Player[], team2 as Player[], nextId());
+    updatedPlayers = assignPlayersToMatch(updatedPlayers, match, session.gameMode);
+    updatedActiveMatches.push(match);
+    bracket = setBracketMatchId(bracket, ready.id, match.id);
+  }
+
+  if (bracket === session.bracket) return state;
+  return {
+    ...state,
+    session: { ...session, players: updatedPlayers, activeMatches: updatedActiveMatches, bracket },
+  };
+}
+
+function isChallengeMatch(session: Session, matchId: string): boolean {
+  return session.challenges.some(c => c.matchId === matchId);
+}
+
+// Put the first queued challenge whose players are both free on the challenge court
+function placeNextChallenge(state: SessionState): SessionState {
+  const { session } = state;
+  const court = session.challengeCourt;
+  if (court === null || court > session.courts || isPaused(session.pauses)) return state;
+  if (session.activeMatches.some(m => m.court === court)) return state;
+
+  const isFree = (id: string) => session.players.find(p => p.id === id)?.status === 'checked-in';
+  const challenge = session.challenges.find(c =>
+    c.matchId === null && isFree(c.challengerId) && isFree(c.defenderId));
+  if (!challenge) return state;
+
+  const challenger = session.players.find(p => p.id === challenge.challengerId)!;
+  const defender = session.players.find(p => p.id === challenge.defenderId)!;
+  const match = createMatch(court, [challenger], [defender], nextId());
+
+  return {
+    ...state,
+    session: {
+      ...session,
+      players: assignPlayersToMatch(session.players, match, 'singles'),
       activeMatches: [...session.activeMatches, match],
+      challenges: session.challenges.map(c => c.id === challenge.id ? { ...c, matchId: match.id } : c),
     },
   };
 }
 
-function fillAvailableCourts(state: SessionState): SessionState {
+// Deal what a pause held back in the formats that start matches on their own.
+// Standard rotation leaves filling courts to staff, as after any result.
+function dealHeldMatches(state: SessionState): SessionState {
   const { session } = state;
+  if (isTournament(session)) return placeNextChallenge(dealBracketMatches(state));
+  if (isScheduled(session)) return placeNextChallenge(dealScheduledRound(state));
+  const riverDone = isRiver(session) && session.river!.finishedMatchIds.length > 0 &&
+    !session.activeMatches.some(m => !isChallengeMatch(session, m.id));
+  if (riverDone) return placeNextChallenge(dealRiverRound(state));
+  return placeNextChallenge(state);
+}
+
+// Take a challenge or tournament match off court without a result (someone
+// left or passed). A challenge is dropped and a tournament match goes back to
+// waiting; the leaving player's status is up to the caller.
+function callOffMatch(session: Session, match: Match): Session {
+  const bracketMatch = getBracketMatch(session, match.id);
+  const matchPlayerIds = [...match.team1, ...match.team2];
+  const now = currentTime();
+  return {
+    ...session,
+    players: session.players.map(p =>
+      matchPlayerIds.includes(p.id) ? { ...p, status: 'checked-in' as const, checkedInAt: now } : p
+    ),
+    activeMatches: session.activeMatches.filter(m => m.id !== match.id),
+    challenges: session.challenges.filter(c => c.matchId !== match.id),
+    bracket: bracketMatch ? setBracketMatchId(session.bracket!, bracketMatch.id, null) : session.bracket,
+  };
+}
+
+// No new matches start while the session is paused; formats that deal on
+// their own catch up when play resumes (see dealHeldMatches)
+function fillSingleCourt(state: SessionState, court: number, rng: Rng): SessionState {
+  const { session } = state;
+  if (isPaused(session.pauses)) return state;
+  if (court === session.challengeCourt) return placeNextChallenge(state);
+  if (isTournament(session)) return dealBracketMatches(state, court);
+  if (isScheduled(session)) return dealScheduledRound(state, court);
+
+  const queue = getEligibleQueue(session, court);
+
+  // Check if court is already occupied
+  const isCourtOccupied = session.activeMatches.some(m => m.court === court);
+  if (isCourtOccupied) return state;
+
+  const strategy = DEFAULT_MATCHING_STRATEGY;
+  const selectedPlayers = selectPlayersForCourt(session, queue);
+  if (!selectedPlayers) return state;
+
+  const teams = strategy.formTeams(selectedPlayers, session.gameMode, session.history, rng,
+    isMixedDoubles(session), getBlockedPairs(session));
+  if (!teams) return state;
+
+  const match = createMatch(court, teams.team1, teams.team2, nextId());
+  const updatedPlayers = assignPlayersToMatch(session.players, match, session.gameMode);
+
+  return {
+    ...state,
+    session: {
+      ...session,
+      players: updatedPlayers,
+      activeMatches: [...session.activeMatches, match],
+    },
+  };
+}
+
+// Challenges go first so their players aren't drawn onto regular courts
+function fillAvailableCourts(state: SessionState, rng: Rng): SessionState {
+  if (isPaused(state.session.pauses)) return state;
+  const challengeState = placeNextChallenge(state);
+  const { session } = challengeState;
+  if (isScheduled(session)) return dealScheduledRound(challengeState);
+  if (isTournament(session)) return dealBracketMatches(challengeState);
+
   const queue = getCheckedInQueue(session.players);
   const activeCourts = new Set(session.activeMatches.map(m => m.court));
 
-  // Find available courts
+  // Find available courts (the challenge court is only used for challenges)
   const availableCourts: number[] = [];
   for (let i = 1; i <= session.courts; i++) {
-    if (!activeCourts.has(i)) {
+    if (!activeCourts.has(i) && i !== session.challengeCourt) {
       availableCourts.push(i);
     }
   }
 
-  // Try to fill each available court
-  let updatedPlayers = [...session.players];
-  const updatedActiveMatches = [...session.activeMatches];
+  // Fill tiered courts first so their players are drawn there, leaving open
+  // courts to serve everyone else in plain queue order (nobody gets starved)
+  const tierOf = (court: number) => getCourtTier(session.courtTiers, court);
+  availableCourts.sort((a, b) => (tierOf(a) === 'open' ? 1 : 0) - (tierOf(b) === 'open' ? 1 : 0));
+
+  // Pick who plays next for each free court, in queue priority order
+  const strategy = DEFAULT_MATCHING_STRATEGY;
+  const blocked = getBlockedPairs(session);
+  const groups: Player[][] = [];
+  const groupCourts: number[] = [];
   let currentQueue = queue;
 
   for (const court of availableCourts) {
-    const selectedPlayers = selectNextPlayers(currentQueue, session.gameMode);
-    if (!selectedPlayers) break;
+    const eligibleQueue = currentQueue.filter(p => isEligibleForCourt(p, tierOf(court)));
+    const selectedPlayers = selectPlayersForCourt(session, eligibleQueue);
+    if (!selectedPlayers) continue;
 
-    const teams = formTeams(selectedPlayers, session.gameMode);
-    if (!teams) break;
+    groups.push(selectedPlayers);
+    groupCourts.push(court);
 
-    const match = createMatch(court, teams.team1, teams.team2);
+    // Update queue for next iteration
+    const selectedIds = selectedPlayers.map(p => p.id);
+    currentQueue = currentQueue.filter(p => !selectedIds.includes(p.id));
+  }
 
-    // Update player statuses and partners
-    const playerIds = [...match.team1, ...match.team2];
-    updatedPlayers = updatedPlayers.map(p => {
-      if (!playerIds.includes(p.id)) return p;
+  // When several courts open together, spread those players across the courts
+  // jointly instead of court-by-court so every court comes out balanced.
+  // Mixed groups are left alone since swapping players could break them.
+  const courtGroups = groups.length > 1 && !isMixedDoubles(session)
+    ? optimizeCourtGroups(groups, session.gameMode, session.history,
+        (player, index) => isEligibleForCourt(player, tierOf(groupCourts[index])), blocked)
+    : groups;
 
-      const isTeam1 = match.team1.includes(p.id);
-      // For singles, there's no partner
-      const partnerId = session.gameMode === 'doubles'
-        ? (isTeam1
-            ? match.team1.find(id => id !== p.id)
-            : match.team2.find(id => id !== p.id)) ?? null
-        : null;
+  let updatedPlayers = [...session.players];
+  const updatedActiveMatches = [...session.activeMatches];
 
-      return {
-        ...p,
-        status: 'playing' as const,
-        lastPartner: partnerId,
-        courtsPlayed: [...p.courtsPlayed, court],
-      };
-    });
+  for (let i = 0; i < courtGroups.length; i++) {
+    const teams = strategy.formTeams(courtGroups[i], session.gameMode, session.history, rng,
+      isMixedDoubles(session), blocked);
+    if (!teams) break;
 
+    const match = createMatch(groupCourts[i], teams.team1, teams.team2, nextId());
+    updatedPlayers = assignPlayersToMatch(updatedPlayers, match, session.gameMode);
     updatedActiveMatches.push(match);
-
-    // Update queue for next iteration
-    currentQueue = currentQueue.filter(p => !playerIds.includes(p.id));
   }
 
   return {
-    ...state,
+    ...challengeState,
     session: {
       ...session,
       players: updatedPlayers,
@@ -180,10 +566,160 @@ function fillAvailableCourts(state: SessionState): SessionState {
 }
 
 // Exported for testing
+// All randomness comes from the session's seeded RNG, so replaying the same
+// actions against the same starting session produces the same pairings
 export function sessionReducer(state: SessionState, action: SessionAction): SessionState {
+  const rng = createSeededRng(state.session.rngState);
+  const newState = applyAction(state, action, rng.next);
+
+  // Only persist the RNG position if this action actually drew from it
+  if (rng.getState() === state.session.rngState) return newState;
+  return { ...newState, session: { ...newState.session, rngState: rng.getState() } };
+}
+
+// Ids don't come from the session's RNG: undoing an action that drew from it
+// would shift every id handed out after it, and later actions naming those
+// players or matches would no longer find them. Instead each log entry keeps
+// the ids its action handed out, and a replay hands them out again in order.
+let idsToReuse: string[] = [];
+let idsHandedOut: string[] | null = null;
+
+function nextId(): string {
+  const id = idsToReuse.shift() ?? generateId();
+  idsHandedOut?.push(id);
+  return id;
+}
+
+// Exported for testing
+// Runs a log entry at the time it was logged, returning the entry with the
+// ids its action handed out
+export function runLogEntry(state: SessionState, entry: ActionLogEntry): { state: SessionState; entry: ActionLogEntry } {
+  idsToReuse = [...(entry.ids ?? [])];
+  idsHandedOut = [];
+  try {
+    const result = runAt(entry.at, () => sessionReducer(state, entry.action));
+    return { state: result, entry: idsHandedOut.length ? { ...entry, ids: idsHandedOut } : entry };
+  } finally {
+    idsToReuse = [];
+    idsHandedOut = null;
+  }
+}
+
+// Rebuild the session from its action log, optionally stopping after the
+// first `count` entries. Each action runs at the time it was logged, and
+// anything staff undid is left out.
+export function replayActionLog(log: ActionLog, count = log.entries.length): SessionState {
+  return log.entries.slice(0, count).filter(e => !e.undone).reduce(
+    (state, entry) => runLogEntry(state, entry).state,
+    log.base
+  );
+}
+
+// The log keeps this many entries, so the saved copy stays a manageable size;
+// older ones are folded into its base and undo reaches back as far as it goes.
+// A parked session keeps only enough for a few undos once it's back on screen.
+const MAX_LOG_ENTRIES = 500;
+const PARKED_LOG_ENTRIES = 20;
+
+// Exported for testing
+// Replays all but the last `keep` entries into the log's base
+export function foldActionLog(log: ActionLog, keep = MAX_LOG_ENTRIES): ActionLog {
+  const drop = log.entries.length - keep;
+  if (drop <= 0) return log;
+  return { base: replayActionLog(log, drop), entries: log.entries.slice(drop) };
+}
+
+// Exported for testing
+// Bring saved players, venues, the avoid list and the ladder up to date with
+// a change to the session on screen. Working from the session rather than
+// the actions means an undo takes its writes back with it, and a replay that
+// rebuilds the same session writes nothing twice. A session coming on screen
+// brings its own copy of everything, which is left as it is.
+export function saveSessionChanges(previous: Session, session: Session): void {
+  if (previous.id !== session.id) return;
+
+  if (previous.startTime === null && session.startTime !== null) {
+    saveLocation(session.location, session.courts);
+  }
+
+  // Lifetime stats are saved when the session ends, and taken back if it's resumed
+  if (!previous.endTime && session.endTime) {
+    for (const player of session.players.filter(p => p.gamesPlayed > 0)) {
+      updatePlayerStats(player.name, player.skill, player.wins, player.losses, player.rating, player.category);
+    }
+  }
+  if (previous.endTime && !session.endTime) {
+    for (const player of previous.players.filter(p => p.gamesPlayed > 0)) {
+      revertPlayerStats(player.name, player.wins, player.losses);
+    }
+  }
+
+  if (previous.avoidList !== session.avoidList) {
+    const has = (list: AvoidPair[], pair: AvoidPair) => list.some(p => p.id === pair.id);
+    for (const pair of session.avoidList.filter(p => !has(previous.avoidList, p))) saveAvoidPair(pair);
+    for (const pair of previous.avoidList.filter(p => !has(session.avoidList, p))) deleteAvoidPair(pair);
+  }
+
+  if (previous.ladder !== session.ladder) saveLadder(session.ladder);
+}
+
+// Exported for testing
+export interface LoggedSessionState {
+  state: SessionState;
+  log: ActionLog;
+}
+
+// Undo and redo work on the log rather than the session, so they aren't logged
+// Switching sessions swaps in another session with its own log.
+export type LoggedAction =
+  | SessionAction
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'SWITCH_SESSION'; to: LoggedSessionState };
+
+// Exported for testing
+// Stamps each action with the time it ran and appends it to the log
+export function loggedSessionReducer({ state, log }: LoggedSessionState, action: LoggedAction): LoggedSessionState {
+  if (action.type === 'SWITCH_SESSION') return action.to;
+  if (action.type === 'UNDO' || action.type === 'REDO') {
+    // Lifetime stats are saved when the session ends, so its history is final
+    if (state.session.endTime) return { state, log };
+    const updatedLog = action.type === 'UNDO' ? undoLast(log) : redoLast(log);
+    if (updatedLog === log) return { state, log };
+    return { state: replayActionLog(updatedLog), log: updatedLog };
+  }
+
+  const { state: result, entry } = runLogEntry(state, { at: Date.now(), action });
+  return { state: result, log: foldActionLog(appendToLog(log, entry, result)) };
+}
+
+// Exported for testing
+// The action for a result picked from a court's "Other result" menu. An
+// injury names the player who retired, who then leaves the session.
+export function getOutcomeAction(
+  matchId: string,
+  outcome: Exclude<MatchOutcome, 'win'>,
+  losingTeam?: 1 | 2,
+  retiredPlayerId?: string
+): SessionAction {
+  if (outcome === 'draw' || outcome === 'cancelled') return { type: 'END_MATCH', matchId, outcome };
+  return {
+    type: 'RECORD_WINNER',
+    matchId,
+    winner: losingTeam === 1 ? 2 : 1,
+    outcome,
+    retiredPlayerId: outcome === 'injury' ? retiredPlayerId : undefined,
+  };
+}
+
+function applyAction(state: SessionState, action: SessionAction, rng: Rng): SessionState {
   switch (action.type) {
     case 'LOAD_SESSION':
-      return { ...state, session: action.session };
+      // Pairing history is derived from completed matches, so rebuild it on load
+      return {
+        ...state,
+        session: { ...action.session, history: buildPairingHistory(action.session.matches) },
+      };
 
     case 'SET_LOCATION':
       return {
@@ -197,28 +733,138 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
         session: { ...state.session, courts: Math.max(1, Math.min(10, action.courts)) },
       };
 
+    case 'SET_COURT_TIER':
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          courtTiers: { ...state.session.courtTiers, [action.court]: action.tier },
+        },
+      };
+
     case 'SET_GAME_MODE':
       return {
         ...state,
         session: { ...state.session, gameMode: action.gameMode },
       };
 
+    case 'SET_ROTATION_MODE':
+      return {
+        ...state,
+        session: { ...state.session, rotationMode: action.rotationMode },
+      };
+
+    case 'SET_WIN_STREAK_CAP':
+      return {
+        ...state,
+        session: { ...state.session, winStreakCap: Math.max(1, Math.min(10, action.cap)) },
+      };
+
+    case 'SET_POINTS_PER_MATCH':
+      return {
+        ...state,
+        session: { ...state.session, pointsPerMatch: Math.max(5, Math.min(64, action.points)) },
+      };
+
+    case 'SET_BEST_OF': {
+      // Series need an odd number of games so one side always takes a majority
+      const bestOf = Math.max(1, Math.min(7, action.bestOf));
+      return {
+        ...state,
+        session: { ...state.session, bestOf: bestOf % 2 === 0 ? bestOf + 1 : bestOf },
+      };
+    }
+
+    case 'SET_TIME_CAP':
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          timeCapMinutes: action.minutes === null ? null : Math.max(5, Math.min(90, action.minutes)),
+        },
+      };
+
+    case 'SET_TIME_CAP_POLICY':
+      return { ...state, session: { ...state.session, timeCapPolicy: action.policy } };
+
+    case 'SET_BREAK_EVERY':
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          breakEveryMinutes: action.minutes === null ? null : Math.max(15, Math.min(180, action.minutes)),
+        },
+      };
+
+    case 'SET_BREAK_LENGTH':
+      return {
+        ...state,
+        session: { ...state.session, breakLengthMinutes: Math.max(5, Math.min(30, action.minutes)) },
+      };
+
+    case 'SET_GAME_TO':
+      return {
+        ...state,
+        session: { ...state.session, gameTo: Math.max(5, Math.min(25, action.gameTo)) },
+      };
+
+    case 'SET_DOUBLE_ELIMINATION':
+      return {
+        ...state,
+        session: { ...state.session, doubleElimination: action.enabled },
+      };
+
+    case 'SET_MIXED_DOUBLES':
+      return {
+        ...state,
+        session: { ...state.session, mixedDoubles: action.enabled },
+      };
+
+    case 'SET_MIXED_FALLBACK':
+      return {
+        ...state,
+        session: { ...state.session, mixedFallbackMinutes: Math.max(0, Math.min(60, action.minutes)) },
+      };
+
+    case 'SET_QUEUE_PRIORITY': {
+      // Weights can't be negative (that would just invert another weight's meaning)
+      const policy = { ...state.session.queuePriority, ...action.policy };
+      for (const key of Object.keys(policy) as (keyof QueuePriorityPolicy)[]) {
+        policy[key] = Math.max(0, policy[key]);
+      }
+      return {
+        ...state,
+        session: { ...state.session, queuePriority: policy },
+      };
+    }
+
     case 'ADD_PLAYER': {
-      // If session is active, add player directly to queue (checked-in)
+      // If session is active, add player directly to queue (checked-in),
+      // unless they're already checked into another session
       const isActiveSession = state.session.startTime !== null && state.session.endTime === null;
+      const checkIn = isActiveSession && !action.checkedInElsewhere;
       const newPlayer: Player = {
-        id: generateId(),
+        id: nextId(),
         name: action.name.trim(),
         skill: null,
-        status: isActiveSession ? 'checked-in' : 'not-here',
+        rating: action.saved.rating,
+        category: action.saved.category,
+        isMember: action.saved.isMember,
+        status: checkIn ? 'checked-in' : 'not-here',
         gamesPlayed: 0,
         wins: 0,
         losses: 0,
+        gamesWon: 0,
+        gamesLost: 0,
         lastPartner: null,
         lockedPartnerId: null,
         courtsPlayed: [],
-        checkedInAt: isActiveSession ? Date.now() : null,
+        checkedInAt: checkIn ? currentTime() : null,
+        arrivedAt: checkIn ? currentTime() : null,
         lastMatchId: null,
+        winStreak: 0,
+        points: 0,
+        pointsAgainst: 0,
       };
       return {
         ...state,
@@ -230,21 +876,32 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
     }
 
     case 'ADD_PLAYER_WITH_SKILL': {
-      // If session is active, add player directly to queue (checked-in)
+      // If session is active, add player directly to queue (checked-in),
+      // unless they're already checked into another session
       const isActiveSession = state.session.startTime !== null && state.session.endTime === null;
+      const checkIn = isActiveSession && !action.checkedInElsewhere;
       const newPlayer: Player = {
-        id: generateId(),
+        id: nextId(),
         name: action.name.trim(),
         skill: action.skill,
-        status: isActiveSession ? 'checked-in' : 'not-here',
+        rating: action.saved.rating,
+        category: action.saved.category,
+        isMember: action.saved.isMember,
+        status: checkIn ? 'checked-in' : 'not-here',
         gamesPlayed: 0,
         wins: 0,
         losses: 0,
+        gamesWon: 0,
+        gamesLost: 0,
         lastPartner: null,
         lockedPartnerId: null,
         courtsPlayed: [],
-        checkedInAt: isActiveSession ? Date.now() : null,
+        checkedInAt: checkIn ? currentTime() : null,
+        arrivedAt: checkIn ? currentTime() : null,
         lastMatchId: null,
+        winStreak: 0,
+        points: 0,
+        pointsAgainst: 0,
       };
       return {
         ...state,
@@ -275,7 +932,84 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
         },
       };
 
+    case 'SET_PLAYER_CATEGORY':
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          players: state.session.players.map(p =>
+            p.id === action.playerId ? { ...p, category: action.category } : p
+          ),
+        },
+      };
+
+    case 'ADD_AVOID_PAIR': {
+      const player1 = action.player1.trim();
+      const player2 = action.player2.trim();
+      if (!player1 || !player2 || player1.toLowerCase() === player2.toLowerCase()) return state;
+      if (findAvoidPair(state.session.avoidList, player1, player2)) return state;
+
+      const pair: AvoidPair = { id: nextId(), player1, player2, reason: action.reason };
+      return {
+        ...state,
+        session: { ...state.session, avoidList: [...state.session.avoidList, pair] },
+      };
+    }
+
+    case 'REMOVE_AVOID_PAIR': {
+      const pair = state.session.avoidList.find(p => p.id === action.avoidPairId);
+      if (!pair) return state;
+
+      return {
+        ...state,
+        session: { ...state.session, avoidList: state.session.avoidList.filter(p => p.id !== pair.id) },
+      };
+    }
+
+    // The ladder is shared by every session on the device, so one coming back
+    // on screen picks up the moves made while it was parked
+    case 'LOAD_LADDER':
+      if (action.ladder.join('\n') === state.session.ladder.join('\n')) return state;
+      return { ...state, session: { ...state.session, ladder: action.ladder } };
+
+    case 'ADD_CHALLENGE': {
+      const { session } = state;
+      const challenger = session.players.find(p => p.id === action.challengerId);
+      const defender = session.players.find(p => p.id === action.defenderId);
+      if (!challenger || !defender) return state;
+      if (!canChallenge(session.ladder, challenger.name, defender.name, action.challengeRange)) {
+        return state;
+      }
+      const isDuplicate = session.challenges.some(c =>
+        c.challengerId === challenger.id && c.defenderId === defender.id);
+      if (isDuplicate) return state;
+
+      const challenge: Challenge = { id: nextId(), challengerId: challenger.id, defenderId: defender.id, matchId: null };
+      const newState = { ...state, session: { ...session, challenges: [...session.challenges, challenge] } };
+      const isActiveSession = session.startTime !== null && session.endTime === null;
+      return isActiveSession ? placeNextChallenge(newState) : newState;
+    }
+
+    case 'CANCEL_CHALLENGE':
+      // Only challenges still waiting; one on court is ended by recording it or pulling a player
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          challenges: state.session.challenges.filter(c => c.id !== action.challengeId || c.matchId !== null),
+        },
+      };
+
+    case 'SET_CHALLENGE_COURT': {
+      const court = action.court !== null && action.court >= 1 && action.court <= state.session.courts
+        ? action.court
+        : null;
+      return { ...state, session: { ...state.session, challengeCourt: court } };
+    }
+
     case 'CHECK_IN_PLAYER': {
+      const player = state.session.players.find(p => p.id === action.playerId);
+      if (!player) return state;
       const isActiveSession = state.session.startTime !== null && state.session.endTime === null;
       const newState = {
         ...state,
@@ -283,13 +1017,13 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
           ...state.session,
           players: state.session.players.map(p =>
             p.id === action.playerId
-              ? { ...p, status: 'checked-in' as const, checkedInAt: Date.now() }
+              ? { ...p, status: 'checked-in' as const, checkedInAt: currentTime(), arrivedAt: p.arrivedAt ?? currentTime() }
               : p
           ),
         },
       };
       // Try to fill courts if session is active and there are enough players
-      return isActiveSession ? fillAvailableCourts(newState) : newState;
+      return isActiveSession ? fillAvailableCourts(newState, rng) : newState;
     }
 
     case 'CHECK_OUT_PLAYER':
@@ -304,40 +1038,92 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
       };
 
     case 'START_SESSION': {
-      saveLocation(state.session.location, state.session.courts);
+      // Round-robin and Americano events schedule everyone who's checked in at the
+      // start; Mexicano starts with an empty schedule and adds rounds as it goes
+      const { rotationMode } = state.session;
+      const scheduleCourts = getScheduleCourts(state.session);
+      const roundRobin = rotationMode === 'round-robin' || rotationMode === 'americano'
+        ? generateRoundRobin(getCheckedInQueue(state.session.players).map(p => p.id),
+            state.session.gameMode, scheduleCourts.length, rng)
+        : null;
+      const schedule: RoundRobinSchedule | null = roundRobin
+        ? { ...roundRobin, rounds: roundRobin.rounds.map(r => placeRound(r, scheduleCourts)) }
+        : rotationMode === 'mexicano'
+          ? { rounds: [], currentRound: 0 }
+          : null;
+      const river: RiverState | null = state.session.rotationMode === 'river'
+        ? { round: 1, finishedMatchIds: [], moves: {} }
+        : null;
+      // Tournaments seed everyone who's checked in (or their locked pairs)
+      const bracket: Bracket | null = rotationMode === 'tournament'
+        ? createBracket(nextId(), createEntrants(getCheckedInQueue(state.session.players), state.session.gameMode),
+            state.session.doubleElimination)
+        : null;
       const startedState = {
         ...state,
         session: {
           ...state.session,
-          startTime: Date.now(),
+          schedule,
+          river,
+          bracket,
+          startTime: currentTime(),
         },
         screen: 'play' as AppScreen,
       };
-      return fillAvailableCourts(startedState);
+      return fillAvailableCourts(startedState, rng);
     }
 
     case 'END_SESSION': {
-      // Save player stats to the persistent database
-      for (const player of state.session.players) {
-        if (player.gamesPlayed > 0) {
-          updatePlayerStats(player.name, player.skill, player.wins, player.losses);
-        }
-      }
-
-      // Note: Supabase sync is handled by the SessionProvider via effect
-      // to allow setting the synced session ID after async operation
-
+      // Note: lifetime stats and the Supabase sync are handled by the
+      // SessionProvider via effects, the sync so it can set the synced
+      // session ID after the async operation
       return {
         ...state,
         session: {
           ...state.session,
-          endTime: Date.now(),
+          endTime: currentTime(),
         },
         screen: 'leaderboard',
         syncedSessionId: null, // Will be set after async sync
       };
     }
 
+    case 'PAUSE_PLAY': {
+      const { session } = state;
+      if (session.startTime === null || session.endTime || isPaused(session.pauses)) return state;
+      const start = currentTime();
+      const pause: SessionPause = {
+        start,
+        end: null,
+        until: action.scheduled ? start + session.breakLengthMinutes * 60 * 1000 : null,
+        scheduled: action.scheduled ?? false,
+      };
+      return { ...state, session: { ...session, pauses: [...session.pauses, pause] } };
+    }
+
+    case 'RESUME_PLAY': {
+      const { session } = state;
+      if (!isPaused(session.pauses)) return state;
+      const pauses = session.pauses.map((p, i) =>
+        i === session.pauses.length - 1 ? { ...p, end: currentTime() } : p);
+      return dealHeldMatches({ ...state, session: { ...session, pauses } });
+    }
+
+    case 'RESUME_SESSION': {
+      if (!state.session.endTime) return state;
+
+      // Anyone who has since checked into another session stays there
+      const players = state.session.players.map(p =>
+        p.status === 'checked-in' && action.checkedInElsewhere.includes(p.id) ? { ...p, status: 'not-here' as const } : p);
+
+      return {
+        ...state,
+        session: { ...state.session, endTime: null, players },
+        screen: 'play',
+        syncedSessionId: null,
+      };
+    }
+
     case 'RECORD_WINNER': {
       const match = state.session.activeMatches.find(m => m.id === action.matchId);
       if (!match) return state;
@@ -346,23 +1132,56 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
       const losingTeam = action.winner === 1 ? match.team2 : match.team1;
 
       // Update match
+      const timeRemaining = getTimeRemaining(match, state.session.timeCapMinutes, currentTime(), state.session.pauses);
       const completedMatch: Match = {
         ...match,
         winner: action.winner,
-        endTime: Date.now(),
+        score: action.score ?? null,
+        timeCapped: timeRemaining !== null && timeRemaining <= 0,
+        outcome: action.outcome ?? 'win',
+        endTime: currentTime(),
       };
+      const matchPoints = getMatchPoints(completedMatch);
+      const winnerPoints = action.winner === 1 ? matchPoints.team1 : matchPoints.team2;
+      const loserPoints = action.winner === 1 ? matchPoints.team2 : matchPoints.team1;
+      const winnerGames = getGameRecord(completedMatch, action.winner);
+
+      // Winners-stay: the winning team keeps the court until the team's longest
+      // streak reaches the cap, then everyone rotates off and streaks reset
+      const teamStreak = Math.max(
+        ...winningTeam.map(id => state.session.players.find(p => p.id === id)?.winStreak ?? 0)
+      ) + 1;
+      const challenge = state.session.challenges.find(c => c.matchId === match.id);
+      const winnersStay = state.session.rotationMode === 'winners-stay' && !challenge &&
+        teamStreak < state.session.winStreakCap;
+      const cappedOff = state.session.rotationMode === 'winners-stay' && !challenge && !winnersStay;
+
+      // A forfeit or retirement still counts as a win and a loss, but says
+      // nothing about skill, so ratings stay put
+      const newRatings = isRatedOutcome(completedMatch.outcome!)
+        ? calculateRatingChanges(
+          state.session.players.filter(p => winningTeam.includes(p.id)),
+          state.session.players.filter(p => losingTeam.includes(p.id))
+        )
+        : null;
 
       // Update player stats and return them to queue
       // IMPORTANT: Update checkedInAt to NOW so they go to back of queue
       // Also set lastMatchId to help avoid putting same 4 players together again
-      const now = Date.now();
-      const updatedPlayers = state.session.players.map(p => {
+      const now = currentTime();
+      let updatedPlayers = state.session.players.map(p => {
         if (winningTeam.includes(p.id)) {
           return {
             ...p,
             status: 'checked-in' as const,
             gamesPlayed: p.gamesPlayed + 1,
             wins: p.wins + 1,
+            gamesWon: p.gamesWon + winnerGames.won,
+            gamesLost: p.gamesLost + winnerGames.lost,
+            points: p.points + winnerPoints,
+            pointsAgainst: p.pointsAgainst + loserPoints,
+            winStreak: cappedOff ? 0 : p.winStreak + 1,
+            rating: newRatings ? newRatings[p.id] : p.rating,
             checkedInAt: now, // Go to back of queue
             lastMatchId: match.id, // Track for variety in matching
           };
@@ -373,12 +1192,53 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
             status: 'checked-in' as const,
             gamesPlayed: p.gamesPlayed + 1,
             losses: p.losses + 1,
+            gamesWon: p.gamesWon + winnerGames.lost,
+            gamesLost: p.gamesLost + winnerGames.won,
+            points: p.points + loserPoints,
+            pointsAgainst: p.pointsAgainst + winnerPoints,
+            winStreak: 0,
+            rating: newRatings ? newRatings[p.id] : p.rating,
             checkedInAt: now, // Go to back of queue
             lastMatchId: match.id, // Track for variety in matching
           };
         }
         return p;
       });
+      // A player who retired hurt is done for the session
+      if (action.retiredPlayerId) {
+        updatedPlayers = updatedPlayers.map(p =>
+          p.id === action.retiredPlayerId ? { ...p, status: 'left' as const } : p
+        );
+      }
+      const activeMatches = state.session.activeMatches.filter(m => m.id !== action.matchId);
+
+      // Winners-stay: refill the court right away with the winners plus challengers
+      // from the front of the queue (losers are at the back)
+      if (winnersStay) {
+        const queue = getEligibleQueue({ ...state.session, players: updatedPlayers }, match.court)
+          .filter(p => !winningTeam.includes(p.id));
+        const stayers = winningTeam
+          .map(id => updatedPlayers.find(p => p.id === id))
+          .filter(Boolean) as Player[];
+        const challengers = selectChallengers(queue, state.session.gameMode,
+          isMixedDoubles(state.session) && isMixedTeam(stayers), getBlockedPairs(state.session), stayers,
+          state.session.queuePriority);
+        if (challengers) {
+          const nextMatch = action.winner === 1
+            ? createMatch(match.court, stayers, challengers, nextId())
+            : createMatch(match.court, challengers, stayers, nextId());
+          updatedPlayers = assignPlayersToMatch(updatedPlayers, nextMatch, state.session.gameMode);
+          activeMatches.push(nextMatch);
+        }
+      }
+
+      // Challenge: a win by the lower-ranked player swaps them on the ladder
+      let ladder = state.session.ladder;
+      if (challenge) {
+        const challenger = state.session.players.find(p => p.id === challenge.challengerId)!;
+        const defender = state.session.players.find(p => p.id === challenge.defenderId)!;
+        ladder = applyChallengeResult(ladder, challenger.name, defender.name, winningTeam.includes(challenger.id));
+      }
 
       const newState = {
         ...state,
@@ -386,82 +1246,156 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
           ...state.session,
           players: updatedPlayers,
           matches: [...state.session.matches, completedMatch],
-          activeMatches: state.session.activeMatches.filter(m => m.id !== action.matchId),
-        },
-        undoAction: {
-          type: 'winner' as const,
-          data: { matchId: action.matchId, winner: action.winner, match: completedMatch },
-          timestamp: Date.now(),
+          activeMatches,
+          history: addMatchToHistory(state.session.history, completedMatch),
+          ladder,
+          challenges: state.session.challenges.filter(c => c !== challenge),
         },
       };
 
-      // Don't auto-fill - let staff manually start next match
-      // This allows waiting for other courts to finish so players can mix
-      return newState;
+      // Tournament: advance the winner (dropping the loser to the losers' bracket
+      // in double elimination) and start whatever matches that makes ready
+      const bracketMatch = getBracketMatch(state.session, match.id);
+      if (bracketMatch) {
+        const bracket = state.session.bracket!;
+        const winner = bracket.entrants.find(e => e.playerIds.includes(winningTeam[0]))!;
+        const advancedState = {
+          ...newState,
+          session: { ...newState.session, bracket: recordBracketResult(bracket, bracketMatch.id, winner.id) },
+        };
+        return placeNextChallenge(dealBracketMatches(advancedState));
+      }
+
+      // Round-robin: once the last court of a round finishes, deal the next round
+      if (isScheduled(newState.session)) {
+        return placeNextChallenge(dealScheduledRound(newState));
+      }
+
+      // River: wait for every court to finish, then move everyone at once
+      // (challenges are played alongside the river, not part of it)
+      if (isRiver(newState.session) && challenge) return placeNextChallenge(newState);
+      if (isRiver(newState.session)) {
+        const river = newState.session.river!;
+        const riverState = {
+          ...newState,
+          session: {
+            ...newState.session,
+            river: { ...river, finishedMatchIds: [...river.finishedMatchIds, match.id] },
+          },
+        };
+        if (activeMatches.some(m => !isChallengeMatch(state.session, m.id))) return riverState;
+
+        return placeNextChallenge(dealRiverRound(riverState));
+      }
+
+      // Standard rotation doesn't auto-fill - let staff manually start next match
+      // This allows waiting for other courts to finish so players can mix.
+      // The challenge court still takes the next challenge as soon as it's free.
+      return placeNextChallenge(newState);
     }
 
-    case 'UNDO_WINNER': {
-      const undoData = state.undoAction?.data as { matchId: string; winner: number; match: Match } | undefined;
-      if (!undoData || state.undoAction?.type !== 'winner') return state;
+    // A match that ends without a winner. A cancelled match is kept for the
+    // record but counts for nothing; a draw is a game played for everyone.
+    case 'END_MATCH': {
+      const match = state.session.activeMatches.find(m => m.id === action.matchId);
+      if (!match) return state;
+      const matchPlayerIds = [...match.team1, ...match.team2];
+      const endedMatch: Match = { ...match, winner: null, outcome: action.outcome, endTime: currentTime() };
 
-      const match = undoData.match;
-      const winningTeam = undoData.winner === 1 ? match.team1 : match.team2;
-      const losingTeam = undoData.winner === 1 ? match.team2 : match.team1;
+      if (action.outcome === 'cancelled') {
+        const session = callOffMatch(state.session, match);
+        return placeNextChallenge({
+          ...state,
+          session: {
+            ...session,
+            players: session.players.map(p => matchPlayerIds.includes(p.id) ? { ...p, winStreak: 0 } : p),
+            matches: [...session.matches, endedMatch],
+          },
+        });
+      }
 
-      // Find and remove any players who were auto-assigned to fill the court
-      // These are players currently playing on the same court
-      const replacementMatch = state.session.activeMatches.find(m => m.court === match.court);
-      const replacementPlayers = replacementMatch
-        ? [...replacementMatch.team1, ...replacementMatch.team2]
-        : [];
+      // Points formats rank on the score, so a game there can only be drawn
+      // by scoring it level, and each side keeps the points it scored
+      const pointsTie = isPointsFormat(state.session.rotationMode) && action.score !== undefined &&
+        action.score.team1 === action.score.team2;
+      if (!(allowsDraw(state.session.rotationMode) || pointsTie) || isChallengeMatch(state.session, match.id)) return state;
+      const score = action.score ?? { team1: 0, team2: 0 };
+      const now = currentTime();
+      const drawnState = {
+        ...state,
+        session: {
+          ...state.session,
+          players: state.session.players.map(p => matchPlayerIds.includes(p.id)
+            ? {
+              ...p,
+              status: 'checked-in' as const,
+              gamesPlayed: p.gamesPlayed + 1,
+              points: p.points + (match.team1.includes(p.id) ? score.team1 : score.team2),
+              pointsAgainst: p.pointsAgainst + (match.team1.includes(p.id) ? score.team2 : score.team1),
+              winStreak: 0,
+              checkedInAt: now, // Go to back of queue
+              lastMatchId: match.id,
+            }
+            : p
+          ),
+          matches: [...state.session.matches, { ...endedMatch, score: action.score ?? null }],
+          activeMatches: state.session.activeMatches.filter(m => m.id !== match.id),
+          history: addMatchToHistory(state.session.history, endedMatch),
+        },
+      };
+      return isScheduled(drawnState.session) ? dealScheduledRound(drawnState) : drawnState;
+    }
 
-      // Reverse player stats and put original players back on court
-      const updatedPlayers = state.session.players.map(p => {
-        if (winningTeam.includes(p.id)) {
-          return {
-            ...p,
-            status: 'playing' as const,
-            gamesPlayed: p.gamesPlayed - 1,
-            wins: p.wins - 1,
-          };
-        }
-        if (losingTeam.includes(p.id)) {
-          return {
-            ...p,
-            status: 'playing' as const,
-            gamesPlayed: p.gamesPlayed - 1,
-            losses: p.losses - 1,
-          };
-        }
-        // Return replacement players to queue
-        if (replacementPlayers.includes(p.id)) {
-          return {
-            ...p,
-            status: 'checked-in' as const,
-          };
-        }
-        return p;
-      });
+    // Best-of-N: a game that doesn't decide the series keeps the match on
+    // court; the deciding game completes it like any other result
+    case 'RECORD_GAME': {
+      const match = state.session.activeMatches.find(m => m.id === action.matchId);
+      if (!match) return state;
+      const games = [...match.games, { winner: action.winner, score: action.score ?? null, rallies: match.rallies }];
+      const withGame = {
+        ...state,
+        session: {
+          ...state.session,
+          activeMatches: state.session.activeMatches.map(m =>
+            m.id === action.matchId ? { ...m, games, rallies: [] } : m
+          ),
+        },
+      };
+      const seriesWinner = getSeriesWinner(games, state.session.bestOf);
+      if (seriesWinner === null) return withGame;
+      return applyAction(withGame, { type: 'RECORD_WINNER', matchId: action.matchId, winner: seriesWinner }, rng);
+    }
 
-      // Restore the match to active and remove from completed
-      const restoredMatch: Match = {
-        ...match,
-        winner: null,
-        endTime: null,
+    case 'UNDO_GAME': {
+      const match = state.session.activeMatches.find(m => m.id === action.matchId);
+      const lastGame = match?.games[match.games.length - 1];
+      if (!match || !lastGame) return state;
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          activeMatches: state.session.activeMatches.map(m =>
+            m.id === action.matchId ? { ...m, games: match.games.slice(0, -1), rallies: lastGame.rallies } : m
+          ),
+        },
       };
+    }
 
+    case 'RECORD_RALLY':
+    case 'UNDO_RALLY': {
+      const match = state.session.activeMatches.find(m => m.id === action.matchId);
+      if (!match) return state;
+      const rallies = action.type === 'RECORD_RALLY'
+        ? [...match.rallies, action.winner]
+        : match.rallies.slice(0, -1);
       return {
         ...state,
         session: {
           ...state.session,
-          players: updatedPlayers,
-          matches: state.session.matches.filter(m => m.id !== action.matchId),
-          activeMatches: [
-            ...state.session.activeMatches.filter(m => m.court !== match.court),
-            restoredMatch,
-          ],
+          activeMatches: state.session.activeMatches.map(m =>
+            m.id === action.matchId ? { ...m, rallies } : m
+          ),
         },
-        undoAction: null,
       };
     }
 
@@ -472,8 +1406,22 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
       const removedPlayer = state.session.players.find(p => p.id === action.playerId);
       if (!removedPlayer) return state;
 
-      const queue = getCheckedInQueue(state.session.players);
-      const substitute = findSubstitute(queue, removedPlayer);
+      // Nobody can stand in for a ladder challenge or a tournament entrant, so the match is called off
+      if (isChallengeMatch(state.session, match.id) || getBracketMatch(state.session, match.id)) {
+        const session = callOffMatch(state.session, match);
+        return placeNextChallenge({
+          ...state,
+          session: {
+            ...session,
+            players: session.players.map(p => p.id === action.playerId ? { ...p, status: 'left' } : p),
+          },
+        });
+      }
+
+      const queue = getEligibleQueue(state.session, match.court);
+      const substitute = findSubstitute(queue, removedPlayer, isMixedDoubles(state.session),
+        getBlockedPairs(state.session), getCourtPlayers(state.session, match, removedPlayer.id),
+        state.session.queuePriority);
 
       if (!substitute) {
         // No substitute available - just remove the player and mark them as left
@@ -536,23 +1484,18 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
     case 'SET_SCREEN':
       return { ...state, screen: action.screen };
 
-    case 'SET_UNDO':
-      return { ...state, undoAction: action.action };
-
     case 'NEW_SESSION':
-      clearSession();
       return {
         session: createInitialSession(),
         screen: 'setup',
-        undoAction: null,
         syncedSessionId: null,
       };
 
     case 'FILL_COURTS':
-      return fillAvailableCourts(state);
+      return fillAvailableCourts(state, rng);
 
     case 'FILL_COURT':
-      return fillSingleCourt(state, action.court);
+      return fillSingleCourt(state, action.court, rng);
 
     case 'LOCK_PARTNERS': {
       // Lock two players together as partners
@@ -599,26 +1542,28 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
       const pulledPlayer = state.session.players.find(p => p.id === action.playerId);
       if (!pulledPlayer) return state;
 
-      const queue = getCheckedInQueue(state.session.players);
-      const substitute = findSubstitute(queue, pulledPlayer);
-      const now = Date.now();
+      // Nobody can stand in for a ladder challenge or a tournament entrant
+      const substitute = isChallengeMatch(state.session, match.id) || getBracketMatch(state.session, match.id)
+        ? null
+        : findSubstitute(getEligibleQueue(state.session, match.court), pulledPlayer, isMixedDoubles(state.session),
+          getBlockedPairs(state.session), getCourtPlayers(state.session, match, pulledPlayer.id),
+          state.session.queuePriority);
+      const now = currentTime();
 
       if (!substitute) {
-        // No substitute available - cancel match, all players return to queue
-        const matchPlayerIds = [...match.team1, ...match.team2];
-        return {
-          ...state,
-          session: {
-            ...state.session,
-            players: state.session.players.map(p => {
-              if (matchPlayerIds.includes(p.id)) {
-                return { ...p, status: 'checked-in', checkedInAt: now };
-              }
-              return p;
-            }),
-            activeMatches: state.session.activeMatches.filter(m => m.id !== action.matchId),
-          },
-        };
+        // No substitute available - the match ends with the outcome staff chose:
+        // the pulled player's side forfeits or retires hurt, or it's called off
+        const outcome = action.outcome ?? 'cancelled';
+        if (outcome === 'cancelled') {
+          return applyAction(state, { type: 'END_MATCH', matchId: match.id, outcome }, rng);
+        }
+        return applyAction(state, {
+          type: 'RECORD_WINNER',
+          matchId: match.id,
+          winner: match.team1.includes(pulledPlayer.id) ? 2 : 1,
+          outcome,
+          retiredPlayerId: outcome === 'injury' ? pulledPlayer.id : undefined,
+        }, rng);
       }
 
       // Substitute found - swap them in, pulled player goes to back of queue
@@ -644,7 +1589,7 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
           players: state.session.players.map(p => {
             if (p.id === action.playerId) {
               // Pulled player goes back to queue
-              return { ...p, status: 'checked-in', checkedInAt: now };
+              return { ...p, status: 'checked-in', checkedInAt: now, winStreak: 0 };
             }
             if (p.id === substitute.id) {
               // Substitute takes their spot
@@ -667,7 +1612,14 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
     }
 
     case 'SET_SYNCED_SESSION_ID':
-      return { ...state, syncedSessionId: action.sessionId };
+      // The cloud now holds what this sync sent, so the next sync corrects it
+      // rather than counting the session twice. A session resumed, or ended
+      // again, while the sync was under way still needs syncing.
+      return {
+        ...state,
+        session: { ...state.session, previousSync: action.sync },
+        syncedSessionId: state.session.endTime === action.endTime ? action.sessionId : null,
+      };
 
     default:
       return state;
@@ -677,41 +1629,76 @@ export function sessionReducer(state: SessionState, action: SessionAction): Sess
 interface SessionContextValue {
   session: Session;
   screen: AppScreen;
-  undoAction: UndoAction | null;
   syncedSessionId: string | null;
+  actionLog: ActionLog;
+  otherSessions: Session[]; // Other sessions on this device, parked while this one is on screen
+  playersElsewhere: Record<string, string>; // Lowercase name -> location of the other session they're in
   checkedInCount: number;
   canStartSession: boolean;
   queue: Player[];
   dispatch: React.Dispatch<SessionAction>;
   setLocation: (location: string) => void;
   setCourts: (courts: number) => void;
+  setCourtTier: (court: number, tier: CourtTier) => void;
   setGameMode: (gameMode: GameMode) => void;
+  setRotationMode: (rotationMode: RotationMode) => void;
+  setWinStreakCap: (cap: number) => void;
+  setPointsPerMatch: (points: number) => void;
+  setGameTo: (gameTo: number) => void;
+  setBestOf: (bestOf: number) => void;
+  setTimeCap: (minutes: number | null) => void;
+  setTimeCapPolicy: (policy: TimeCapPolicy) => void;
+  setBreakEvery: (minutes: number | null) => void;
+  setBreakLength: (minutes: number) => void;
+  setDoubleElimination: (enabled: boolean) => void;
+  setMixedDoubles: (enabled: boolean) => void;
+  setMixedFallback: (minutes: number) => void;
+  setQueuePriority: (policy: Partial<QueuePriorityPolicy>) => void;
   addPlayer: (name: string) => void;
   addPlayerWithSkill: (name: string, skill: SkillLevel) => void;
   removePlayer: (playerId: string) => void;
   setPlayerSkill: (playerId: string, skill: SkillLevel) => void;
+  setPlayerCategory: (playerId: string, category: PlayerCategory) => void;
+  addAvoidPair: (player1: string, player2: string, reason: string | null) => void;
+  removeAvoidPair: (avoidPairId: string) => void;
+  addChallenge: (challengerId: string, defenderId: string) => void;
+  cancelChallenge: (challengeId: string) => void;
+  setChallengeCourt: (court: number | null) => void;
   checkInPlayer: (playerId: string) => void;
   checkOutPlayer: (playerId: string) => void;
   startSession: () => void;
   endSession: () => void;
-  recordWinner: (matchId: string, winner: 1 | 2) => void;
-  undoWinner: (matchId: string) => void;
+  resumeSession: () => void; // Reopens a session ended by mistake
+  pausePlay: (scheduled?: boolean) => void;
+  resumePlay: () => void;
+  recordWinner: (matchId: string, winner: 1 | 2, score?: MatchScore) => void;
+  recordScore: (matchId: string, score: MatchScore) => void;
+  recordGame: (matchId: string, winner: 1 | 2, score?: MatchScore) => void;
+  undoGame: (matchId: string) => void;
+  recordRally: (matchId: string, winner: 1 | 2) => void;
+  undoRally: (matchId: string) => void;
+  recordOutcome: (matchId: string, outcome: Exclude<MatchOutcome, 'win'>, losingTeam?: 1 | 2, retiredPlayerId?: string) => void;
   removeFromCourt: (playerId: string, matchId: string) => void;
   setScreen: (screen: AppScreen) => void;
-  clearUndo: () => void;
+  undo: () => void; // Takes back the latest staff action still in effect
+  redo: () => void;
   newSession: () => void;
+  switchSession: (sessionId: string) => void; // Parks this session and brings back another
+  startAnotherSession: () => void; // Parks this session and sets up a new one alongside it
   fillCourts: () => void;
   fillCourt: (court: number) => void;
   lockPartners: (player1Id: string, player2Id: string) => void;
   unlockPartner: (playerId: string) => void;
-  pullFromCourt: (playerId: string, matchId: string) => void;
+  pullFromCourt: (playerId: string, matchId: string, outcome?: 'cancelled' | 'forfeit' | 'injury') => void;
 }
 
 const SessionContext = createContext<SessionContextValue | null>(null);
 
-function getInitialState(): SessionState {
+function getInitialState(log: ActionLog | null): SessionState {
   const saved = loadSession();
   const syncedSessionId = getSyncedSessionId();
+  // No usable snapshot (missing or corrupted): rebuild it from the log
+  if (!saved && log) return replayActionLog(log);
   if (saved) {
     let screen: AppScreen = 'setup';
     if (saved.endTime) {
@@ -722,20 +1709,38 @@ function getInitialState(): SessionState {
     return {
       session: saved,
       screen,
-      undoAction: null,
       syncedSessionId,
     };
   }
   return {
     session: createInitialSession(),
     screen: 'setup',
-    undoAction: null,
     syncedSessionId: null,
   };
 }
 
+function getInitialLoggedState(): LoggedSessionState {
+  const savedLog = loadActionLog();
+  const state = getInitialState(savedLog);
+  // A log left over from some other session can't rebuild this one
+  const log = savedLog && savedLog.base.session.id === state.session.id
+    ? savedLog
+    : createActionLog(state);
+  return { state, log };
+}
+
+function getSavedPlayerDetails(name: string): SavedPlayerDetails {
+  const saved = getOrCreateSavedPlayer(name);
+  return { rating: saved?.rating ?? null, category: saved?.category ?? null, isMember: saved?.isMember ?? false };
+}
+
 export function SessionProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(sessionReducer, null, getInitialState);
+  const [{ state, log }, dispatch] = useReducer(loggedSessionReducer, null, getInitialLoggedState);
+
+  // Save the action log alongside the snapshot
+  useEffect(() => {
+    saveActionLog(log);
+  }, [log]);
 
   // Save session to localStorage on changes
   useEffect(() => {
@@ -752,42 +1757,92 @@ export function SessionProvider({ children }: { children: ReactNode }) {
     processSyncQueue().catch(console.error);
   }, []);
 
-  // Auto-clear undo after 10 seconds
+  // Publish the bracket as it changes, for the public bracket page
   useEffect(() => {
-    if (state.undoAction) {
-      const timer = setTimeout(() => {
-        dispatch({ type: 'SET_UNDO', action: null });
-      }, 10000);
-      return () => clearTimeout(timer);
+    if (state.session.bracket && getLocalVenue()) {
+      saveBracketToCloud(state.session.bracket, state.session.location).catch(console.error);
     }
-  }, [state.undoAction]);
+  }, [state.session.bracket, state.session.location]);
+
+  // Save what the session changes outside itself: venues, lifetime stats,
+  // the avoid list and the ladder
+  const previousSession = useRef(state.session);
+  useEffect(() => {
+    saveSessionChanges(previousSession.current, state.session);
+    previousSession.current = state.session;
+  }, [state.session]);
+
+  // The session on screen, for syncs that finish after staff switch away
+  const activeSessionId = useRef(state.session.id);
+  useEffect(() => {
+    activeSessionId.current = state.session.id;
+  }, [state.session.id]);
+
+  // Other live sessions on this device, parked while this one is on screen
+  const [otherSessions, setOtherSessions] = useState(() => getParkedSessions().map(p => p.state.session));
+  const playersElsewhere = useMemo(() => getPlayersCheckedInElsewhere(otherSessions), [otherSessions]);
 
   // Sync to Supabase when session ends
+  // Sessions with a sync under way; syncing one twice at once would count it twice
+  const syncing = useRef(new Set<string>());
   useEffect(() => {
-    if (state.session.endTime && !state.syncedSessionId && getLocalVenue()) {
+    if (state.session.endTime && !state.syncedSessionId && getLocalVenue() && !syncing.current.has(state.session.id)) {
+      const localSessionId = state.session.id;
+      const endTime = state.session.endTime;
+      const nameOf = (id: string) => state.session.players.find(p => p.id === id)?.name ?? '?';
       const syncSession = async () => {
-        const sessionId = await createSessionAndSync({
+        const data: SessionSyncData = {
           location: state.session.location,
           courts: state.session.courts,
-          totalGames: state.session.matches.length,
+          totalGames: getPlayedMatches(state.session.matches).length,
           startedAt: state.session.startTime ? new Date(state.session.startTime).toISOString() : null,
           players: state.session.players
             .filter(p => p.gamesPlayed > 0)
             .map(p => ({
               name: p.name,
               skill: p.skill,
+              rating: p.rating,
               wins: p.wins,
               losses: p.losses,
               gamesPlayed: p.gamesPlayed,
+              gamesWon: p.gamesWon,
+              gamesLost: p.gamesLost,
+              pointsFor: p.points,
+              pointsAgainst: p.pointsAgainst,
             })),
-        });
-        if (sessionId) {
-          dispatch({ type: 'SET_SYNCED_SESSION_ID', sessionId });
+          // Every scored game, including each game of a best-of-N series
+          matches: state.session.matches.flatMap(m =>
+            (m.games.length > 0 ? m.games.map(g => g.score) : [m.score])
+              .filter((score): score is MatchScore => score !== null)
+              .map(score => ({
+                court: m.court,
+                team1: m.team1.map(nameOf),
+                team2: m.team2.map(nameOf),
+                team1Score: score.team1,
+                team2Score: score.team2,
+              }))),
+        };
+        // A resumed session already has cloud rows to correct
+        const previousSync = state.session.previousSync;
+        const sessionId = await (previousSync ? resyncSession(previousSync, data) : createSessionAndSync(data))
+          .finally(() => syncing.current.delete(localSessionId));
+        if (!sessionId) return;
+        const sync: SyncedSessionRecord = {
+          sessionId,
+          players: data.players.map(p => ({ name: p.name, wins: p.wins, losses: p.losses, gamesPlayed: p.gamesPlayed })),
+        };
+        // Staff may have switched to another session while this one synced
+        const synced: SessionAction = { type: 'SET_SYNCED_SESSION_ID', sessionId, sync, endTime };
+        if (activeSessionId.current === localSessionId) {
+          dispatch(synced);
+        } else {
+          updateParkedSession(localSessionId, logged => loggedSessionReducer(logged, synced));
         }
       };
+      syncing.current.add(localSessionId);
       syncSession().catch(console.error);
     }
-  }, [state.session.endTime, state.syncedSessionId, state.session.location, state.session.courts, state.session.matches.length, state.session.startTime, state.session.players]);
+  }, [state.session.id, state.session.endTime, state.syncedSessionId, state.session.location, state.session.courts, state.session.matches.length, state.session.startTime, state.session.players, state.session.matches, state.session.previousSync]);
 
   const checkedInCount = state.session.players.filter(
     p => p.status === 'checked-in' || p.status === 'playing'
@@ -796,13 +1851,16 @@ export function SessionProvider({ children }: { children: ReactNode }) {
   const minPlayers = state.session.gameMode === 'doubles' ? 4 : 2;
   const canStartSession = checkedInCount >= minPlayers && state.session.location.trim() !== '';
 
-  const queue = getCheckedInQueue(state.session.players);
+  // Shown in the same order matching picks from
+  const queue = prioritizeQueue(getCheckedInQueue(state.session.players), state.session.queuePriority);
 
   const value: SessionContextValue = {
     session: state.session,
     screen: state.screen,
-    undoAction: state.undoAction,
     syncedSessionId: state.syncedSessionId,
+    actionLog: log,
+    otherSessions,
+    playersElsewhere,
     checkedInCount,
     canStartSession,
     queue,
@@ -811,18 +1869,64 @@ export function SessionProvider({ children }: { children: ReactNode }) {
       dispatch({ type: 'SET_LOCATION', location }), []),
     setCourts: useCallback((courts: number) =>
       dispatch({ type: 'SET_COURTS', courts }), []),
+    setCourtTier: useCallback((court: number, tier: CourtTier) =>
+      dispatch({ type: 'SET_COURT_TIER', court, tier }), []),
     setGameMode: useCallback((gameMode: GameMode) =>
       dispatch({ type: 'SET_GAME_MODE', gameMode }), []),
+    setRotationMode: useCallback((rotationMode: RotationMode) =>
+      dispatch({ type: 'SET_ROTATION_MODE', rotationMode }), []),
+    setWinStreakCap: useCallback((cap: number) =>
+      dispatch({ type: 'SET_WIN_STREAK_CAP', cap }), []),
+    setPointsPerMatch: useCallback((points: number) =>
+      dispatch({ type: 'SET_POINTS_PER_MATCH', points }), []),
+    setGameTo: useCallback((gameTo: number) =>
+      dispatch({ type: 'SET_GAME_TO', gameTo }), []),
+    setBestOf: useCallback((bestOf: number) =>
+      dispatch({ type: 'SET_BEST_OF', bestOf }), []),
+    setTimeCap: useCallback((minutes: number | null) =>
+      dispatch({ type: 'SET_TIME_CAP', minutes }), []),
+    setTimeCapPolicy: useCallback((policy: TimeCapPolicy) =>
+      dispatch({ type: 'SET_TIME_CAP_POLICY', policy }), []),
+    setBreakEvery: useCallback((minutes: number | null) =>
+      dispatch({ type: 'SET_BREAK_EVERY', minutes }), []),
+    setBreakLength: useCallback((minutes: number) =>
+      dispatch({ type: 'SET_BREAK_LENGTH', minutes }), []),
+    setDoubleElimination: useCallback((enabled: boolean) =>
+      dispatch({ type: 'SET_DOUBLE_ELIMINATION', enabled }), []),
+    setMixedDoubles: useCallback((enabled: boolean) =>
+      dispatch({ type: 'SET_MIXED_DOUBLES', enabled }), []),
+    setMixedFallback: useCallback((minutes: number) =>
+      dispatch({ type: 'SET_MIXED_FALLBACK', minutes }), []),
+    setQueuePriority: useCallback((policy: Partial<QueuePriorityPolicy>) =>
+      dispatch({ type: 'SET_QUEUE_PRIORITY', policy }), []),
     addPlayer: useCallback((name: string) =>
-      dispatch({ type: 'ADD_PLAYER', name }), []),
+      dispatch({ type: 'ADD_PLAYER', name, saved: getSavedPlayerDetails(name),
+        checkedInElsewhere: isCheckedInElsewhere(name, playersElsewhere) }), [playersElsewhere]),
     addPlayerWithSkill: useCallback((name: string, skill: SkillLevel) =>
-      dispatch({ type: 'ADD_PLAYER_WITH_SKILL', name, skill }), []),
+      dispatch({ type: 'ADD_PLAYER_WITH_SKILL', name, skill, saved: getSavedPlayerDetails(name),
+        checkedInElsewhere: isCheckedInElsewhere(name, playersElsewhere) }), [playersElsewhere]),
     removePlayer: useCallback((playerId: string) =>
       dispatch({ type: 'REMOVE_PLAYER', playerId }), []),
     setPlayerSkill: useCallback((playerId: string, skill: SkillLevel) =>
       dispatch({ type: 'SET_PLAYER_SKILL', playerId, skill }), []),
-    checkInPlayer: useCallback((playerId: string) =>
-      dispatch({ type: 'CHECK_IN_PLAYER', playerId }), []),
+    setPlayerCategory: useCallback((playerId: string, category: PlayerCategory) =>
+      dispatch({ type: 'SET_PLAYER_CATEGORY', playerId, category }), []),
+    addAvoidPair: useCallback((player1: string, player2: string, reason: string | null) =>
+      dispatch({ type: 'ADD_AVOID_PAIR', player1, player2, reason }), []),
+    removeAvoidPair: useCallback((avoidPairId: string) =>
+      dispatch({ type: 'REMOVE_AVOID_PAIR', avoidPairId }), []),
+    addChallenge: useCallback((challengerId: string, defenderId: string) =>
+      dispatch({ type: 'ADD_CHALLENGE', challengerId, defenderId, challengeRange: getVenueSettings().ladderChallengeRange }), []),
+    cancelChallenge: useCallback((challengeId: string) =>
+      dispatch({ type: 'CANCEL_CHALLENGE', challengeId }), []),
+    setChallengeCourt: useCallback((court: number | null) =>
+      dispatch({ type: 'SET_CHALLENGE_COURT', court }), []),
+    checkInPlayer: useCallback((playerId: string) => {
+      // Refused before it's logged, so undoing something else can't let it through
+      const player = state.session.players.find(p => p.id === playerId);
+      if (player && isCheckedInElsewhere(player.name, playersElsewhere)) return;
+      dispatch({ type: 'CHECK_IN_PLAYER', playerId });
+    }, [state.session.players, playersElsewhere]),
     checkOutPlayer: useCallback((playerId: string) =>
       dispatch({ type: 'CHECK_OUT_PLAYER', playerId }), []),
     startSession: useCallback(() => {
@@ -834,24 +1938,76 @@ export function SessionProvider({ children }: { children: ReactNode }) {
       dispatch({ type: 'END_SESSION' });
       const playerCount = state.session.players.filter(p => p.gamesPlayed > 0).length;
       const durationMinutes = state.session.startTime
-        ? Math.round((Date.now() - state.session.startTime) / 60000)
+        ? Math.round(getPlayTime(state.session.pauses, state.session.startTime, Date.now()) / 60000)
         : 0;
-      trackSessionEnded(state.session.matches.length, playerCount, durationMinutes);
-    }, [state.session.players, state.session.matches.length, state.session.startTime]),
-    recordWinner: useCallback((matchId: string, winner: 1 | 2) => {
-      dispatch({ type: 'RECORD_WINNER', matchId, winner });
+      trackSessionEnded(getPlayedMatches(state.session.matches).length, playerCount, durationMinutes);
+    }, [state.session.players, state.session.matches, state.session.startTime, state.session.pauses]),
+    resumeSession: useCallback(() => {
+      const checkedInElsewhere = state.session.players
+        .filter(p => isCheckedInElsewhere(p.name, playersElsewhere))
+        .map(p => p.id);
+      dispatch({ type: 'RESUME_SESSION', checkedInElsewhere });
+    }, [state.session.players, playersElsewhere]),
+    pausePlay: useCallback((scheduled?: boolean) =>
+      dispatch({ type: 'PAUSE_PLAY', scheduled }), []),
+    resumePlay: useCallback(() =>
+      dispatch({ type: 'RESUME_PLAY' }), []),
+    recordWinner: useCallback((matchId: string, winner: 1 | 2, score?: MatchScore) => {
+      dispatch({ type: 'RECORD_WINNER', matchId, winner, score });
+      trackGameRecorded(state.session.matches.length + 1);
+    }, [state.session.matches.length]),
+    recordScore: useCallback((matchId: string, score: MatchScore) => {
+      // Only points formats can enter a level score, which makes the game a draw
+      dispatch(score.team1 === score.team2
+        ? { type: 'END_MATCH', matchId, outcome: 'draw', score }
+        : { type: 'RECORD_WINNER', matchId, winner: score.team1 > score.team2 ? 1 : 2, score });
+      trackGameRecorded(state.session.matches.length + 1);
+    }, [state.session.matches.length]),
+    recordGame: useCallback((matchId: string, winner: 1 | 2, score?: MatchScore) => {
+      const match = state.session.activeMatches.find(m => m.id === matchId);
+      dispatch({ type: 'RECORD_GAME', matchId, winner, score });
+      if (match && getSeriesWinner([...match.games, { winner, score: score ?? null, rallies: [] }], state.session.bestOf)) {
+        trackGameRecorded(state.session.matches.length + 1);
+      }
+    }, [state.session.activeMatches, state.session.bestOf, state.session.matches.length]),
+    undoGame: useCallback((matchId: string) =>
+      dispatch({ type: 'UNDO_GAME', matchId }), []),
+    recordRally: useCallback((matchId: string, winner: 1 | 2) =>
+      dispatch({ type: 'RECORD_RALLY', matchId, winner }), []),
+    undoRally: useCallback((matchId: string) =>
+      dispatch({ type: 'UNDO_RALLY', matchId }), []),
+    recordOutcome: useCallback((matchId: string, outcome: Exclude<MatchOutcome, 'win'>, losingTeam?: 1 | 2, retiredPlayerId?: string) => {
+      dispatch(getOutcomeAction(matchId, outcome, losingTeam, retiredPlayerId));
+      if (outcome === 'draw' || outcome === 'cancelled') return;
       trackGameRecorded(state.session.matches.length + 1);
     }, [state.session.matches.length]),
-    undoWinner: useCallback((matchId: string) =>
-      dispatch({ type: 'UNDO_WINNER', matchId }), []),
     removeFromCourt: useCallback((playerId: string, matchId: string) =>
       dispatch({ type: 'REMOVE_FROM_COURT', playerId, matchId }), []),
     setScreen: useCallback((screen: AppScreen) =>
       dispatch({ type: 'SET_SCREEN', screen }), []),
-    clearUndo: useCallback(() =>
-      dispatch({ type: 'SET_UNDO', action: null }), []),
+    undo: useCallback(() =>
+      dispatch({ type: 'UNDO' }), []),
+    redo: useCallback(() =>
+      dispatch({ type: 'REDO' }), []),
     newSession: useCallback(() =>
       dispatch({ type: 'NEW_SESSION' }), []),
+    // A parked session's clock keeps running: time caps that ran out and
+    // breaks that fell due or finished meanwhile are caught up as soon as
+    // the play screen shows it again, at that moment rather than when due
+    switchSession: useCallback((sessionId: string) => {
+      const target = unparkSession(sessionId);
+      if (!target) return;
+      parkSession({ state, log: foldActionLog(log, PARKED_LOG_ENTRIES) });
+      setOtherSessions(getParkedSessions().map(p => p.state.session));
+      dispatch({ type: 'SWITCH_SESSION', to: target });
+      dispatch({ type: 'LOAD_LADDER', ladder: getLadder() });
+    }, [state, log]),
+    startAnotherSession: useCallback(() => {
+      parkSession({ state, log: foldActionLog(log, PARKED_LOG_ENTRIES) });
+      setOtherSessions(getParkedSessions().map(p => p.state.session));
+      const fresh: SessionState = { session: createInitialSession(), screen: 'setup', syncedSessionId: null };
+      dispatch({ type: 'SWITCH_SESSION', to: { state: fresh, log: createActionLog(fresh) } });
+    }, [state, log]),
     fillCourts: useCallback(() =>
       dispatch({ type: 'FILL_COURTS' }), []),
     fillCourt: useCallback((court: number) =>
@@ -860,8 +2016,8 @@ export function SessionProvider({ children }: { children: ReactNode }) {
       dispatch({ type: 'LOCK_PARTNERS', player1Id, player2Id }), []),
     unlockPartner: useCallback((playerId: string) =>
       dispatch({ type: 'UNLOCK_PARTNER', playerId }), []),
-    pullFromCourt: useCallback((playerId: string, matchId: string) =>
-      dispatch({ type: 'PULL_FROM_COURT', playerId, matchId }), []),
+    pullFromCourt: useCallback((playerId: string, matchId: string, outcome?: 'cancelled' | 'forfeit' | 'injury') =>
+      dispatch({ type: 'PULL_FROM_COURT', playerId, matchId, outcome }), []),
   };
 
   return (
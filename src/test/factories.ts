@@ -0,0 +1,49 @@
+import type { Match, Player } from '../types';
+
+// Shared test fixtures. Tests override just the fields they care about, so a
+// new Player or Match field only needs a default here.
+
+export function createPlayer(overrides: Partial<Player> = {}): Player {
+  return {
+    id: Math.random().toString(36).slice(2),
+    name: 'Test Player',
+    skill: null,
+    rating: null,
+    category: null,
+    isMember: false,
+    status: 'checked-in',
+    gamesPlayed: 0,
+    wins: 0,
+    losses: 0,
+    lastPartner: null,
+    lockedPartnerId: null,
+    courtsPlayed: [],
+    checkedInAt: Date.now(),
+    arrivedAt: null,
+    lastMatchId: null,
+    winStreak: 0,
+    points: 0,
+    pointsAgainst: 0,
+    gamesWon: 0,
+    gamesLost: 0,
+    ...overrides,
+  };
+}
+
+export function createMatch(overrides: Partial<Match> = {}): Match {
+  return {
+    id: Math.random().toString(36).slice(2),
+    court: 1,
+    team1: [],
+    team2: [],
+    winner: null,
+    score: null,
+    rallies: [],
+    games: [],
+    timeCapped: false,
+    outcome: null,
+    startTime: Date.now(),
+    endTime: null,
+    ...overrides,
+  };
+}
@@ -1,20 +1,63 @@
 export type PlayerStatus = 'not-here' | 'checked-in' | 'playing' | 'left';
 export type SkillLevel = 1 | 2 | 3 | null;
+export type PlayerCategory = 'M' | 'F' | null; // Used to form mixed doubles teams
 export type GameMode = 'doubles' | 'singles';
+export type RotationMode = 'standard' | 'winners-stay' | 'round-robin' | 'river' | 'americano' | 'mexicano' | 'tournament';
+export type CourtTier = 'open' | 'beginner' | 'intermediate' | 'advanced';
+export type TimeCapPolicy = 'leader-wins' | 'staff-picks';
+export type MatchOutcome = 'win' | 'forfeit' | 'injury' | 'draw' | 'cancelled';
 
 export interface Player {
   id: string;
   name: string;
   skill: SkillLevel;
+  rating: number | null; // Elo rating, null until the first rated game (skill seeds it)
+  category: PlayerCategory;
+  isMember: boolean; // Venue members can be given queue priority
   status: PlayerStatus;
   gamesPlayed: number;
-  wins: number;
+  wins: number; // Matches (a whole series in best-of-N)
   losses: number;
+  gamesWon: number; // Individual games, the same as wins unless matches are best-of-N
+  gamesLost: number;
+  points: number; // Points their teams scored this session (in games with a score)
+  pointsAgainst: number; // Points scored against their teams
   lastPartner: string | null;
   lockedPartnerId: string | null;
   courtsPlayed: number[];
-  checkedInAt: number | null;
+  checkedInAt: number | null; // When they last joined the queue (reset after every game)
+  arrivedAt: number | null; // When they first checked in this session
   lastMatchId: string | null; // ID of most recent match for variety in matching
+  winStreak: number; // Consecutive wins, reset on a loss or when leaving the court
+}
+
+// Two players who must never share a court (stored by name with the venue roster)
+export interface AvoidPair {
+  id: string;
+  player1: string;
+  player2: string;
+  reason: string | null;
+}
+
+// Points each team scored in a match
+export interface MatchScore {
+  team1: number;
+  team2: number;
+}
+
+// A ladder challenge, queued until the challenge court is free
+export interface Challenge {
+  id: string;
+  challengerId: string; // The lower-ranked player
+  defenderId: string;
+  matchId: string | null; // Set once it's on the challenge court
+}
+
+// One game of a best-of-N match
+export interface MatchGame {
+  winner: 1 | 2;
+  score: MatchScore | null;
+  rallies: (1 | 2)[];
 }
 
 export interface Match {
@@ -22,37 +65,175 @@ export interface Match {
   court: number;
   team1: string[]; // 2 players for doubles, 1 for singles
   team2: string[]; // 2 players for doubles, 1 for singles
-  winner: 1 | 2 | null;
+  winner: 1 | 2 | null; // In best-of-N, the side that won the series; null for a draw or cancellation
+  score: MatchScore | null; // Final score, when one was entered
+  rallies: (1 | 2)[]; // Live scorekeeping: the team that won each rally so far
+  games: MatchGame[]; // Best-of-N only: games finished so far, in order
+  timeCapped: boolean; // Ended after the session's time cap ran out
+  outcome: MatchOutcome | null; // How it ended; null while still on court
   startTime: number;
   endTime: number | null;
 }
 
+// A game in a pre-generated round-robin schedule. matchId is set once it's
+// dealt to a court, so the schedule can tell which games are done.
+export interface ScheduledMatch {
+  court: number;
+  team1: string[];
+  team2: string[];
+  matchId: string | null;
+}
+
+export interface ScheduledRound {
+  matches: ScheduledMatch[];
+  byes: string[]; // Players sitting out this round
+}
+
+export interface RoundRobinSchedule {
+  rounds: ScheduledRound[];
+  currentRound: number; // Index into rounds; equals rounds.length once the schedule is finished
+}
+
+// How a player got to their court in up-and-down-the-river mode
+export type CourtMove = 'up' | 'down' | 'stayed' | 'joined';
+
+export interface RiverState {
+  round: number; // Current round, starting at 1
+  finishedMatchIds: string[]; // Matches finished so far this round
+  moves: Record<string, CourtMove>; // Player ID -> how they got to their current court
+}
+
+// A player or team in a tournament bracket, seeded 1 (strongest) and down.
+// The name is kept so the public bracket page can show it without the session.
+export interface BracketEntrant {
+  id: string;
+  playerIds: string[];
+  name: string;
+  seed: number;
+}
+
+export type BracketSide = 'winners' | 'losers' | 'final';
+
+// Where a bracket match sends its winner or loser
+export interface BracketSlot {
+  matchId: string;
+  slot: 1 | 2;
+}
+
+// A game in a tournament bracket. Entrants are null until the feeding match is
+// decided, or BRACKET_BYE when nobody will come from there.
+export interface BracketMatch {
+  id: string;
+  side: BracketSide;
+  round: number; // 1-based within its side
+  entrant1: string | null;
+  entrant2: string | null;
+  winner: string | null;
+  matchId: string | null; // Set once it's dealt to a court
+  winnerTo: BracketSlot | null;
+  loserTo: BracketSlot | null; // Double elimination: where the loser drops to
+}
+
+export interface Bracket {
+  id: string;
+  doubleElimination: boolean;
+  entrants: BracketEntrant[];
+  matches: BracketMatch[];
+  champion: string | null; // Entrant ID once the final is played
+}
+
+export const BRACKET_BYE = 'bye';
+
+// How often each pair of players has partnered or faced each other this session,
+// keyed by pairKey() from utils/history. Rebuilt from matches on load.
+export interface PairingHistory {
+  partners: Record<string, number>;
+  opponents: Record<string, number>;
+}
+
 export interface Session {
   id: string;
   location: string;
   courts: number;
+  courtTiers: Record<number, CourtTier>; // Court number -> tier (missing = open)
   gameMode: GameMode;
+  rotationMode: RotationMode;
+  mixedDoubles: boolean; // Every doubles team gets one player of each category
+  mixedFallbackMinutes: number; // Wait before falling back to regular doubles when a mixed four isn't available
+  queuePriority: QueuePriorityPolicy;
+  winStreakCap: number; // Max consecutive wins before winners must rotate off (winners-stay only)
+  pointsPerMatch: number; // Total points played in each Americano/Mexicano match
+  gameTo: number; // Target for entered scores (win by 2)
+  bestOf: number; // Games per court match (odd; 1 is a single game)
+  timeCapMinutes: number | null; // Longest a court match may run, null for no cap
+  timeCapPolicy: TimeCapPolicy; // How a match is decided when its time runs out
+  schedule: RoundRobinSchedule | null; // Generated when a round-robin session starts
+  river: RiverState | null; // Set when an up-and-down-the-river session starts
+  doubleElimination: boolean; // Tournament losers drop to a losers' bracket instead of going out
+  bracket: Bracket | null; // Set when a tournament session starts
   players: Player[];
   matches: Match[];
   activeMatches: Match[];
+  history: PairingHistory;
+  avoidList: AvoidPair[];
+  ladder: string[]; // Venue challenge ladder by player name, top rung first
+  challenges: Challenge[];
+  challengeCourt: number | null; // Court kept for ladder challenges (null = no challenges)
+  seed: number; // Seed for matching randomness, so pairings can be reproduced
+  rngState: number; // Current position of the seeded RNG (starts at seed)
+  breakEveryMinutes: number | null; // Play between scheduled breaks, null for none
+  breakLengthMinutes: number;
+  pauses: SessionPause[];
   startTime: number | null;
   endTime: number | null;
+  previousSync: SyncedSessionRecord | null; // What the last sync that went through sent
 }
 
-export type AppScreen = 'setup' | 'play' | 'leaderboard' | 'global-leaderboard' | 'players' | 'venue-setup';
+// A stretch of the session when play stopped, for a break or a court reset
+export interface SessionPause {
+  start: number;
+  end: number | null; // Null while still paused
+  until: number | null; // When a scheduled break is due to finish
+  scheduled: boolean;
+}
+
+// What the cloud already holds for a session that was ended and synced, so
+// ending it again after a resume can correct those rows instead of adding to them
+export interface SyncedSessionRecord {
+  sessionId: string;
+  players: Array<{ name: string; wins: number; losses: number; gamesPlayed: number }>;
+}
+
+export type AppScreen = 'setup' | 'play' | 'bracket' | 'leaderboard' | 'global-leaderboard' | 'players' | 'venue-setup';
 
-export interface UndoAction {
-  type: 'winner' | 'checkin' | 'checkout' | 'remove';
-  data: unknown;
-  timestamp: number;
+// How the queue is ordered. Each weight is measured in queue spots, and all
+// zeros means plain first come, first served.
+export interface QueuePriorityPolicy {
+  waitTime: number; // Spots gained per minute since their last game
+  gamesPlayed: number; // Spots lost per game already played this session
+  arrival: number; // Spots gained per minute since they first arrived
+  membership: number; // Spots gained by venue members
 }
 
+export const DEFAULT_QUEUE_PRIORITY: QueuePriorityPolicy = {
+  waitTime: 0,
+  gamesPlayed: 0,
+  arrival: 0,
+  membership: 0,
+};
+
 export interface VenueSettings {
   minGamesForRanking: number; // Minimum games required to appear on ranked leaderboard
+  queuePriority: QueuePriorityPolicy; // Default for new sessions at this venue
+  ladderChallengeRange: number; // How many rungs above themselves a player may challenge
+  rallyScoring: boolean; // Scorekeeper counts every rally instead of side-out scoring
 }
 
 export const DEFAULT_VENUE_SETTINGS: VenueSettings = {
   minGamesForRanking: 10,
+  queuePriority: DEFAULT_QUEUE_PRIORITY,
+  ladderChallengeRange: 3,
+  rallyScoring: false,
 };
 
 export interface Venue {
@@ -69,6 +250,8 @@ export interface VenuePlayer {
   venueId: string;
   name: string;
   skill: SkillLevel;
+  rating: number | null;
+  category: PlayerCategory;
   lifetimeWins: number;
   lifetimeLosses: number;
   lifetimeGames: number;
@@ -94,4 +277,19 @@ export interface SessionPlayer {
   wins: number;
   losses: number;
   gamesPlayed: number;
+  gamesWon: number; // Individual games (best-of-N matches count each game)
+  gamesLost: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+// A scored game from a synced session (for the public session page)
+export interface SessionMatch {
+  id: string;
+  sessionId: string;
+  court: number;
+  team1: string[]; // Player names
+  team2: string[];
+  team1Score: number;
+  team2Score: number;
 }
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePointsLeaderboard, createMexicanoRound, isPointsFormat } from './americano';
+import { createPlayer } from '../test/factories';
+
+describe('isPointsFormat', () => {
+  it('is true only for Americano and Mexicano', () => {
+    expect(isPointsFormat('americano')).toBe(true);
+    expect(isPointsFormat('mexicano')).toBe(true);
+    expect(isPointsFormat('standard')).toBe(false);
+    expect(isPointsFormat('round-robin')).toBe(false);
+  });
+});
+
+describe('calculatePointsLeaderboard', () => {
+  it('ranks by points before wins', () => {
+    const players = [
+      createPlayer({ id: 'a', name: 'A', gamesPlayed: 3, wins: 3, points: 40 }),
+      createPlayer({ id: 'b', name: 'B', gamesPlayed: 3, wins: 1, points: 45 }),
+      createPlayer({ id: 'c', name: 'C', gamesPlayed: 0 }),
+    ];
+    expect(calculatePointsLeaderboard(players).map(p => p.id)).toEqual(['b', 'a']);
+  });
+
+  it('breaks ties by wins, then fewer games, then name', () => {
+    const players = [
+      createPlayer({ id: 'z', name: 'Zed', gamesPlayed: 2, wins: 1, points: 30 }),
+      createPlayer({ id: 'a', name: 'Amy', gamesPlayed: 2, wins: 1, points: 30 }),
+      createPlayer({ id: 'm', name: 'Max', gamesPlayed: 3, wins: 1, points: 30 }),
+      createPlayer({ id: 'w', name: 'Wes', gamesPlayed: 3, wins: 2, points: 30 }),
+    ];
+    expect(calculatePointsLeaderboard(players).map(p => p.id)).toEqual(['w', 'a', 'z', 'm']);
+  });
+});
+
+describe('createMexicanoRound', () => {
+  const ranked = (count: number) => Array.from({ length: count }, (_, i) =>
+    createPlayer({ id: `p${i + 1}`, points: 100 - i }));
+
+  it('pairs 1st and 4th against 2nd and 3rd, top group on court 1', () => {
+    const round = createMexicanoRound([...ranked(8)].reverse(), 'doubles', 2, []);
+    expect(round.matches).toEqual([
+      { court: 1, team1: ['p1', 'p4'], team2: ['p2', 'p3'], matchId: null },
+      { court: 2, team1: ['p5', 'p8'], team2: ['p6', 'p7'], matchId: null },
+    ]);
+    expect(round.byes).toEqual([]);
+  });
+
+  it('sits out the lowest ranked who have sat out least', () => {
+    const players = ranked(6);
+    expect(createMexicanoRound(players, 'doubles', 1, []).byes).toEqual(['p6', 'p5']);
+
+    const previous = [{ matches: [], byes: ['p6', 'p5'] }];
+    expect(createMexicanoRound(players, 'doubles', 1, previous).byes).toEqual(['p4', 'p3']);
+  });
+
+  it('pairs neighbours in singles', () => {
+    const round = createMexicanoRound(ranked(4), 'singles', 2, []);
+    expect(round.matches.map(m => [m.team1, m.team2])).toEqual([[['p1'], ['p2']], [['p3'], ['p4']]]);
+  });
+});
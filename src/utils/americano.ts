@@ -0,0 +1,68 @@
+import type { GameMode, Player, RotationMode, ScheduledMatch, ScheduledRound } from '../types';
+import { getPointDifferential } from './score';
+
+// Americano and Mexicano: individual-points social formats. Every match is
+// played to a fixed total of points and each player keeps the points their
+// team scored. Americano rotates partners on a round-robin schedule made up
+// front; Mexicano pairs each round from the current standings.
+
+export function isPointsFormat(rotationMode: RotationMode): boolean {
+  return rotationMode === 'americano' || rotationMode === 'mexicano';
+}
+
+// Most points first, then most wins, then fewest games (efficiency)
+export function sortByPoints(players: Player[]): Player[] {
+  return [...players].sort((a, b) => {
+    if (b.points !== a.points) return b.points - a.points;
+    if (b.wins !== a.wins) return b.wins - a.wins;
+    const diff = getPointDifferential(b) - getPointDifferential(a);
+    if (diff !== 0) return diff;
+    return a.gamesPlayed - b.gamesPlayed;
+  });
+}
+
+// Standings for points formats (calculateLeaderboard ranks by wins instead)
+export function calculatePointsLeaderboard(players: Player[]): Player[] {
+  // Alphabetical first so full ties stay in name order (the sort is stable)
+  const played = players
+    .filter(p => p.gamesPlayed > 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return sortByPoints(played);
+}
+
+// Mexicano: players are grouped in standings order, the top group on court 1.
+// In doubles 1st and 4th play 2nd and 3rd, which keeps each match close.
+// When there are more players than spots, whoever has sat out least sits out,
+// lowest in the standings first.
+export function createMexicanoRound(
+  players: Player[],
+  gameMode: GameMode,
+  courts: number,
+  previousRounds: ScheduledRound[]
+): ScheduledRound {
+  const playersPerMatch = gameMode === 'doubles' ? 4 : 2;
+  const matchCount = Math.min(courts, Math.floor(players.length / playersPerMatch));
+  const byeCount = players.length - matchCount * playersPerMatch;
+
+  const byes: Record<string, number> = {};
+  for (const round of previousRounds) {
+    for (const id of round.byes) byes[id] = (byes[id] ?? 0) + 1;
+  }
+
+  const ranked = sortByPoints(players);
+  const sittingOut = [...ranked].reverse()
+    .sort((a, b) => (byes[a.id] ?? 0) - (byes[b.id] ?? 0))
+    .slice(0, byeCount)
+    .map(p => p.id);
+  const playing = ranked.filter(p => !sittingOut.includes(p.id)).map(p => p.id);
+
+  const matches: ScheduledMatch[] = [];
+  for (let i = 0; i < matchCount; i++) {
+    const group = playing.slice(i * playersPerMatch, (i + 1) * playersPerMatch);
+    matches.push(gameMode === 'doubles'
+      ? { court: i + 1, team1: [group[0], group[3]], team2: [group[1], group[2]], matchId: null }
+      : { court: i + 1, team1: [group[0]], team2: [group[1]], matchId: null });
+  }
+
+  return { matches, byes: sittingOut };
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import type { AvoidPair } from '../types';
+import { buildBlockedPairs, findAvoidPair, getAvoidViolations, hasBlockedPair, isBlockedPair } from './avoidList';
+import { createPlayer } from '../test/factories';
+
+const avoidList: AvoidPair[] = [
+  { id: 'x1', player1: 'Alice', player2: 'Bob', reason: 'Coach and student' },
+];
+
+describe('findAvoidPair', () => {
+  it('matches names in either order, ignoring case', () => {
+    expect(findAvoidPair(avoidList, 'bob', 'ALICE')?.id).toBe('x1');
+    expect(findAvoidPair(avoidList, 'Alice', 'Carol')).toBeUndefined();
+  });
+});
+
+describe('buildBlockedPairs', () => {
+  it('maps avoid list names to this session\'s player IDs', () => {
+    const alice = createPlayer({ id: 'a', name: 'Alice' });
+    const bob = createPlayer({ id: 'b', name: 'Bob' });
+    const carol = createPlayer({ id: 'c', name: 'Carol' });
+
+    const blocked = buildBlockedPairs([alice, bob, carol], avoidList);
+    expect(isBlockedPair(blocked, 'b', 'a')).toBe(true);
+    expect(isBlockedPair(blocked, 'a', 'c')).toBe(false);
+    expect(hasBlockedPair([alice, carol], blocked)).toBe(false);
+    expect(hasBlockedPair([carol, alice, bob], blocked)).toBe(true);
+  });
+});
+
+describe('getAvoidViolations', () => {
+  it('lists the entries broken by players on the same court', () => {
+    const players = [createPlayer({ name: 'Alice' }), createPlayer({ name: 'Bob' }), createPlayer({ name: 'Dan' })];
+    expect(getAvoidViolations(players, avoidList).map(p => p.id)).toEqual(['x1']);
+    expect(getAvoidViolations(players.slice(1), avoidList)).toEqual([]);
+  });
+});
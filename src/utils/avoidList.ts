@@ -0,0 +1,52 @@
+import type { AvoidPair, Player } from '../types';
+import { pairKey } from './history';
+
+// Avoid list: players who must never share a court, as partners or opponents.
+// It's kept by player name with the venue roster; matching works on the
+// pair keys of this session's player IDs.
+export type BlockedPairs = Set<string>;
+
+function sameName(name1: string, name2: string): boolean {
+  return name1.trim().toLowerCase() === name2.trim().toLowerCase();
+}
+
+export function findAvoidPair(avoidList: AvoidPair[], name1: string, name2: string): AvoidPair | undefined {
+  return avoidList.find(pair =>
+    (sameName(pair.player1, name1) && sameName(pair.player2, name2)) ||
+    (sameName(pair.player1, name2) && sameName(pair.player2, name1))
+  );
+}
+
+export function buildBlockedPairs(players: Player[], avoidList: AvoidPair[]): BlockedPairs {
+  const blocked: BlockedPairs = new Set();
+  for (let i = 0; i < players.length; i++) {
+    for (let j = i + 1; j < players.length; j++) {
+      if (findAvoidPair(avoidList, players[i].name, players[j].name)) {
+        blocked.add(pairKey(players[i].id, players[j].id));
+      }
+    }
+  }
+  return blocked;
+}
+
+export function isBlockedPair(blocked: BlockedPairs | undefined, playerId1: string, playerId2: string): boolean {
+  return !!blocked && blocked.has(pairKey(playerId1, playerId2));
+}
+
+// Whether any two of these players are on each other's avoid list
+export function hasBlockedPair(players: Player[], blocked?: BlockedPairs): boolean {
+  if (!blocked || blocked.size === 0) return false;
+  return players.some((p, i) => players.slice(i + 1).some(other => isBlockedPair(blocked, p.id, other.id)));
+}
+
+// Avoid list entries broken by a group of players already on court
+export function getAvoidViolations(players: Player[], avoidList: AvoidPair[]): AvoidPair[] {
+  const violations: AvoidPair[] = [];
+  for (let i = 0; i < players.length; i++) {
+    for (let j = i + 1; j < players.length; j++) {
+      const pair = findAvoidPair(avoidList, players[i].name, players[j].name);
+      if (pair) violations.push(pair);
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { createBracket, createEntrants, getReadyMatches, recordBracketResult } from './bracket';
+import type { Bracket, BracketEntrant, Player } from '../types';
+import { BRACKET_BYE } from '../types';
+import { createPlayer } from '../test/factories';
+
+const ratedPlayer = (id: string, rating: number | null, overrides: Partial<Player> = {}) =>
+  createPlayer({ id, name: id, rating, checkedInAt: 0, arrivedAt: 0, ...overrides });
+
+function entrants(count: number): BracketEntrant[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `s${i + 1}`, playerIds: [`s${i + 1}`], name: `S${i + 1}`, seed: i + 1 }));
+}
+
+// Play out every ready match, with the better seed (lower number) winning
+function playOut(bracket: Bracket): Bracket {
+  let ready = getReadyMatches(bracket);
+  while (ready.length > 0) {
+    const match = ready[0];
+    const better = Number(match.entrant1!.slice(1)) < Number(match.entrant2!.slice(1)) ? match.entrant1! : match.entrant2!;
+    bracket = recordBracketResult(bracket, match.id, better);
+    ready = getReadyMatches(bracket);
+  }
+  return bracket;
+}
+
+describe('createEntrants', () => {
+  it('seeds singles players by rating, then skill', () => {
+    const players = [
+      ratedPlayer('a', 1000),
+      ratedPlayer('b', null, { skill: 3 }),
+      ratedPlayer('c', 1150),
+    ];
+    expect(createEntrants(players, 'singles').map(e => [e.id, e.seed])).toEqual([['c', 1], ['b', 2], ['a', 3]]);
+  });
+
+  it('keeps locked pairs, pairs everyone else strongest with weakest and leaves the odd one out', () => {
+    const players = [
+      ratedPlayer('a', 1300),
+      ratedPlayer('b', 1200),
+      ratedPlayer('c', 1100),
+      ratedPlayer('d', 1000),
+      ratedPlayer('x', 900, { lockedPartnerId: 'y' }),
+      ratedPlayer('y', 900, { lockedPartnerId: 'x' }),
+      ratedPlayer('last', 800),
+    ];
+    const teams = createEntrants(players, 'doubles').map(e => e.playerIds);
+    expect(teams).toEqual([['a', 'd'], ['b', 'c'], ['x', 'y']]);
+  });
+});
+
+describe('createBracket', () => {
+  it('places seeds so the top two can only meet in the final', () => {
+    const bracket = createBracket('b', entrants(8), false);
+    const firstRound = bracket.matches.filter(m => m.round === 1);
+    expect(firstRound.map(m => [m.entrant1, m.entrant2])).toEqual([
+      ['s1', 's8'], ['s4', 's5'], ['s2', 's7'], ['s3', 's6'],
+    ]);
+  });
+
+  it('gives byes to the top seeds', () => {
+    const bracket = createBracket('b', entrants(6), false);
+    expect(bracket.matches.find(m => m.id === 'W1-1')!.winner).toBe('s1');
+    expect(bracket.matches.find(m => m.id === 'W1-3')!.winner).toBe('s2');
+    expect(getReadyMatches(bracket).map(m => m.id)).toEqual(['W1-2', 'W1-4']);
+  });
+
+  it('advances winners to a champion in single elimination', () => {
+    const bracket = playOut(createBracket('b', entrants(5), false));
+    expect(bracket.champion).toBe('s1');
+    expect(bracket.matches.every(m => m.side === 'winners')).toBe(true);
+  });
+});
+
+describe('double elimination', () => {
+  it('drops first-round losers into the losers bracket', () => {
+    let bracket = createBracket('b', entrants(4), true);
+    bracket = recordBracketResult(bracket, 'W1-1', 's4');
+    bracket = recordBracketResult(bracket, 'W1-2', 's2');
+
+    const losersRound1 = bracket.matches.find(m => m.id === 'L1-1')!;
+    expect([losersRound1.entrant1, losersRound1.entrant2]).toEqual(['s1', 's3']);
+  });
+
+  it('sends the losers bracket winner to the grand final', () => {
+    let bracket = createBracket('b', entrants(8), true);
+    // Seed 1 loses once early, then wins out through the losers bracket
+    bracket = recordBracketResult(bracket, 'W1-1', 's8');
+    bracket = playOut(bracket);
+
+    const final = bracket.matches.find(m => m.side === 'final')!;
+    expect(final.entrant2).toBe('s1');
+    expect(bracket.champion).toBe('s1');
+    expect(bracket.matches.every(m => m.winner !== null)).toBe(true);
+  });
+
+  it('works through byes on both sides', () => {
+    const bracket = playOut(createBracket('b', entrants(3), true));
+    expect(bracket.champion).toBe('s1');
+    expect(bracket.matches.find(m => m.side === 'final')!.entrant2).not.toBe(BRACKET_BYE);
+  });
+});
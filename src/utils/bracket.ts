@@ -0,0 +1,186 @@
+import type { Bracket, BracketEntrant, BracketMatch, BracketSlot, GameMode, Player } from '../types';
+import { BRACKET_BYE } from '../types';
+import { getTeamRating } from './rating';
+
+// Tournament brackets: entrants are seeded by rating (or skill when unrated),
+// placed so the top seeds can only meet late, and top seeds get any byes.
+// Double elimination adds a losers' bracket whose winner meets the winners'
+// bracket champion in a single grand final.
+
+// Strongest first; ties go by name so the same roster always seeds the same way
+function sortByStrength(teams: Player[][]): Player[][] {
+  const label = (team: Player[]) => team.map(p => p.name).join(' & ');
+  return [...teams].sort((a, b) =>
+    getTeamRating(b) - getTeamRating(a) || label(a).localeCompare(label(b)));
+}
+
+// Singles: every player. Doubles: locked partners stay together and everyone
+// else is paired strongest with weakest, so teams come out even. With an odd
+// number left, the last player in (players come in queue order) can't enter.
+export function createEntrants(players: Player[], gameMode: GameMode): BracketEntrant[] {
+  let teams: Player[][];
+  if (gameMode === 'singles') {
+    teams = players.map(p => [p]);
+  } else {
+    teams = [];
+    const paired = new Set<string>();
+    for (const player of players) {
+      const partner = players.find(p => p.id === player.lockedPartnerId);
+      if (!partner || paired.has(player.id) || paired.has(partner.id)) continue;
+      teams.push([player, partner]);
+      paired.add(player.id);
+      paired.add(partner.id);
+    }
+    const unpaired = players.filter(p => !paired.has(p.id));
+    const entering = unpaired.slice(0, unpaired.length - (unpaired.length % 2));
+    const rest = sortByStrength(entering.map(p => [p])).map(t => t[0]);
+    for (let i = 0; i < rest.length / 2; i++) {
+      teams.push([rest[i], rest[rest.length - 1 - i]]);
+    }
+  }
+
+  return sortByStrength(teams).map((team, i) => ({
+    id: team.map(p => p.id).join('+'),
+    playerIds: team.map(p => p.id),
+    name: team.map(p => p.name).join(' & '),
+    seed: i + 1,
+  }));
+}
+
+// Bracket positions by seed, e.g. [1, 8, 4, 5, 2, 7, 3, 6] for 8
+function seedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next: number[] = [];
+    for (const seed of order) next.push(seed, order.length * 2 + 1 - seed);
+    order = next;
+  }
+  return order;
+}
+
+function createMatch(id: string, side: BracketMatch['side'], round: number): BracketMatch {
+  return { id, side, round, entrant1: null, entrant2: null, winner: null, matchId: null, winnerTo: null, loserTo: null };
+}
+
+function slot(matchId: string, index: number): BracketSlot {
+  return { matchId, slot: index % 2 === 0 ? 1 : 2 };
+}
+
+export function createBracket(id: string, entrants: BracketEntrant[], doubleElimination: boolean): Bracket {
+  const rounds = Math.max(1, Math.ceil(Math.log2(entrants.length)));
+  const size = 2 ** rounds;
+  const hasLosers = doubleElimination && rounds >= 2;
+  const matches: BracketMatch[] = [];
+
+  // Winners' bracket
+  const order = seedOrder(size);
+  for (let r = 1; r <= rounds; r++) {
+    const count = size / 2 ** r;
+    for (let i = 0; i < count; i++) {
+      const match = createMatch(`W${r}-${i + 1}`, 'winners', r);
+      if (r === 1) {
+        match.entrant1 = entrants[order[2 * i] - 1]?.id ?? BRACKET_BYE;
+        match.entrant2 = entrants[order[2 * i + 1] - 1]?.id ?? BRACKET_BYE;
+      }
+      if (r < rounds) match.winnerTo = slot(`W${r + 1}-${Math.floor(i / 2) + 1}`, i);
+      else if (hasLosers) match.winnerTo = { matchId: 'F-1', slot: 1 };
+      matches.push(match);
+    }
+  }
+
+  if (hasLosers) {
+    // Losers' bracket: odd rounds pair up the survivors, even rounds take in the
+    // losers of the next winners' round (in reverse order, to put off rematches)
+    const losersRounds = 2 * (rounds - 1);
+    for (let j = 1; j <= losersRounds; j++) {
+      const t = Math.floor(j / 2);
+      const count = j % 2 === 0 ? size / 2 ** (t + 1) : size / 2 ** (t + 2);
+      for (let i = 0; i < count; i++) {
+        const match = createMatch(`L${j}-${i + 1}`, 'losers', j);
+        if (j === losersRounds) match.winnerTo = { matchId: 'F-1', slot: 2 };
+        else if (j % 2 === 1) match.winnerTo = { matchId: `L${j + 1}-${i + 1}`, slot: 1 };
+        else match.winnerTo = slot(`L${j + 1}-${Math.floor(i / 2) + 1}`, i);
+        matches.push(match);
+      }
+    }
+
+    for (const match of matches.filter(m => m.side === 'winners')) {
+      const i = Number(match.id.split('-')[1]) - 1;
+      if (match.round === 1) {
+        match.loserTo = slot(`L1-${Math.floor(i / 2) + 1}`, i);
+      } else {
+        const count = size / 2 ** match.round;
+        match.loserTo = { matchId: `L${2 * (match.round - 1)}-${count - i}`, slot: 2 };
+      }
+    }
+
+    matches.push(createMatch('F-1', 'final', 1));
+  }
+
+  return resolveByes({ id, doubleElimination: hasLosers, entrants, matches, champion: null });
+}
+
+function place(matches: BracketMatch[], to: BracketSlot | null, entrantId: string): void {
+  if (!to) return;
+  const target = matches.find(m => m.id === to.matchId);
+  if (!target) return;
+  if (to.slot === 1) target.entrant1 = entrantId;
+  else target.entrant2 = entrantId;
+}
+
+// Decide a match and send its winner and loser on (matches are already copies)
+function decide(bracket: Bracket, match: BracketMatch, winner: string): Bracket {
+  const loser = winner === match.entrant1 ? match.entrant2! : match.entrant1!;
+  match.winner = winner;
+  place(bracket.matches, match.winnerTo, winner);
+  place(bracket.matches, match.loserTo, loser);
+  const champion = match.winnerTo === null && winner !== BRACKET_BYE ? winner : bracket.champion;
+  return { ...bracket, champion };
+}
+
+// Anyone facing a bye goes straight through
+function resolveByes(bracket: Bracket): Bracket {
+  let updated = { ...bracket, matches: bracket.matches.map(m => ({ ...m })) };
+  let match: BracketMatch | undefined;
+  while ((match = updated.matches.find(m => m.winner === null && m.entrant1 !== null && m.entrant2 !== null &&
+    (m.entrant1 === BRACKET_BYE || m.entrant2 === BRACKET_BYE)))) {
+    updated = decide(updated, match, match.entrant1 === BRACKET_BYE ? match.entrant2! : match.entrant1!);
+  }
+  return updated;
+}
+
+export function recordBracketResult(bracket: Bracket, bracketMatchId: string, winner: string): Bracket {
+  const updated = { ...bracket, matches: bracket.matches.map(m => ({ ...m })) };
+  const match = updated.matches.find(m => m.id === bracketMatchId);
+  if (!match || match.winner !== null || (winner !== match.entrant1 && winner !== match.entrant2)) return bracket;
+  return resolveByes(decide(updated, match, winner));
+}
+
+// Matches with both sides known that haven't been put on a court yet
+export function getReadyMatches(bracket: Bracket): BracketMatch[] {
+  const isEntrant = (id: string | null) => id !== null && id !== BRACKET_BYE;
+  return bracket.matches.filter(m =>
+    m.winner === null && m.matchId === null && isEntrant(m.entrant1) && isEntrant(m.entrant2));
+}
+
+export function getEntrantName(bracket: Bracket, entrantId: string | null): string {
+  if (entrantId === null) return 'TBD';
+  if (entrantId === BRACKET_BYE) return 'Bye';
+  return bracket.entrants.find(e => e.id === entrantId)?.name ?? '?';
+}
+
+export function getRoundLabel(bracket: Bracket, side: BracketMatch['side'], round: number): string {
+  if (side === 'final') return 'Grand Final';
+  if (side === 'losers') return `Losers Round ${round}`;
+  const lastRound = Math.max(...bracket.matches.filter(m => m.side === 'winners').map(m => m.round));
+  if (round === lastRound) return bracket.doubleElimination ? 'Winners Final' : 'Final';
+  if (round === lastRound - 1) return 'Semifinals';
+  return `Round ${round}`;
+}
+
+export function setBracketMatchId(bracket: Bracket, bracketMatchId: string, matchId: string | null): Bracket {
+  return {
+    ...bracket,
+    matches: bracket.matches.map(m => m.id === bracketMatchId ? { ...m, matchId } : m),
+  };
+}
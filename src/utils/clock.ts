@@ -0,0 +1,19 @@
+// The current time for session logic. Like the seeded RNG, it can be pinned
+// so that replaying logged actions gives every timestamp its original value.
+
+let pinnedTime: number | null = null;
+
+export function currentTime(): number {
+  return pinnedTime ?? Date.now();
+}
+
+// Run fn as though it were the given time
+export function runAt<T>(time: number, fn: () => T): T {
+  const previous = pinnedTime;
+  pinnedTime = time;
+  try {
+    return fn();
+  } finally {
+    pinnedTime = previous;
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  pairKey,
+  addMatchToHistory,
+  buildPairingHistory,
+  createPairingHistory,
+  getPartnerCount,
+  getOpponentCount,
+} from './history';
+import { createMatch } from '../test/factories';
+
+const playedMatch = (team1: string[], team2: string[]) =>
+  createMatch({ team1, team2, winner: 1, outcome: 'win', endTime: Date.now() });
+
+describe('pairKey', () => {
+  it('is the same regardless of order', () => {
+    expect(pairKey('a', 'b')).toBe(pairKey('b', 'a'));
+  });
+});
+
+describe('addMatchToHistory', () => {
+  it('counts teammates as partners and the other side as opponents', () => {
+    const history = addMatchToHistory(createPairingHistory(), playedMatch(['a', 'b'], ['c', 'd']));
+
+    expect(getPartnerCount(history, 'a', 'b')).toBe(1);
+    expect(getPartnerCount(history, 'c', 'd')).toBe(1);
+    expect(getPartnerCount(history, 'a', 'c')).toBe(0);
+    expect(getOpponentCount(history, 'a', 'c')).toBe(1);
+    expect(getOpponentCount(history, 'b', 'd')).toBe(1);
+    expect(getOpponentCount(history, 'a', 'b')).toBe(0);
+  });
+
+  it('does not mutate the previous history', () => {
+    const empty = createPairingHistory();
+    addMatchToHistory(empty, playedMatch(['a'], ['b']));
+    expect(empty.opponents).toEqual({});
+  });
+});
+
+describe('buildPairingHistory', () => {
+  it('accumulates across all matches', () => {
+    const history = buildPairingHistory([
+      playedMatch(['a', 'b'], ['c', 'd']),
+      playedMatch(['a', 'c'], ['b', 'd']),
+      playedMatch(['a', 'b'], ['c', 'e']),
+    ]);
+
+    expect(getPartnerCount(history, 'a', 'b')).toBe(2);
+    expect(getOpponentCount(history, 'b', 'c')).toBe(3);
+    expect(getOpponentCount(history, 'a', 'e')).toBe(1);
+  });
+});
@@ -0,0 +1,87 @@
+import type { Match, PairingHistory, Player } from '../types';
+
+// Session-wide record of who has partnered and who has faced whom.
+// Derived entirely from completed matches, so it can always be rebuilt
+// from session.matches (e.g. when a saved session is loaded).
+
+// How much a repeat partnership counts compared to a repeat opponent
+const PARTNER_REPEAT_WEIGHT = 2;
+const OPPONENT_REPEAT_WEIGHT = 1;
+
+export function createPairingHistory(): PairingHistory {
+  return { partners: {}, opponents: {} };
+}
+
+// Order-independent key for a pair of players
+export function pairKey(playerId1: string, playerId2: string): string {
+  return playerId1 < playerId2 ? `${playerId1}:${playerId2}` : `${playerId2}:${playerId1}`;
+}
+
+function increment(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+export function addMatchToHistory(history: PairingHistory, match: Match): PairingHistory {
+  const partners = { ...history.partners };
+  const opponents = { ...history.opponents };
+
+  for (const team of [match.team1, match.team2]) {
+    for (let i = 0; i < team.length; i++) {
+      for (let j = i + 1; j < team.length; j++) {
+        increment(partners, pairKey(team[i], team[j]));
+      }
+    }
+  }
+
+  for (const a of match.team1) {
+    for (const b of match.team2) {
+      increment(opponents, pairKey(a, b));
+    }
+  }
+
+  return { partners, opponents };
+}
+
+export function buildPairingHistory(matches: Match[]): PairingHistory {
+  // A cancelled match never got going, so it doesn't count as a pairing
+  return matches.filter(m => m.outcome !== 'cancelled').reduce(addMatchToHistory, createPairingHistory());
+}
+
+export function getPartnerCount(history: PairingHistory, playerId1: string, playerId2: string): number {
+  return history.partners[pairKey(playerId1, playerId2)] ?? 0;
+}
+
+export function getOpponentCount(history: PairingHistory, playerId1: string, playerId2: string): number {
+  return history.opponents[pairKey(playerId1, playerId2)] ?? 0;
+}
+
+// How often these players have already shared a court, in any role.
+// Used when choosing who plays next, before teams are decided.
+export function getGroupRepeatScore(history: PairingHistory, players: Player[]): number {
+  let score = 0;
+  for (let i = 0; i < players.length; i++) {
+    for (let j = i + 1; j < players.length; j++) {
+      score += getPartnerCount(history, players[i].id, players[j].id) * PARTNER_REPEAT_WEIGHT;
+      score += getOpponentCount(history, players[i].id, players[j].id) * OPPONENT_REPEAT_WEIGHT;
+    }
+  }
+  return score;
+}
+
+// How repetitive a specific team split would be (lower is better)
+export function getTeamsRepeatScore(history: PairingHistory, team1: Player[], team2: Player[]): number {
+  let score = 0;
+  for (const team of [team1, team2]) {
+    for (let i = 0; i < team.length; i++) {
+      for (let j = i + 1; j < team.length; j++) {
+        score += getPartnerCount(history, team[i].id, team[j].id) * PARTNER_REPEAT_WEIGHT;
+      }
+    }
+  }
+  for (const a of team1) {
+    for (const b of team2) {
+      score += getOpponentCount(history, a.id, b.id) * OPPONENT_REPEAT_WEIGHT;
+    }
+  }
+  return score;
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { getLadderRung, canChallenge, applyChallengeResult } from './ladder';
+
+const ladder = ['Ann', 'Bob', 'Cat', 'Dan'];
+
+describe('getLadderRung', () => {
+  it('finds players by name, ignoring case', () => {
+    expect(getLadderRung(ladder, 'ann')).toBe(1);
+    expect(getLadderRung(ladder, 'Dan ')).toBe(4);
+    expect(getLadderRung(ladder, 'Eve')).toBeNull();
+  });
+});
+
+describe('canChallenge', () => {
+  it('allows challenging up to the range above', () => {
+    expect(canChallenge(ladder, 'Dan', 'Bob', 2)).toBe(true);
+    expect(canChallenge(ladder, 'Dan', 'Ann', 2)).toBe(false);
+  });
+
+  it('never allows challenging down or yourself', () => {
+    expect(canChallenge(ladder, 'Bob', 'Cat', 3)).toBe(false);
+    expect(canChallenge(ladder, 'Bob', 'bob', 3)).toBe(false);
+  });
+
+  it('treats newcomers as just below the bottom rung', () => {
+    expect(canChallenge(ladder, 'Eve', 'Dan', 1)).toBe(true);
+    expect(canChallenge(ladder, 'Eve', 'Cat', 1)).toBe(false);
+    expect(canChallenge(ladder, 'Eve', 'Fay', 1)).toBe(true);
+    expect(canChallenge(ladder, 'Dan', 'Fay', 1)).toBe(false);
+  });
+});
+
+describe('applyChallengeResult', () => {
+  it('swaps the two players when the challenger wins', () => {
+    expect(applyChallengeResult(ladder, 'Dan', 'Bob', true)).toEqual(['Ann', 'Dan', 'Cat', 'Bob']);
+  });
+
+  it('leaves the ladder alone when the defender wins', () => {
+    expect(applyChallengeResult(ladder, 'Dan', 'Bob', false)).toEqual(ladder);
+  });
+
+  it('adds newcomers to the bottom, defender first', () => {
+    expect(applyChallengeResult(ladder, 'Eve', 'Fay', false)).toEqual([...ladder, 'Fay', 'Eve']);
+    expect(applyChallengeResult(ladder, 'Eve', 'Fay', true)).toEqual([...ladder, 'Eve', 'Fay']);
+  });
+});
@@ -0,0 +1,48 @@
+// Challenge ladder: a venue-wide ranking kept across sessions, by player name
+// with the top rung first. A player may challenge anyone up to a set number
+// of rungs above them; if the challenger wins, the two swap places.
+// Players not on the ladder yet count as being just below the bottom rung,
+// and join it the first time they play a challenge.
+
+function sameName(name1: string, name2: string): boolean {
+  return name1.trim().toLowerCase() === name2.trim().toLowerCase();
+}
+
+// 1-based rung, or null if they're not on the ladder
+export function getLadderRung(ladder: string[], name: string): number | null {
+  const index = ladder.findIndex(n => sameName(n, name));
+  return index === -1 ? null : index + 1;
+}
+
+export function canChallenge(ladder: string[], challenger: string, defender: string, range: number): boolean {
+  if (sameName(challenger, defender)) return false;
+
+  const defenderRung = getLadderRung(ladder, defender);
+  // Anyone may challenge another newcomer, which puts them both on the ladder
+  if (defenderRung === null) return getLadderRung(ladder, challenger) === null;
+
+  const challengerRung = getLadderRung(ladder, challenger) ?? ladder.length + 1;
+  return defenderRung < challengerRung && challengerRung - defenderRung <= range;
+}
+
+// The ladder after a challenge, adding either player who wasn't on it yet
+// (the defender first, so a newcomer defender ends up above the challenger)
+export function applyChallengeResult(
+  ladder: string[],
+  challenger: string,
+  defender: string,
+  challengerWon: boolean
+): string[] {
+  const updated = [...ladder];
+  for (const name of [defender, challenger]) {
+    if (getLadderRung(updated, name) === null) updated.push(name.trim());
+  }
+  if (!challengerWon) return updated;
+
+  const challengerIndex = getLadderRung(updated, challenger)! - 1;
+  const defenderIndex = getLadderRung(updated, defender)! - 1;
+  if (challengerIndex > defenderIndex) {
+    [updated[challengerIndex], updated[defenderIndex]] = [updated[defenderIndex], updated[challengerIndex]];
+  }
+  return updated;
+}
@@ -6,26 +6,19 @@ import {
   findSubstitute,
   calculateLeaderboard,
   getWinPercentage,
+  DEFAULT_MATCHING_STRATEGY,
+  selectChallengers,
+  optimizeCourtGroups,
+  isEligibleForCourt,
+  getCourtTier,
+  canFormMixedTeams,
+  isMixedTeam,
+  hasWaitedForMixed,
+  prioritizeQueue,
 } from './matching';
-
-// Helper to create test players
-function createPlayer(overrides: Partial<Player> = {}): Player {
-  return {
-    id: Math.random().toString(36).slice(2),
-    name: 'Test Player',
-    skill: null,
-    status: 'checked-in',
-    gamesPlayed: 0,
-    wins: 0,
-    losses: 0,
-    lastPartner: null,
-    lockedPartnerId: null,
-    courtsPlayed: [],
-    checkedInAt: Date.now(),
-    lastMatchId: null,
-    ...overrides,
-  };
-}
+import { createSeededRng } from './random';
+import { buildPairingHistory, pairKey } from './history';
+import { createMatch, createPlayer } from '../test/factories';
 
 // Helper to create multiple players with sequential names
 function createPlayers(count: number, overrides: Partial<Player> = {}): Player[] {
@@ -264,6 +257,28 @@ describe('selectNextPlayers', () => {
 });
 
 describe('formTeams', () => {
+  describe('seeded randomness', () => {
+    it('forms the same teams for the same seed', () => {
+      const players = createPlayers(4);
+      const first = formTeams(players, 'doubles', true, undefined, createSeededRng(11).next);
+      const second = formTeams(players, 'doubles', true, undefined, createSeededRng(11).next);
+
+      expect(second!.team1.map(p => p.id)).toEqual(first!.team1.map(p => p.id));
+      expect(second!.team2.map(p => p.id)).toEqual(first!.team2.map(p => p.id));
+    });
+
+    it('uses the injected rng to pick sides for locked pairs', () => {
+      const [a, b, c, d] = createPlayers(4);
+      a.lockedPartnerId = b.id;
+      b.lockedPartnerId = a.id;
+      c.lockedPartnerId = d.id;
+      d.lockedPartnerId = c.id;
+
+      expect(formTeams([a, b, c, d], 'doubles', true, undefined, () => 0.1)!.team1).toEqual([a, b]);
+      expect(formTeams([a, b, c, d], 'doubles', true, undefined, () => 0.9)!.team1).toEqual([c, d]);
+    });
+  });
+
   describe('singles mode', () => {
     it('creates two single-player teams', () => {
       const players = createPlayers(2);
@@ -372,6 +387,19 @@ describe('formTeams', () => {
       expect(team1Sum).toBe(4);
       expect(team2Sum).toBe(4);
     });
+
+    it('balances by rating once players have one, overriding skill buckets', () => {
+      const players = [
+        createPlayer({ name: 'Top', skill: 2, rating: 1250 }),
+        createPlayer({ name: 'Second', skill: 2, rating: 1150 }),
+        createPlayer({ name: 'Third', skill: 2, rating: 1000 }),
+        createPlayer({ name: 'Bottom', skill: 2, rating: 850 }),
+      ];
+
+      const result = formTeams(players, 'doubles', false)!;
+      const topTeam = result.team1.some(p => p.name === 'Top') ? result.team1 : result.team2;
+      expect(topTeam.map(p => p.name).sort()).toEqual(['Bottom', 'Top']);
+    });
   });
 
   describe('doubles mode - recent partner avoidance', () => {
@@ -441,6 +469,369 @@ describe('findSubstitute', () => {
   });
 });
 
+describe('pairing history', () => {
+  function playedMatch(team1: string[], team2: string[]) {
+    return createMatch({ team1, team2, winner: 1, outcome: 'win', startTime: 0, endTime: 0 });
+  }
+
+  it('keeps the top 4 when they have not met', () => {
+    const queue = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => createPlayer({ id }));
+    const history = buildPairingHistory([playedMatch(['a', 'e'], ['b', 'f'])]);
+
+    const ids = selectNextPlayers(queue, 'doubles', history)!.map(p => p.id);
+    expect(ids).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('skips ahead when the top 4 keep meeting each other', () => {
+    const queue = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => createPlayer({ id }));
+    const history = buildPairingHistory([
+      playedMatch(['a', 'b'], ['c', 'd']),
+      playedMatch(['a', 'c'], ['b', 'd']),
+    ]);
+
+    const ids = selectNextPlayers(queue, 'doubles', history)!.map(p => p.id);
+    expect(ids).toHaveLength(4);
+    expect(ids).toContain('a');
+    expect(ids.some(id => id === 'e' || id === 'f')).toBe(true);
+  });
+
+  it('never looks further than the bounded window', () => {
+    const queue = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map(id => createPlayer({ id }));
+    const history = buildPairingHistory([
+      playedMatch(['a', 'b'], ['c', 'd']),
+      playedMatch(['a', 'c'], ['b', 'd']),
+      playedMatch(['a', 'd'], ['b', 'c']),
+    ]);
+
+    const ids = selectNextPlayers(queue, 'doubles', history)!.map(p => p.id);
+    expect(ids).not.toContain('g');
+    expect(ids).not.toContain('h');
+  });
+
+  it('formTeams avoids partners from earlier in the session, not just the last game', () => {
+    const players = ['a', 'b', 'c', 'd'].map(id => createPlayer({ id, skill: 2 }));
+    // a+d and b+c is the default High+Low split for equal ratings; both partnered before
+    const history = buildPairingHistory([
+      playedMatch(['a', 'd'], ['b', 'c']),
+      playedMatch(['a', 'd'], ['b', 'c']),
+    ]);
+
+    const result = formTeams(players, 'doubles', true, history)!;
+    const aTeam = result.team1.some(p => p.id === 'a') ? result.team1 : result.team2;
+    expect(aTeam.map(p => p.id)).not.toContain('d');
+  });
+});
+
+describe('optimizeCourtGroups', () => {
+  const ratingGap = (group: Player[]) => {
+    const sorted = [...group].sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0));
+    // Best High+Low split
+    return Math.abs(
+      (sorted[0].rating! + sorted[3].rating!) - (sorted[1].rating! + sorted[2].rating!)
+    );
+  };
+
+  it('evens out lopsided courts', () => {
+    const pros = ['p1', 'p2', 'p3', 'p4'].map(id => createPlayer({ id, rating: 1200 }));
+    const beginners = ['b1', 'b2', 'b3', 'b4'].map(id => createPlayer({ id, rating: 800 }));
+    const groups = [
+      [pros[0], pros[1], pros[2], beginners[0]],
+      [beginners[1], beginners[2], beginners[3], pros[3]],
+    ];
+
+    const result = optimizeCourtGroups(groups, 'doubles');
+    expect(result.map(ratingGap)).toEqual([0, 0]);
+  });
+
+  it('only moves the players it was given', () => {
+    const players = createPlayers(12).map((p, i) => ({ ...p, rating: 800 + i * 40 }));
+    const groups = [players.slice(0, 4), players.slice(4, 8), players.slice(8, 12)];
+
+    const result = optimizeCourtGroups(groups, 'doubles');
+    expect(result.every(g => g.length === 4)).toBe(true);
+    expect(result.flat().map(p => p.id).sort()).toEqual(players.map(p => p.id).sort());
+  });
+
+  it('keeps locked pairs on the same court', () => {
+    const a = createPlayer({ id: 'a', rating: 1200, lockedPartnerId: 'b' });
+    const b = createPlayer({ id: 'b', rating: 1200, lockedPartnerId: 'a' });
+    const others = ['c', 'd', 'e', 'f', 'g', 'h'].map(id => createPlayer({ id, rating: 800 }));
+    const groups = [[a, b, others[0], others[1]], others.slice(2, 6)];
+
+    const result = optimizeCourtGroups(groups, 'doubles');
+    const aCourt = result.find(g => g.includes(a))!;
+    expect(aCourt).toContain(b);
+  });
+});
+
+describe('court tiers', () => {
+  it('defaults courts to open', () => {
+    expect(getCourtTier({}, 3)).toBe('open');
+    expect(getCourtTier({ 3: 'beginner' }, 3)).toBe('beginner');
+  });
+
+  it('lets everyone play on open courts', () => {
+    expect(isEligibleForCourt(createPlayer({ skill: null }), 'open')).toBe(true);
+    expect(isEligibleForCourt(createPlayer({ skill: 3 }), 'open')).toBe(true);
+  });
+
+  it('restricts tiered courts to the matching skill level', () => {
+    expect(isEligibleForCourt(createPlayer({ skill: 3 }), 'advanced')).toBe(true);
+    expect(isEligibleForCourt(createPlayer({ skill: 2 }), 'advanced')).toBe(false);
+    expect(isEligibleForCourt(createPlayer({ skill: null }), 'beginner')).toBe(false);
+  });
+
+  it('optimizeCourtGroups does not move players onto courts they cannot play', () => {
+    const pros = ['p1', 'p2', 'p3', 'p4'].map(id => createPlayer({ id, skill: 3, rating: 1200 }));
+    const mixed = [
+      createPlayer({ id: 'x1', skill: 1, rating: 800 }),
+      createPlayer({ id: 'x2', skill: 3, rating: 1300 }),
+      createPlayer({ id: 'x3', skill: 1, rating: 800 }),
+      createPlayer({ id: 'x4', skill: 1, rating: 800 }),
+    ];
+    const tiers = ['advanced', 'open'] as const;
+
+    const result = optimizeCourtGroups([pros, mixed], 'doubles', undefined,
+      (player, index) => isEligibleForCourt(player, tiers[index]));
+    expect(result[0].every(p => p.skill === 3)).toBe(true);
+  });
+});
+
+describe('mixed doubles', () => {
+  const man = (id: string, overrides: Partial<Player> = {}) =>
+    createPlayer({ id, name: id, category: 'M', ...overrides });
+  const woman = (id: string, overrides: Partial<Player> = {}) =>
+    createPlayer({ id, name: id, category: 'F', ...overrides });
+
+  describe('canFormMixedTeams', () => {
+    it('needs two players of each category', () => {
+      expect(canFormMixedTeams([man('m1'), man('m2'), woman('w1'), woman('w2')])).toBe(true);
+      expect(canFormMixedTeams([man('m1'), man('m2'), man('m3'), woman('w1')])).toBe(false);
+      expect(canFormMixedTeams([man('m1'), createPlayer(), woman('w1'), woman('w2')])).toBe(false);
+    });
+
+    it('rejects a locked pair of the same category', () => {
+      const m1 = man('m1', { lockedPartnerId: 'm2' });
+      const m2 = man('m2', { lockedPartnerId: 'm1' });
+      expect(canFormMixedTeams([m1, m2, woman('w1'), woman('w2')])).toBe(false);
+    });
+  });
+
+  describe('selectNextPlayers', () => {
+    it('skips ahead in the queue to find a mixed four', () => {
+      const queue = [man('m1'), man('m2'), man('m3'), woman('w1'), woman('w2')];
+      const result = selectNextPlayers(queue, 'doubles', undefined, true);
+      expect(result!.map(p => p.id).sort()).toEqual(['m1', 'm2', 'w1', 'w2']);
+    });
+
+    it('returns null when no mixed four is available', () => {
+      const queue = [man('m1'), man('m2'), man('m3'), woman('w1')];
+      expect(selectNextPlayers(queue, 'doubles', undefined, true)).toBeNull();
+    });
+
+    it('keeps a mixed locked pair together', () => {
+      const queue = [
+        man('m1', { lockedPartnerId: 'w2' }),
+        man('m2'),
+        woman('w1'),
+        woman('w2', { lockedPartnerId: 'm1' }),
+      ];
+      const result = selectNextPlayers(queue, 'doubles', undefined, true);
+      expect(result!.map(p => p.id).sort()).toEqual(['m1', 'm2', 'w1', 'w2']);
+    });
+  });
+
+  describe('formTeams', () => {
+    it('puts one player of each category on every team', () => {
+      const players = [man('m1'), man('m2'), woman('w1'), woman('w2')];
+      for (let seed = 0; seed < 10; seed++) {
+        const result = formTeams(players, 'doubles', true, undefined, createSeededRng(seed).next, true);
+        expect(isMixedTeam(result!.team1)).toBe(true);
+        expect(isMixedTeam(result!.team2)).toBe(true);
+      }
+    });
+
+    it('picks the more balanced mixed split', () => {
+      const players = [
+        man('m1', { rating: 1200 }),
+        man('m2', { rating: 1000 }),
+        woman('w1', { rating: 1150 }),
+        woman('w2', { rating: 950 }),
+      ];
+      const result = formTeams(players, 'doubles', true, undefined, undefined, true);
+      const team1Ids = result!.team1.map(p => p.id).sort();
+      expect([['m1', 'w2'], ['m2', 'w1']]).toContainEqual(team1Ids);
+    });
+
+    it('avoids repeating last game partners', () => {
+      const players = [
+        man('m1', { lastPartner: 'w1' }),
+        man('m2'),
+        woman('w1', { lastPartner: 'm1' }),
+        woman('w2'),
+      ];
+      const result = formTeams(players, 'doubles', true, undefined, undefined, true);
+      const m1Team = result!.team1.some(p => p.id === 'm1') ? result!.team1 : result!.team2;
+      expect(m1Team.map(p => p.id)).toContain('w2');
+    });
+  });
+
+  describe('hasWaitedForMixed', () => {
+    it('is true once the longest wait passes the fallback time', () => {
+      const now = 100 * 60 * 1000;
+      const queue = [man('m1', { checkedInAt: now - 11 * 60 * 1000 }), man('m2', { checkedInAt: now })];
+      expect(hasWaitedForMixed(queue, 10, now)).toBe(true);
+      expect(hasWaitedForMixed(queue, 15, now)).toBe(false);
+    });
+  });
+
+  it('findSubstitute prefers the same category', () => {
+    const queue = [man('m1'), woman('w1')];
+    expect(findSubstitute(queue, woman('w9'), true)!.id).toBe('w1');
+    expect(findSubstitute(queue, woman('w9'))!.id).toBe('m1');
+  });
+
+  it('selectChallengers picks a mixed pair', () => {
+    const queue = [man('m1'), man('m2'), woman('w1')];
+    expect(selectChallengers(queue, 'doubles', true)!.map(p => p.id)).toEqual(['m1', 'w1']);
+    expect(selectChallengers(queue, 'doubles')!.map(p => p.id)).toEqual(['m1', 'm2']);
+  });
+
+  it('selectChallengers still picks a mixed pair around the avoid list', () => {
+    const queue = [man('m1'), man('m2'), woman('w1'), woman('w2')];
+    const blocked = new Set([pairKey('m1', 'w1')]);
+    expect(selectChallengers(queue, 'doubles', true, blocked)!.map(p => p.id)).toEqual(['m1', 'w2']);
+  });
+
+  it('selectNextPlayers only searches near the front of the queue when the avoid list blocks mixed groups', () => {
+    const queue = [woman('w1'), ...Array.from({ length: 40 }, (_, i) => man(`m${i}`)), woman('w2'), woman('w3')];
+    const blocked = new Set([pairKey('m0', 'm1')]);
+    expect(selectNextPlayers(queue, 'doubles', undefined, true, blocked)).toBeNull();
+  });
+});
+
+describe('avoid list', () => {
+  const players = () => ['a', 'b', 'c', 'd', 'e', 'f'].map((id, i) =>
+    createPlayer({ id, name: id, checkedInAt: i }));
+  const blocked = new Set([pairKey('a', 'b')]);
+
+  it('selectNextPlayers never puts blocked players on the same court', () => {
+    const result = selectNextPlayers(players(), 'doubles', undefined, false, blocked);
+    expect(result!.map(p => p.id)).toEqual(['a', 'c', 'd', 'e']);
+  });
+
+  it('selectNextPlayers returns null when only blocked groups remain', () => {
+    const [a, b, c, d] = players();
+    expect(selectNextPlayers([a, b, c, d], 'doubles', undefined, false, blocked)).toBeNull();
+  });
+
+  it('formTeams refuses a group with a blocked pair', () => {
+    const [a, b, c, d] = players();
+    expect(formTeams([a, b, c, d], 'doubles', true, undefined, undefined, false, blocked)).toBeNull();
+  });
+
+  it('findSubstitute skips anyone blocked with the players on court', () => {
+    const [a, b, c, d, e] = players();
+    expect(findSubstitute([b, e], d, false, blocked, [a, c])!.id).toBe('e');
+    expect(findSubstitute([b], d, false, blocked, [a, c])).toBeNull();
+  });
+
+  it('selectChallengers skips anyone blocked with the players staying on court', () => {
+    const [a, b, c, d, e] = players();
+    expect(selectChallengers([b, d, e], 'doubles', false, blocked, [a, c])!.map(p => p.id)).toEqual(['d', 'e']);
+  });
+
+  it('optimizeCourtGroups never swaps blocked players together', () => {
+    const [a, b, c, d, e, f] = players();
+    const g = createPlayer({ id: 'g' });
+    const h = createPlayer({ id: 'h' });
+    a.rating = 1400;
+    b.rating = 1400;
+    const result = optimizeCourtGroups([[a, c, d, e], [b, f, g, h]], 'doubles', undefined, undefined, blocked);
+    for (const group of result) {
+      const ids = group.map(p => p.id);
+      expect(ids.includes('a') && ids.includes('b')).toBe(false);
+    }
+  });
+});
+
+describe('queue priority policy', () => {
+  const now = 1_000_000_000;
+  const minutesAgo = (minutes: number) => now - minutes * 60 * 1000;
+  const fifo = { waitTime: 0, gamesPlayed: 0, arrival: 0, membership: 0 };
+
+  it('keeps queue order with the default policy', () => {
+    const queue = createPlayers(4);
+    expect(prioritizeQueue(queue, fifo, now)).toBe(queue);
+  });
+
+  it('moves players who have played fewer games up', () => {
+    const veteran = createPlayer({ id: 'veteran', gamesPlayed: 4 });
+    const newcomer = createPlayer({ id: 'newcomer', gamesPlayed: 0 });
+    const result = prioritizeQueue([veteran, newcomer], { ...fifo, gamesPlayed: 1 }, now);
+    expect(result.map(p => p.id)).toEqual(['newcomer', 'veteran']);
+  });
+
+  it('moves players who have waited longer up', () => {
+    const fresh = createPlayer({ id: 'fresh', checkedInAt: minutesAgo(1) });
+    const waiting = createPlayer({ id: 'waiting', checkedInAt: minutesAgo(20) });
+    const result = prioritizeQueue([fresh, waiting], { ...fifo, waitTime: 1 }, now);
+    expect(result.map(p => p.id)).toEqual(['waiting', 'fresh']);
+  });
+
+  it('moves early arrivals up', () => {
+    const late = createPlayer({ id: 'late', arrivedAt: minutesAgo(5) });
+    const early = createPlayer({ id: 'early', arrivedAt: minutesAgo(90) });
+    const result = prioritizeQueue([late, early], { ...fifo, arrival: 0.1 }, now);
+    expect(result.map(p => p.id)).toEqual(['early', 'late']);
+  });
+
+  it('moves members up by the membership weight', () => {
+    const queue = [createPlayer({ id: 'a' }), createPlayer({ id: 'b' }), createPlayer({ id: 'member', isMember: true })];
+    expect(prioritizeQueue(queue, { ...fifo, membership: 2 }, now).map(p => p.id)).toEqual(['a', 'member', 'b']);
+    expect(prioritizeQueue(queue, { ...fifo, membership: 5 }, now).map(p => p.id)).toEqual(['member', 'a', 'b']);
+  });
+
+  it('selectNextPlayers and findSubstitute use the policy', () => {
+    const players = createPlayers(5).map((p, i) => ({ ...p, gamesPlayed: i === 4 ? 0 : 3 }));
+    const policy = { ...fifo, gamesPlayed: 2 };
+
+    expect(selectNextPlayers(players, 'doubles', undefined, false, undefined, policy)).toContain(players[4]);
+    expect(findSubstitute(players, createPlayer(), false, undefined, [], policy)).toBe(players[4]);
+  });
+});
+
+describe('selectChallengers', () => {
+  it('returns null when the queue is too short', () => {
+    expect(selectChallengers(createPlayers(1), 'doubles')).toBeNull();
+    expect(selectChallengers([], 'singles')).toBeNull();
+  });
+
+  it('takes the front of the queue', () => {
+    const queue = createPlayers(4);
+    expect(selectChallengers(queue, 'doubles')).toEqual([queue[0], queue[1]]);
+    expect(selectChallengers(queue, 'singles')).toEqual([queue[0]]);
+  });
+
+  it('sends a locked pair at the front together', () => {
+    const queue = [
+      createPlayer({ id: 'a', lockedPartnerId: 'c' }),
+      createPlayer({ id: 'b' }),
+      createPlayer({ id: 'c', lockedPartnerId: 'a' }),
+    ];
+    expect(selectChallengers(queue, 'doubles')!.map(p => p.id)).toEqual(['a', 'c']);
+  });
+
+  it('skips locked players whose partner is not at the front', () => {
+    const queue = [
+      createPlayer({ id: 'a' }),
+      createPlayer({ id: 'b', lockedPartnerId: 'x' }),
+      createPlayer({ id: 'c' }),
+    ];
+    expect(selectChallengers(queue, 'doubles')!.map(p => p.id)).toEqual(['a', 'c']);
+  });
+});
+
 describe('calculateLeaderboard', () => {
   it('excludes players with 0 games', () => {
     const players = [
@@ -475,6 +866,16 @@ describe('calculateLeaderboard', () => {
     expect(result[1].name).toBe('LowPct');
   });
 
+  it('breaks win% ties with point differential', () => {
+    const players = [
+      createPlayer({ name: 'Amy', gamesPlayed: 4, wins: 2, losses: 2, points: 30, pointsAgainst: 33 }), // -3
+      createPlayer({ name: 'Zed', gamesPlayed: 4, wins: 2, losses: 2, points: 40, pointsAgainst: 32 }), // +8
+    ];
+
+    const result = calculateLeaderboard(players);
+    expect(result.map(p => p.name)).toEqual(['Zed', 'Amy']);
+  });
+
   it('breaks win% ties with fewer games played', () => {
     // Note: This tiebreaker (fewer games) can only apply when wins AND win% are equal
     // wins equal + win% equal implies gamesPlayed equal, so this tiebreaker
@@ -519,3 +920,21 @@ describe('getWinPercentage', () => {
     expect(getWinPercentage(player)).toBe(33); // 33.33... rounds to 33
   });
 });
+
+describe('DEFAULT_MATCHING_STRATEGY', () => {
+  it('selects by queue order like selectNextPlayers', () => {
+    const queue = createPlayers(6);
+    expect(DEFAULT_MATCHING_STRATEGY.selectNextPlayers(queue, 'doubles')).toEqual(selectNextPlayers(queue, 'doubles'));
+  });
+
+  it('forms locked pairs into teams', () => {
+    const p1 = createPlayer({ id: 'p1', lockedPartnerId: 'p2' });
+    const p2 = createPlayer({ id: 'p2', lockedPartnerId: 'p1' });
+    const p3 = createPlayer({ id: 'p3' });
+    const p4 = createPlayer({ id: 'p4' });
+
+    const teams = DEFAULT_MATCHING_STRATEGY.formTeams([p1, p2, p3, p4], 'doubles')!;
+    const lockedTeam = teams.team1.some(p => p.id === 'p1') ? teams.team1 : teams.team2;
+    expect(lockedTeam.map(p => p.id).sort()).toEqual(['p1', 'p2']);
+  });
+});
@@ -1,14 +1,120 @@
-import type { Player, Match, GameMode } from '../types';
+import type { Player, Match, GameMode, PairingHistory, CourtTier, SkillLevel, PlayerCategory, QueuePriorityPolicy } from '../types';
+import { DEFAULT_QUEUE_PRIORITY } from '../types';
 import { generateId } from './storage';
+import { getPlayerRating, getTeamRating, RATING_PER_SKILL_LEVEL } from './rating';
+import { getGroupRepeatScore, getTeamsRepeatScore } from './history';
+import { shuffle, type Rng } from './random';
+import { hasBlockedPair, isBlockedPair, type BlockedPairs } from './avoidList';
+import { getPointDifferential } from './score';
+import { currentTime } from './clock';
+
+// How many players past the top 4 we'll consider to avoid repeat matchups
+const REPEAT_AVOIDANCE_WINDOW = 2;
+// How many players past the ones needed we'll search for a group the avoid
+// list allows; keeps the search small when there isn't one
+const AVOID_LIST_SEARCH_WINDOW = 8;
+// Cost of skipping one queue spot, in repeat meetings
+const QUEUE_SKIP_WEIGHT = 1;
+// Cap on player swaps when spreading players across several courts
+const MAX_COURT_OPTIMIZATION_SWAPS = 50;
 
 interface MatchCandidate {
   player: Player;
   priority: number;
 }
 
-function calculatePriority(_player: Player, queuePosition: number): number {
+export interface Teams {
+  team1: Player[];
+  team2: Player[];
+}
+
+// Court tiers restrict which staff-assigned skill levels may play on a court.
+// Players without a skill level can only play on open courts.
+export const COURT_TIERS: Record<CourtTier, { label: string; skills: SkillLevel[] | null }> = {
+  open: { label: 'Open', skills: null },
+  beginner: { label: 'Beginner', skills: [1] },
+  intermediate: { label: 'Intermediate', skills: [2] },
+  advanced: { label: 'Advanced', skills: [3] },
+};
+
+export function getCourtTier(courtTiers: Record<number, CourtTier> | undefined, court: number): CourtTier {
+  return courtTiers?.[court] ?? 'open';
+}
+
+export function isEligibleForCourt(player: Player, tier: CourtTier): boolean {
+  const skills = COURT_TIERS[tier].skills;
+  return skills === null || skills.includes(player.skill);
+}
+
+// Mixed doubles: every team has one player from each category
+export const PLAYER_CATEGORIES: Record<Exclude<PlayerCategory, null>, { label: string }> = {
+  M: { label: 'Men' },
+  F: { label: 'Women' },
+};
+
+export function isMixedTeam(team: Player[]): boolean {
+  return team.length === 2 && team[0].category !== null && team[1].category !== null &&
+    team[0].category !== team[1].category;
+}
+
+// Whether four players can be split into two mixed teams without breaking a locked pair
+export function canFormMixedTeams(players: Player[]): boolean {
+  if (players.length !== 4) return false;
+  const men = players.filter(p => p.category === 'M').length;
+  const women = players.filter(p => p.category === 'F').length;
+  if (men !== 2 || women !== 2) return false;
+
+  return players.every(p => {
+    const partner = players.find(other => other.id === p.lockedPartnerId);
+    return !partner || isMixedTeam([p, partner]);
+  });
+}
+
+// First four in queue order that can make two mixed teams. Locked pairs only
+// count if they're a mixed team themselves and their partner is in the queue.
+function selectMixedGroup(queue: Player[]): Player[] | null {
+  const needed: Record<string, number> = { M: 2, F: 2 };
+  const selected: Player[] = [];
+
+  for (const player of queue) {
+    if (selected.length === 4) break;
+    if (player.category === null || selected.includes(player)) continue;
+
+    if (player.lockedPartnerId) {
+      const partner = queue.find(p => p.id === player.lockedPartnerId);
+      if (!partner || !isMixedTeam([player, partner])) continue;
+      if (needed.M < 1 || needed.F < 1) continue;
+      selected.push(player, partner);
+      needed.M--;
+      needed.F--;
+      continue;
+    }
+
+    if (needed[player.category] < 1) continue;
+    selected.push(player);
+    needed[player.category]--;
+  }
+
+  return selected.length === 4 ? selected : null;
+}
+
+// Whether the longest-waiting player has waited long enough that we should
+// stop holding out for a mixed four and play regular doubles instead
+export function hasWaitedForMixed(queue: Player[], fallbackMinutes: number, now: number): boolean {
+  const longestWait = Math.max(0, ...queue.map(p => now - (p.checkedInAt ?? now)));
+  return longestWait >= fallbackMinutes * 60 * 1000;
+}
+
+const MINUTE = 60 * 1000;
+
+function calculatePriority(
+  player: Player,
+  queuePosition: number,
+  policy: QueuePriorityPolicy = DEFAULT_QUEUE_PRIORITY,
+  now: number = currentTime()
+): number {
   // Lower number = higher priority
-  // Pure queue position - first come, first served within the rotation
+  // Default policy: pure queue position - first come, first served within the rotation
   //
   // This ensures:
   // - Late arrivals go to back of queue and wait their turn
@@ -16,29 +122,55 @@ function calculatePriority(_player: Player, queuePosition: number): number {
   // - Person who arrived at hour 0 will naturally play ~2x games vs hour 1.5 arrival
   //   because they've been through more rotation cycles
   //
-  // Games played is NOT factored in - we trust the natural queue rotation
-  // to be fair over time. Trying to "catch up" late arrivals is unfair to
-  // people who showed up on time.
-  return queuePosition;
+  // Games played is NOT factored in by default - we trust the natural queue
+  // rotation to be fair over time. Trying to "catch up" late arrivals is unfair
+  // to people who showed up on time. Sessions that want otherwise can set a
+  // priority policy, whose weights move players up or down by queue spots.
+  const minutesWaiting = player.checkedInAt !== null ? (now - player.checkedInAt) / MINUTE : 0;
+  const minutesSinceArrival = player.arrivedAt !== null ? (now - player.arrivedAt) / MINUTE : 0;
+
+  return queuePosition
+    - policy.waitTime * minutesWaiting
+    + policy.gamesPlayed * player.gamesPlayed
+    - policy.arrival * minutesSinceArrival
+    - (player.isMember ? policy.membership : 0);
+}
+
+function isFirstComeFirstServed(policy: QueuePriorityPolicy): boolean {
+  return policy.waitTime === 0 && policy.gamesPlayed === 0 && policy.arrival === 0 && policy.membership === 0;
 }
 
-// Calculate average skill of a pair (returns null if neither has skill set)
-function getPairAverageSkill(pair: Player[]): number | null {
-  const skills = pair.map(p => p.skill).filter(s => s !== null) as number[];
-  if (skills.length === 0) return null;
-  return skills.reduce((a, b) => a + b, 0) / skills.length;
+// Order the queue by a priority policy (highest priority first).
+// With the default policy this is just the queue as given.
+export function prioritizeQueue(
+  queue: Player[],
+  policy: QueuePriorityPolicy = DEFAULT_QUEUE_PRIORITY,
+  now: number = currentTime()
+): Player[] {
+  if (isFirstComeFirstServed(policy)) return queue;
+  return queue
+    .map((player, index) => ({ player, priority: calculatePriority(player, index, policy, now) }))
+    .sort((a, b) => a.priority - b.priority)
+    .map(c => c.player);
+}
+
+// Calculate average rating of a pair (returns null if neither has a rating or skill)
+function getPairAverageRating(pair: Player[]): number | null {
+  const ratings = pair.map(getPlayerRating).filter(r => r !== null) as number[];
+  if (ratings.length === 0) return null;
+  return ratings.reduce((a, b) => a + b, 0) / ratings.length;
 }
 
-// Check if two pairs have a significant skill gap (> 1 level difference)
+// Check if two pairs have a significant skill gap (> 1 skill level worth of rating)
 function pairsHaveSkillGap(pair1: Player[], pair2: Player[]): boolean {
-  const skill1 = getPairAverageSkill(pair1);
-  const skill2 = getPairAverageSkill(pair2);
+  const rating1 = getPairAverageRating(pair1);
+  const rating2 = getPairAverageRating(pair2);
 
   // If either pair has no skill info, no gap to detect
-  if (skill1 === null || skill2 === null) return false;
+  if (rating1 === null || rating2 === null) return false;
 
   // Gap of more than 1 level is considered significant
-  return Math.abs(skill1 - skill2) > 1;
+  return Math.abs(rating1 - rating2) > RATING_PER_SKILL_LEVEL;
 }
 
 // Check if two pairs just played against each other (both players in pair have same lastPartner pointing to other pair)
@@ -68,10 +200,116 @@ function pairsJustPlayed(pair1: Player[], pair2: Player[]): boolean {
   return false;
 }
 
-export function selectNextPlayers(queue: Player[], gameMode: GameMode): Player[] | null {
+// Count partner problems for a proposed split: teammates from the previous game,
+// plus (when session history is available) every repeat pairing this session
+function countPartnerIssues(team1: Player[], team2: Player[], history?: PairingHistory): number {
+  const wasRecent = (team: Player[]) =>
+    team[0].lastPartner === team[1].id || team[1].lastPartner === team[0].id;
+
+  let issues = (wasRecent(team1) ? 1 : 0) + (wasRecent(team2) ? 1 : 0);
+  if (history) {
+    issues += getTeamsRepeatScore(history, team1, team2);
+  }
+  return issues;
+}
+
+// Pick the group of 4 that has shared a court least this session, looking a few
+// spots past the top 4. Each spot a player is skipped costs as much as one repeat
+// meeting, so queue order still wins unless the top 4 keep running into each other.
+function selectFreshestGroup(ordered: Player[], lockedIds: Set<string>, history: PairingHistory): Player[] {
+  const window = [
+    ...ordered.slice(0, 4),
+    ...ordered.slice(4).filter(p => !lockedIds.has(p.id)).slice(0, REPEAT_AVOIDANCE_WINDOW),
+  ];
+
+  let best = window.slice(0, 4);
+  let bestCost = getGroupRepeatScore(history, best);
+
+  for (let a = 0; a < window.length; a++) {
+    for (let b = a + 1; b < window.length; b++) {
+      for (let c = b + 1; c < window.length; c++) {
+        for (let d = c + 1; d < window.length; d++) {
+          const group = [window[a], window[b], window[c], window[d]];
+          const skipped = a + b + c + d - 6; // 0 for the top 4
+          const cost = getGroupRepeatScore(history, group) + skipped * QUEUE_SKIP_WEIGHT;
+          if (cost < bestCost) {
+            best = group;
+            bestCost = cost;
+          }
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+// Earliest group in queue order with nobody on each other's avoid list,
+// looking a few spots past the front of the queue. In doubles, locked partners
+// come as a pair; mixed groups must still make two mixed teams (or one, for a
+// pair of challengers).
+function selectUnblockedGroup(
+  queue: Player[],
+  needed: number,
+  blocked: BlockedPairs,
+  keepLockedPairs: boolean,
+  mixed: boolean = false
+): Player[] | null {
+  const window = queue.slice(0, needed + AVOID_LIST_SEARCH_WINDOW);
+  const search = (start: number, group: Player[]): Player[] | null => {
+    if (group.length === needed) {
+      if (!mixed) return group;
+      return (needed === 4 ? canFormMixedTeams(group) : isMixedTeam(group)) ? group : null;
+    }
+    for (let i = start; i < window.length; i++) {
+      const player = window[i];
+      if (group.includes(player)) continue;
+
+      const partner = keepLockedPairs && player.lockedPartnerId
+        ? queue.find(p => p.id === player.lockedPartnerId)
+        : undefined;
+      if (keepLockedPairs && player.lockedPartnerId && !partner) continue;
+
+      const additions = partner ? [player, partner] : [player];
+      if (group.length + additions.length > needed) continue;
+      if (hasBlockedPair([...group, ...additions], blocked)) continue;
+
+      const result = search(i + 1, [...group, ...additions]);
+      if (result) return result;
+    }
+    return null;
+  };
+  return search(0, []);
+}
+
+export function selectNextPlayers(
+  queue: Player[],
+  gameMode: GameMode,
+  history?: PairingHistory,
+  mixed: boolean = false,
+  blocked?: BlockedPairs,
+  policy?: QueuePriorityPolicy
+): Player[] | null {
   const needed = gameMode === 'doubles' ? 4 : 2;
   if (queue.length < needed) return null;
 
+  // Apply the priority policy up front; everything below works in that order
+  if (policy) {
+    return selectNextPlayers(prioritizeQueue(queue, policy), gameMode, history, mixed, blocked);
+  }
+
+  // Avoid list is a hard constraint: if the usual pick puts two blocked
+  // players together, take the earliest group in the queue that doesn't
+  if (blocked && blocked.size > 0) {
+    const selected = selectNextPlayers(queue, gameMode, history, mixed);
+    if (selected && !hasBlockedPair(selected, blocked)) return selected;
+    return selectUnblockedGroup(queue, needed, blocked, gameMode === 'doubles', mixed && gameMode === 'doubles');
+  }
+
+  if (mixed && gameMode === 'doubles') {
+    return selectMixedGroup(queue);
+  }
+
   // For singles, try to match players of similar skill
   if (gameMode === 'singles') {
     const candidates: MatchCandidate[] = queue.map((player, index) => ({
@@ -152,6 +390,11 @@ export function selectNextPlayers(queue: Player[], gameMode: GameMode): Player[]
 
     // If no locked pairs are in top 4, use top 4 but check for same-match grouping
     if (relevantLockedPairs.length === 0) {
+      // With session history, weigh every repeat meeting against queue order
+      if (history) {
+        return selectFreshestGroup(allCandidates.map(c => c.player), seenIds, history);
+      }
+
       // Check if 3+ of top 4 just played in the same match
       const lastMatchIds = top4.map(p => p.lastMatchId).filter(id => id !== null);
       const matchIdCounts = new Map<string, number>();
@@ -223,12 +466,12 @@ export function selectNextPlayers(queue: Player[], gameMode: GameMode): Player[]
         }
         // If we have 3+ relevant locked pairs, try to find a better skill match
         if (relevantLockedPairs.length >= 3) {
-          const pair0Skill = getPairAverageSkill(relevantLockedPairs[0]);
+          const pair0Skill = getPairAverageRating(relevantLockedPairs[0]);
           let bestMatchIdx = 2;
           let bestGap = Infinity;
 
           for (let i = 2; i < relevantLockedPairs.length; i++) {
-            const pairSkill = getPairAverageSkill(relevantLockedPairs[i]);
+            const pairSkill = getPairAverageRating(relevantLockedPairs[i]);
             if (pair0Skill !== null && pairSkill !== null) {
               const gap = Math.abs(pair0Skill - pairSkill);
               if (gap < bestGap) {
@@ -271,11 +514,54 @@ export function selectNextPlayers(queue: Player[], gameMode: GameMode): Player[]
   return candidates.slice(0, needed).map(c => c.player);
 }
 
+// Split a mixed-capable four into two mixed teams. There are only two ways to
+// do that: prefer the more balanced one, unless it repeats partners and the other doesn't.
+function formMixedTeams(
+  players: Player[],
+  avoidPartners: boolean,
+  history: PairingHistory | undefined,
+  rng: Rng
+): Teams {
+  const [man1, man2] = players.filter(p => p.category === 'M');
+  const [woman1, woman2] = players.filter(p => p.category === 'F');
+
+  let options: Teams[] = [
+    { team1: [man1, woman1], team2: [man2, woman2] },
+    { team1: [man1, woman2], team2: [man2, woman1] },
+  ];
+
+  const hasSkills = players.some(p => getPlayerRating(p) !== null);
+  const ratingGap = (teams: Teams) => Math.abs(getTeamRating(teams.team1) - getTeamRating(teams.team2));
+
+  if (hasSkills) {
+    options.sort((a, b) => ratingGap(a) - ratingGap(b));
+  } else {
+    options = shuffle(options, rng);
+  }
+
+  if (avoidPartners) {
+    const preferredIssues = countPartnerIssues(options[0].team1, options[0].team2, history);
+    if (preferredIssues > 0 &&
+        countPartnerIssues(options[1].team1, options[1].team2, history) < preferredIssues) {
+      return options[1];
+    }
+  }
+
+  return options[0];
+}
+
 export function formTeams(
   players: Player[],
   gameMode: GameMode,
-  avoidPartners: boolean = true
-): { team1: Player[]; team2: Player[] } | null {
+  avoidPartners: boolean = true,
+  history?: PairingHistory,
+  rng: Rng = Math.random,
+  mixed: boolean = false,
+  blocked?: BlockedPairs
+): Teams | null {
+  // Blocked players can't share a court on either side
+  if (hasBlockedPair(players, blocked)) return null;
+
   // Singles mode: 2 players, one per "team"
   if (gameMode === 'singles') {
     if (players.length !== 2) return null;
@@ -312,7 +598,7 @@ export function formTeams(
 
   // If we have 2 locked pairs, each pair becomes a team (randomize sides)
   if (lockedPairs.length === 2) {
-    if (Math.random() < 0.5) {
+    if (rng() < 0.5) {
       return { team1: lockedPairs[0], team2: lockedPairs[1] };
     } else {
       return { team1: lockedPairs[1], team2: lockedPairs[0] };
@@ -321,22 +607,27 @@ export function formTeams(
 
   // If we have 1 locked pair, they are team1, unlocked players are team2 (randomize sides)
   if (lockedPairs.length === 1 && unlockedPlayers.length === 2) {
-    if (Math.random() < 0.5) {
+    if (rng() < 0.5) {
       return { team1: lockedPairs[0], team2: unlockedPlayers };
     } else {
       return { team1: unlockedPlayers, team2: lockedPairs[0] };
     }
   }
 
+  // Mixed doubles - only when this four can actually make two mixed teams
+  if (mixed && canFormMixedTeams(players)) {
+    return formMixedTeams(players, avoidPartners, history, rng);
+  }
+
   // No locked pairs - use original skill-based or random logic
   const sorted = [...players];
 
-  // Check if we have skill levels set
-  const hasSkills = sorted.some(p => p.skill !== null);
+  // Check if we have ratings (or staff-assigned skill levels to seed them)
+  const hasSkills = sorted.some(p => getPlayerRating(p) !== null);
 
   if (hasSkills) {
-    // Sort by skill level for balanced team formation
-    sorted.sort((a, b) => (b.skill ?? 0) - (a.skill ?? 0));
+    // Sort by rating for balanced team formation
+    sorted.sort((a, b) => (getPlayerRating(b) ?? 0) - (getPlayerRating(a) ?? 0));
 
     // Try to form balanced teams: High+Low vs High+Low
     // sorted[0] = highest skill, sorted[3] = lowest skill
@@ -345,26 +636,15 @@ export function formTeams(
 
     // Check if we should avoid recent partners
     if (avoidPartners) {
-      const team1WasRecent = sorted[0].lastPartner === sorted[3].id ||
-                            sorted[3].lastPartner === sorted[0].id;
-      const team2WasRecent = sorted[1].lastPartner === sorted[2].id ||
-                            sorted[2].lastPartner === sorted[1].id;
+      const originalIssues = countPartnerIssues(team1, team2, history);
 
-      // If both teams have recent partners, try swapping
-      if (team1WasRecent || team2WasRecent) {
+      // If either team has recent or repeat partners, try swapping
+      if (originalIssues > 0) {
         const altTeam1: Player[] = [sorted[0], sorted[2]];
         const altTeam2: Player[] = [sorted[1], sorted[3]];
 
-        const altTeam1Recent = sorted[0].lastPartner === sorted[2].id ||
-                              sorted[2].lastPartner === sorted[0].id;
-        const altTeam2Recent = sorted[1].lastPartner === sorted[3].id ||
-                              sorted[3].lastPartner === sorted[1].id;
-
-        // Use alternative if it has fewer recent partner issues
-        const originalIssues = (team1WasRecent ? 1 : 0) + (team2WasRecent ? 1 : 0);
-        const altIssues = (altTeam1Recent ? 1 : 0) + (altTeam2Recent ? 1 : 0);
-
-        if (altIssues < originalIssues) {
+        // Use alternative if it has fewer partner issues
+        if (countPartnerIssues(altTeam1, altTeam2, history) < originalIssues) {
           team1 = altTeam1;
           team2 = altTeam2;
         }
@@ -374,33 +654,22 @@ export function formTeams(
     return { team1, team2 };
   } else {
     // No skill levels - random assignment
-    const shuffled = [...sorted].sort(() => Math.random() - 0.5);
+    const shuffled = shuffle(sorted, rng);
 
     let team1: Player[] = [shuffled[0], shuffled[1]];
     let team2: Player[] = [shuffled[2], shuffled[3]];
 
     // Try to avoid recent partners even in random mode
     if (avoidPartners) {
-      const team1WasRecent = shuffled[0].lastPartner === shuffled[1].id ||
-                            shuffled[1].lastPartner === shuffled[0].id;
-      const team2WasRecent = shuffled[2].lastPartner === shuffled[3].id ||
-                            shuffled[3].lastPartner === shuffled[2].id;
+      const originalIssues = countPartnerIssues(team1, team2, history);
 
-      if (team1WasRecent || team2WasRecent) {
+      if (originalIssues > 0) {
         // Try alternative arrangement
         const altTeam1: Player[] = [shuffled[0], shuffled[2]];
         const altTeam2: Player[] = [shuffled[1], shuffled[3]];
 
-        const altTeam1Recent = shuffled[0].lastPartner === shuffled[2].id ||
-                              shuffled[2].lastPartner === shuffled[0].id;
-        const altTeam2Recent = shuffled[1].lastPartner === shuffled[3].id ||
-                              shuffled[3].lastPartner === shuffled[1].id;
-
-        // Use alternative if it has fewer recent partner issues
-        const originalIssues = (team1WasRecent ? 1 : 0) + (team2WasRecent ? 1 : 0);
-        const altIssues = (altTeam1Recent ? 1 : 0) + (altTeam2Recent ? 1 : 0);
-
-        if (altIssues < originalIssues) {
+        // Use alternative if it has fewer partner issues
+        if (countPartnerIssues(altTeam1, altTeam2, history) < originalIssues) {
           team1 = altTeam1;
           team2 = altTeam2;
         }
@@ -411,28 +680,190 @@ export function formTeams(
   }
 }
 
+// How lopsided and repetitive a proposed split is (lower is better).
+// One skill level of rating gap between teams costs the same as one repeat meeting.
+function getSplitCost(team1: Player[], team2: Player[], history?: PairingHistory): number {
+  const gap = Math.abs(getTeamRating(team1) - getTeamRating(team2)) / RATING_PER_SKILL_LEVEL;
+  const repeats = history ? getTeamsRepeatScore(history, team1, team2) : 0;
+  return gap + repeats;
+}
+
+// Best achievable split cost for one court's players, keeping locked pairs together
+function getCourtGroupCost(group: Player[], gameMode: GameMode, history?: PairingHistory): number {
+  if (gameMode === 'singles') {
+    return getSplitCost([group[0]], [group[1]], history);
+  }
+
+  const [a, b, c, d] = group;
+  const splits: Player[][][] = [
+    [[a, b], [c, d]],
+    [[a, c], [b, d]],
+    [[a, d], [b, c]],
+  ];
+  const isLockedTogether = (p: Player, q: Player) => p.lockedPartnerId === q.id;
+  const validSplits = splits.filter(([team1, team2]) =>
+    [team1, team2].every(team =>
+      team.every(p => {
+        const partnerInGroup = group.find(q => isLockedTogether(p, q));
+        return !partnerInGroup || team.includes(partnerInGroup);
+      })
+    )
+  );
+
+  return Math.min(
+    ...(validSplits.length > 0 ? validSplits : splits).map(([team1, team2]) =>
+      getSplitCost(team1, team2, history)
+    )
+  );
+}
+
+// Split a court group into swappable units: locked pairs move together
+function getSwapUnits(group: Player[]): Player[][] {
+  const units: Player[][] = [];
+  const seenIds = new Set<string>();
+  for (const player of group) {
+    if (seenIds.has(player.id)) continue;
+    const partner = group.find(p => p.id === player.lockedPartnerId);
+    const unit = partner ? [player, partner] : [player];
+    unit.forEach(p => seenIds.add(p.id));
+    units.push(unit);
+  }
+  return units;
+}
+
+// Whether a player may be placed in the group for a given court (by index)
+type CourtEligibility = (player: Player, groupIndex: number) => boolean;
+
+// Apply the first swap between two courts that lowers their combined cost.
+// Returns false once no swap helps.
+function applyImprovingSwap(
+  groups: Player[][],
+  costs: number[],
+  gameMode: GameMode,
+  history: PairingHistory | undefined,
+  canPlay: CourtEligibility,
+  blocked: BlockedPairs | undefined
+): boolean {
+  for (let i = 0; i < groups.length; i++) {
+    for (let j = i + 1; j < groups.length; j++) {
+      for (const unitA of getSwapUnits(groups[i])) {
+        for (const unitB of getSwapUnits(groups[j])) {
+          if (unitA.length !== unitB.length) continue;
+          if (!unitB.every(p => canPlay(p, i)) || !unitA.every(p => canPlay(p, j))) continue;
+
+          const candidateI = [...groups[i].filter(p => !unitA.includes(p)), ...unitB];
+          const candidateJ = [...groups[j].filter(p => !unitB.includes(p)), ...unitA];
+          if (hasBlockedPair(candidateI, blocked) || hasBlockedPair(candidateJ, blocked)) continue;
+          const costI = getCourtGroupCost(candidateI, gameMode, history);
+          const costJ = getCourtGroupCost(candidateJ, gameMode, history);
+
+          // Small epsilon so floating-point noise can't cause endless swapping
+          if (costI + costJ < costs[i] + costs[j] - 1e-9) {
+            groups[i] = candidateI;
+            groups[j] = candidateJ;
+            costs[i] = costI;
+            costs[j] = costJ;
+            return true;
+          }
+        }
+      }
+    }
+  }
+  return false;
+}
+
+// Rearrange the players chosen for several free courts so that skill balance and
+// pairing variety come out best overall. Only players already chosen by queue
+// priority are moved between courts, so nobody jumps the queue, and players
+// only move onto courts they're eligible for and away from anyone they must avoid.
+export function optimizeCourtGroups(
+  groups: Player[][],
+  gameMode: GameMode,
+  history?: PairingHistory,
+  canPlay: CourtEligibility = () => true,
+  blocked?: BlockedPairs
+): Player[][] {
+  const result = groups.map(g => [...g]);
+  const costs = result.map(g => getCourtGroupCost(g, gameMode, history));
+
+  let swaps = 0;
+  while (swaps < MAX_COURT_OPTIMIZATION_SWAPS && applyImprovingSwap(result, costs, gameMode, history, canPlay, blocked)) {
+    swaps++;
+  }
+
+  return result;
+}
+
+// A matching strategy decides who plays next and how they split into teams.
+// Queue order is the only one so far; another rotation style would be a
+// second strategy, stored on the session along with a way to pick it.
+export interface MatchingStrategy {
+  selectNextPlayers: (
+    queue: Player[], gameMode: GameMode, history?: PairingHistory, mixed?: boolean, blocked?: BlockedPairs,
+    policy?: QueuePriorityPolicy
+  ) => Player[] | null;
+  formTeams: (
+    players: Player[], gameMode: GameMode, history?: PairingHistory, rng?: Rng, mixed?: boolean, blocked?: BlockedPairs
+  ) => Teams | null;
+}
+
+// Default: first come, first served with locked pairs and skill balancing
+export const DEFAULT_MATCHING_STRATEGY: MatchingStrategy = {
+  selectNextPlayers,
+  formTeams: (players, gameMode, history, rng, mixed, blocked) =>
+    formTeams(players, gameMode, true, history, rng, mixed, blocked),
+};
+
 export function createMatch(
   court: number,
   team1: Player[],
-  team2: Player[]
+  team2: Player[],
+  id: string = generateId()
 ): Match {
   return {
-    id: generateId(),
+    id,
     court,
     team1: team1.map(p => p.id),
     team2: team2.map(p => p.id),
     winner: null,
-    startTime: Date.now(),
+    score: null,
+    rallies: [],
+    games: [],
+    timeCapped: false,
+    outcome: null,
+    startTime: currentTime(),
     endTime: null,
   };
 }
 
 export function findSubstitute(
   queue: Player[],
-  removedPlayer: Player
+  removedPlayer: Player,
+  mixed: boolean = false,
+  blocked?: BlockedPairs,
+  courtPlayers: Player[] = [],
+  policy?: QueuePriorityPolicy
 ): Player | null {
+  if (policy) {
+    return findSubstitute(prioritizeQueue(queue, policy), removedPlayer, mixed, blocked, courtPlayers);
+  }
+
+  // Nobody on the avoid list of the players staying on court
+  if (blocked && blocked.size > 0) {
+    const allowed = queue.filter(p => !courtPlayers.some(c => isBlockedPair(blocked, p.id, c.id)));
+    return findSubstitute(allowed, removedPlayer, mixed);
+  }
+
   if (queue.length === 0) return null;
 
+  // Mixed doubles: keep the team mixed by subbing in the same category when we can
+  if (mixed && removedPlayer.category !== null) {
+    const sameCategory = queue.filter(p => p.category === removedPlayer.category);
+    if (sameCategory.length > 0) {
+      return findSubstitute(sameCategory, removedPlayer);
+    }
+  }
+
   // Get skill level of removed player
   const targetSkill = removedPlayer.skill;
 
@@ -461,6 +892,78 @@ export function findSubstitute(
   return candidates[0]?.player ?? null;
 }
 
+function selectMixedPair(queue: Player[]): Player[] | null {
+  for (const player of queue) {
+    if (player.category === null) continue;
+    if (player.lockedPartnerId) {
+      const partner = queue.find(p => p.id === player.lockedPartnerId);
+      if (partner && isMixedTeam([player, partner])) return [player, partner];
+      continue;
+    }
+    const partner = queue.find(p =>
+      !p.lockedPartnerId && p.category !== null && p.category !== player.category
+    );
+    if (partner) return [player, partner];
+  }
+  return null;
+}
+
+// Winners-stay mode: pick the challengers who take on the team staying on court.
+// Challengers come off the front of the queue; a locked pair at the front
+// challenges together, otherwise locked players wait for their partner.
+// In mixed doubles the challengers are the first mixed pair in the queue, if there is one.
+// Nobody who is on the avoid list of a player staying on court (or of each other) is picked.
+export function selectChallengers(
+  queue: Player[],
+  gameMode: GameMode,
+  mixed: boolean = false,
+  blocked?: BlockedPairs,
+  stayers: Player[] = [],
+  policy?: QueuePriorityPolicy
+): Player[] | null {
+  const needed = gameMode === 'doubles' ? 2 : 1;
+
+  if (policy) {
+    return selectChallengers(prioritizeQueue(queue, policy), gameMode, mixed, blocked, stayers);
+  }
+
+  if (blocked && blocked.size > 0) {
+    const allowed = queue.filter(p => !stayers.some(s => isBlockedPair(blocked, p.id, s.id)));
+    const challengers = selectChallengers(allowed, gameMode, mixed);
+    if (!challengers || !hasBlockedPair(challengers, blocked)) return challengers;
+    // As above, a mixed pair if there is one, otherwise anyone allowed
+    const mixedPair = mixed && gameMode === 'doubles'
+      ? selectUnblockedGroup(allowed, needed, blocked, true, true)
+      : null;
+    return mixedPair ?? selectUnblockedGroup(allowed, needed, blocked, true);
+  }
+
+  if (queue.length < needed) return null;
+
+  if (gameMode === 'singles') {
+    return [queue[0]];
+  }
+
+  if (mixed) {
+    const mixedPair = selectMixedPair(queue);
+    if (mixedPair) return mixedPair;
+  }
+
+  const first = queue[0];
+  if (first.lockedPartnerId) {
+    const partner = queue.find(p => p.id === first.lockedPartnerId);
+    if (partner) return [first, partner];
+  }
+
+  const unlocked = queue.filter(p => !p.lockedPartnerId);
+  if (unlocked.length >= needed) {
+    return unlocked.slice(0, needed);
+  }
+
+  // Not enough unlocked players - take whoever is next
+  return queue.slice(0, needed);
+}
+
 export function calculateLeaderboard(players: Player[]): Player[] {
   // Filter to only players who played at least one game
   const played = players.filter(p => p.gamesPlayed > 0);
@@ -474,10 +977,15 @@ export function calculateLeaderboard(players: Player[]): Player[] {
     const bWinPct = b.gamesPlayed > 0 ? b.wins / b.gamesPlayed : 0;
     if (bWinPct !== aWinPct) return bWinPct - aWinPct;
 
-    // Tiebreaker 2: Fewer games played (rewards efficiency at same wins)
+    // Tiebreaker 2: Point differential (only moves once scores are entered)
+    const aDiff = getPointDifferential(a);
+    const bDiff = getPointDifferential(b);
+    if (bDiff !== aDiff) return bDiff - aDiff;
+
+    // Tiebreaker 3: Fewer games played (rewards efficiency at same wins)
     if (a.gamesPlayed !== b.gamesPlayed) return a.gamesPlayed - b.gamesPlayed;
 
-    // Tiebreaker 3: Alphabetical
+    // Tiebreaker 4: Alphabetical
     return a.name.localeCompare(b.name);
   });
 }
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import type { MatchOutcome } from '../types';
+import { allowsDraw, getPlayedMatches, isRatedOutcome } from './outcome';
+import { createMatch } from '../test/factories';
+
+const endedMatch = (outcome: MatchOutcome) =>
+  createMatch({ id: outcome, team1: ['a'], team2: ['b'], outcome, startTime: 0, endTime: 1 });
+
+describe('isRatedOutcome', () => {
+  it('only moves ratings for a match played to a result', () => {
+    expect(isRatedOutcome('win')).toBe(true);
+    expect(isRatedOutcome('forfeit')).toBe(false);
+    expect(isRatedOutcome('injury')).toBe(false);
+  });
+});
+
+describe('getPlayedMatches', () => {
+  it('leaves out cancelled matches', () => {
+    const matches = (['win', 'draw', 'cancelled', 'forfeit'] as const).map(endedMatch);
+    expect(getPlayedMatches(matches).map(m => m.id)).toEqual(['win', 'draw', 'forfeit']);
+  });
+});
+
+describe('allowsDraw', () => {
+  it('is allowed only in formats that don\'t move players on a result', () => {
+    expect(allowsDraw('standard')).toBe(true);
+    expect(allowsDraw('round-robin')).toBe(true);
+    expect(allowsDraw('river')).toBe(false);
+    expect(allowsDraw('tournament')).toBe(false);
+    expect(allowsDraw('americano')).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import type { Match, MatchOutcome, RotationMode } from '../types';
+
+// How a match can end besides being played out, and what each does to stats:
+// - forfeit: the other side wins; counts as a win and a loss, but no rating change
+// - injury: a player retires hurt and their side loses, as with a forfeit;
+//   the injured player leaves the session
+// - draw: a game played for everyone, with no win, loss or rating change
+// - cancelled: kept in match history only; no stats at all
+// Points are only ever added from entered scores, so none of these add any,
+// apart from a points-format game scored level, which is a draw with a score.
+
+export const MATCH_OUTCOMES: Record<MatchOutcome, { label: string; short: string }> = {
+  win: { label: 'Played out', short: '' },
+  forfeit: { label: 'Forfeit', short: 'Forfeit' },
+  injury: { label: 'Retired injured', short: 'Ret.' },
+  draw: { label: 'Draw', short: 'Draw' },
+  cancelled: { label: 'Cancelled', short: 'Cancelled' },
+};
+
+// Whether Elo ratings move (only for a match that was played to a result)
+export function isRatedOutcome(outcome: MatchOutcome): boolean {
+  return outcome === 'win';
+}
+
+// Whether the match counts toward games played, wins and losses
+export function countsForStats(outcome: MatchOutcome): boolean {
+  return outcome !== 'cancelled';
+}
+
+// Completed matches that were actually played (anything but a cancellation),
+// for game counts and durations
+export function getPlayedMatches(matches: Match[]): Match[] {
+  return matches.filter(m => m.outcome !== 'cancelled');
+}
+
+// A draw needs a format that doesn't move anyone on a result: the river and
+// brackets need a winner, and points formats rank on the score instead (a
+// level score there is still a draw, but only entered as a score)
+export function allowsDraw(mode: RotationMode): boolean {
+  return mode === 'standard' || mode === 'winners-stay' || mode === 'round-robin';
+}
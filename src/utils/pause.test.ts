@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { getNextBreakTime, getPausedTime, getPlayTime, isPaused } from './pause';
+import type { SessionPause } from '../types';
+
+const MINUTE = 60 * 1000;
+
+function pause(start: number, end: number | null, scheduled = false): SessionPause {
+  return { start: start * MINUTE, end: end === null ? null : end * MINUTE, until: null, scheduled };
+}
+
+describe('isPaused', () => {
+  it('is paused only while the latest pause is open', () => {
+    expect(isPaused([])).toBe(false);
+    expect(isPaused([pause(10, 15)])).toBe(false);
+    expect(isPaused([pause(10, 15), pause(30, null)])).toBe(true);
+  });
+});
+
+describe('getPausedTime', () => {
+  it('counts only the part of each pause inside the window', () => {
+    const pauses = [pause(10, 15), pause(30, 40)];
+    expect(getPausedTime(pauses, 0, 60 * MINUTE)).toBe(15 * MINUTE);
+    expect(getPausedTime(pauses, 12 * MINUTE, 35 * MINUTE)).toBe(8 * MINUTE);
+    expect(getPausedTime(pauses, 20 * MINUTE, 25 * MINUTE)).toBe(0);
+  });
+
+  it('runs an open pause up to the end of the window', () => {
+    expect(getPausedTime([pause(10, null)], 0, 14 * MINUTE)).toBe(4 * MINUTE);
+  });
+});
+
+describe('getPlayTime', () => {
+  it('leaves out paused time', () => {
+    expect(getPlayTime([pause(10, 15)], 0, 20 * MINUTE)).toBe(15 * MINUTE);
+    expect(getPlayTime([], 0, 20 * MINUTE)).toBe(20 * MINUTE);
+  });
+});
+
+describe('getNextBreakTime', () => {
+  it('is due after the set amount of play since the start or the last break', () => {
+    expect(getNextBreakTime([], 60, 0, 20 * MINUTE)).toBe(60 * MINUTE);
+    // A ten-minute water break pushes it back ten minutes
+    expect(getNextBreakTime([pause(10, 20)], 60, 0, 30 * MINUTE)).toBe(70 * MINUTE);
+    expect(getNextBreakTime([pause(60, 70, true)], 60, 0, 80 * MINUTE)).toBe(130 * MINUTE);
+  });
+
+  it('is null without a schedule, before the start or while paused', () => {
+    expect(getNextBreakTime([], null, 0, 0)).toBeNull();
+    expect(getNextBreakTime([], 60, null, 0)).toBeNull();
+    expect(getNextBreakTime([pause(10, null)], 60, 0, 20 * MINUTE)).toBeNull();
+  });
+});
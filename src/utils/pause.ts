@@ -0,0 +1,38 @@
+import type { SessionPause } from '../types';
+
+// Pauses and breaks: while a session is paused no new matches start and the
+// session clock stops, so match clocks, time caps and durations only count
+// time spent playing. Scheduled breaks come round after a set amount of play
+// since the last one.
+
+export function isPaused(pauses: SessionPause[]): boolean {
+  return pauses.length > 0 && pauses[pauses.length - 1].end === null;
+}
+
+// Milliseconds paused between from and to (an open pause runs up to to)
+export function getPausedTime(pauses: SessionPause[], from: number, to: number): number {
+  return pauses.reduce((total, pause) => {
+    const start = Math.max(pause.start, from);
+    const end = Math.min(pause.end ?? to, to);
+    return end > start ? total + end - start : total;
+  }, 0);
+}
+
+// Milliseconds of play between from and to
+export function getPlayTime(pauses: SessionPause[], from: number, to: number): number {
+  return Math.max(0, to - from - getPausedTime(pauses, from, to));
+}
+
+// When the next scheduled break falls due, assuming play carries on until
+// then. Null when breaks aren't scheduled or play is already stopped.
+export function getNextBreakTime(
+  pauses: SessionPause[],
+  everyMinutes: number | null,
+  startTime: number | null,
+  now: number
+): number | null {
+  if (everyMinutes === null || startTime === null || isPaused(pauses)) return null;
+  const lastBreak = pauses.filter(p => p.scheduled).at(-1);
+  const since = lastBreak?.end ?? startTime;
+  return now + everyMinutes * 60 * 1000 - getPlayTime(pauses, since, now);
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { callScore, getGameWinner, getRallyState, type RallyOptions } from './rally';
+
+const doubles: RallyOptions = { gameTo: 11, singles: false, rallyScoring: false };
+const singles: RallyOptions = { gameTo: 11, singles: true, rallyScoring: false };
+const rally: RallyOptions = { gameTo: 11, singles: false, rallyScoring: true };
+
+describe('getGameWinner', () => {
+  it('needs the target and a 2-point lead', () => {
+    expect(getGameWinner({ team1: 11, team2: 7 }, 11)).toBe(1);
+    expect(getGameWinner({ team1: 10, team2: 11 }, 11)).toBeNull();
+    expect(getGameWinner({ team1: 12, team2: 14 }, 11)).toBe(2);
+  });
+});
+
+describe('getRallyState', () => {
+  it('starts doubles at 0-0-2', () => {
+    const state = getRallyState([], doubles);
+    expect(callScore(state, doubles)).toBe('0-0-2');
+  });
+
+  it('only the serving team scores in side-out scoring', () => {
+    // Team 1 wins two, sides out (the opening team has one server), then team 2 wins one
+    const state = getRallyState([1, 1, 2, 2], doubles);
+    expect(state.score).toEqual({ team1: 2, team2: 1 });
+    expect(state.servingTeam).toBe(2);
+    expect(callScore(state, doubles)).toBe('1-2-1');
+  });
+
+  it('passes to the second server before siding out', () => {
+    const opening: (1 | 2)[] = [2]; // Side out after the opening server
+    expect(callScore(getRallyState([...opening, 1], doubles), doubles)).toBe('0-0-2');
+    expect(getRallyState([...opening, 1], doubles).servingTeam).toBe(2);
+    expect(callScore(getRallyState([...opening, 1, 1], doubles), doubles)).toBe('0-0-1');
+    expect(getRallyState([...opening, 1, 1], doubles).servingTeam).toBe(1);
+  });
+
+  it('sides out straight away in singles', () => {
+    const state = getRallyState([1, 2, 2], singles);
+    expect(state.score).toEqual({ team1: 1, team2: 1 });
+    expect(callScore(state, singles)).toBe('1-1');
+  });
+
+  it('scores every rally with rally scoring', () => {
+    const state = getRallyState([2, 2, 1], rally);
+    expect(state.score).toEqual({ team1: 1, team2: 2 });
+    expect(state.servingTeam).toBe(1);
+    expect(callScore(state, rally)).toBe('1-2');
+  });
+
+  it('ends the game at the target and ignores later rallies', () => {
+    const state = getRallyState([...Array(11).fill(1), 2, 2], singles);
+    expect(state.winner).toBe(1);
+    expect(state.score).toEqual({ team1: 11, team2: 0 });
+  });
+});
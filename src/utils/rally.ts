@@ -0,0 +1,64 @@
+import type { MatchScore } from '../types';
+
+// Courtside scorekeeping, one rally at a time. A game is kept as the list of
+// which team won each rally, so undoing a rally is just dropping the last one.
+//
+// Side-out scoring: only the serving team scores. In doubles each partner
+// serves until they lose a rally, then the serve passes to the other team
+// ("side out"). The first serving team gets one server only, so games start
+// at 0-0-2. Rally scoring: every rally scores, and the rally winner serves.
+
+export interface RallyOptions {
+  gameTo: number;
+  singles: boolean;
+  rallyScoring: boolean;
+}
+
+export interface RallyState {
+  score: MatchScore;
+  servingTeam: 1 | 2;
+  serverNumber: 1 | 2; // Doubles side-out only
+  winner: 1 | 2 | null; // Set once a team reaches the target, 2 points clear
+}
+
+export function getGameWinner(score: MatchScore, gameTo: number): 1 | 2 | null {
+  const high = Math.max(score.team1, score.team2);
+  if (high < gameTo || Math.abs(score.team1 - score.team2) < 2) return null;
+  return score.team1 > score.team2 ? 1 : 2;
+}
+
+export function getRallyState(rallies: (1 | 2)[], options: RallyOptions): RallyState {
+  const score = { team1: 0, team2: 0 };
+  let servingTeam: 1 | 2 = 1;
+  let serverNumber: 1 | 2 = options.singles || options.rallyScoring ? 1 : 2;
+  let winner: 1 | 2 | null = null;
+
+  // Rallies after the game was won don't count
+  for (const rally of rallies) {
+    if (winner !== null) break;
+    if (rally === servingTeam || options.rallyScoring) {
+      if (rally === 1) score.team1++;
+      else score.team2++;
+    }
+    if (rally !== servingTeam) {
+      if (serverNumber === 1 && !options.singles && !options.rallyScoring) {
+        serverNumber = 2;
+      } else {
+        servingTeam = rally;
+        serverNumber = 1;
+      }
+    }
+    winner = getGameWinner(score, options.gameTo);
+  }
+
+  return { score, servingTeam, serverNumber, winner };
+}
+
+// The score as it's called before a serve: server's score first, then the
+// receiver's, then the server number in doubles side-out ("4-2-1")
+export function callScore(state: RallyState, options: RallyOptions): string {
+  const serving = state.servingTeam === 1 ? state.score.team1 : state.score.team2;
+  const receiving = state.servingTeam === 1 ? state.score.team2 : state.score.team1;
+  const withServer = !options.singles && !options.rallyScoring;
+  return withServer ? `${serving}-${receiving}-${state.serverNumber}` : `${serving}-${receiving}`;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRng, generateSeed, shuffle } from './random';
+
+describe('createSeededRng', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = createSeededRng(1234);
+    const b = createSeededRng(1234);
+    const seqA = Array.from({ length: 5 }, () => a.next());
+    const seqB = Array.from({ length: 5 }, () => b.next());
+    expect(seqA).toEqual(seqB);
+  });
+
+  it('produces different sequences for different seeds', () => {
+    expect(createSeededRng(1).next()).not.toBe(createSeededRng(2).next());
+  });
+
+  it('returns numbers in [0, 1)', () => {
+    const rng = createSeededRng(99);
+    for (let i = 0; i < 100; i++) {
+      const value = rng.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('can be resumed from its saved state', () => {
+    const original = createSeededRng(7);
+    original.next();
+    original.next();
+    const resumed = createSeededRng(original.getState());
+    expect(resumed.next()).toBe(original.next());
+  });
+});
+
+describe('generateSeed', () => {
+  it('returns an unsigned 32-bit integer', () => {
+    const seed = generateSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(0x100000000);
+  });
+});
+
+describe('shuffle', () => {
+  it('returns a permutation without modifying the input', () => {
+    const items = [1, 2, 3, 4, 5];
+    const result = shuffle(items, createSeededRng(3).next);
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect([...result].sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('is deterministic for a given seed', () => {
+    const items = ['a', 'b', 'c', 'd', 'e', 'f'];
+    expect(shuffle(items, createSeededRng(5).next)).toEqual(shuffle(items, createSeededRng(5).next));
+  });
+});
@@ -0,0 +1,42 @@
+// Seedable randomness for matching, so a session's pairings can be replayed exactly.
+// Anything that needs randomness takes an `Rng` instead of calling Math.random.
+
+// Returns a number in [0, 1), like Math.random
+export type Rng = () => number;
+
+export interface SeededRng {
+  next: Rng;
+  getState: () => number;
+}
+
+// New random seed for a session
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+// mulberry32: small, fast and good enough for shuffling players.
+// The whole generator state is a single 32-bit integer, so it can be stored
+// on the session and resumed after a reload.
+export function createSeededRng(state: number): SeededRng {
+  let current = state >>> 0;
+  return {
+    next: () => {
+      current = (current + 0x6d2b79f5) >>> 0;
+      let t = current;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    },
+    getState: () => current,
+  };
+}
+
+// Fisher-Yates shuffle (returns a new array)
+export function shuffle<T>(items: T[], rng: Rng): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RATING,
+  seedRating,
+  getPlayerRating,
+  getTeamRating,
+  expectedScore,
+  calculateRatingChanges,
+} from './rating';
+import { createPlayer } from '../test/factories';
+
+describe('seedRating', () => {
+  it('maps skill levels onto the rating scale', () => {
+    expect(seedRating(1)).toBe(900);
+    expect(seedRating(2)).toBe(1000);
+    expect(seedRating(3)).toBe(1100);
+    expect(seedRating(null)).toBe(DEFAULT_RATING);
+  });
+});
+
+describe('getPlayerRating', () => {
+  it('prefers the earned rating over the skill seed', () => {
+    expect(getPlayerRating(createPlayer({ skill: 3, rating: 950 }))).toBe(950);
+  });
+
+  it('seeds from skill when unrated', () => {
+    expect(getPlayerRating(createPlayer({ skill: 1 }))).toBe(900);
+  });
+
+  it('returns null when nothing is known', () => {
+    expect(getPlayerRating(createPlayer())).toBeNull();
+  });
+});
+
+describe('getTeamRating', () => {
+  it('averages partners', () => {
+    const team = [createPlayer({ rating: 1200 }), createPlayer({ rating: 1000 })];
+    expect(getTeamRating(team)).toBe(1100);
+  });
+});
+
+describe('expectedScore', () => {
+  it('is 50% for equal ratings', () => {
+    expect(expectedScore(1000, 1000)).toBe(0.5);
+  });
+
+  it('favors the higher rating', () => {
+    expect(expectedScore(1200, 1000)).toBeGreaterThan(0.5);
+  });
+});
+
+describe('calculateRatingChanges', () => {
+  it('moves even teams by half the K-factor', () => {
+    const winners = [createPlayer({ id: 'w1' }), createPlayer({ id: 'w2' })];
+    const losers = [createPlayer({ id: 'l1' }), createPlayer({ id: 'l2' })];
+
+    const ratings = calculateRatingChanges(winners, losers);
+    expect(ratings).toEqual({ w1: 1016, w2: 1016, l1: 984, l2: 984 });
+  });
+
+  it('rewards upsets more than expected wins', () => {
+    const strong = [createPlayer({ id: 's', rating: 1200 })];
+    const weak = [createPlayer({ id: 'w', rating: 1000 })];
+
+    const expectedWin = calculateRatingChanges(strong, weak).s - 1200;
+    const upset = calculateRatingChanges(weak, strong).w - 1000;
+    expect(upset).toBeGreaterThan(expectedWin);
+  });
+});
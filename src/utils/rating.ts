@@ -0,0 +1,62 @@
+import type { Player, SkillLevel } from '../types';
+
+// Elo-style ratings, updated after every recorded game.
+// Staff-assigned skill is the prior: an unrated player's rating is seeded from
+// their skill level until they finish their first rated game.
+
+export const DEFAULT_RATING = 1000;
+
+// Rating points per skill level, so a 1-level skill gap equals 100 rating points
+export const RATING_PER_SKILL_LEVEL = 100;
+
+// How much a single game can move a rating
+const K_FACTOR = 32;
+
+export function seedRating(skill: SkillLevel): number {
+  if (skill === null) return DEFAULT_RATING;
+  return DEFAULT_RATING + (skill - 2) * RATING_PER_SKILL_LEVEL;
+}
+
+// Rating used for matching. Returns null when we know nothing about the player
+// (no games rated and no staff-assigned skill), so matching can ignore them.
+export function getPlayerRating(player: Pick<Player, 'rating' | 'skill'>): number | null {
+  if (player.rating !== null) return player.rating;
+  if (player.skill !== null) return seedRating(player.skill);
+  return null;
+}
+
+// Rating used for Elo updates (falls back to the default for unknown players)
+function getEffectiveRating(player: Pick<Player, 'rating' | 'skill'>): number {
+  return getPlayerRating(player) ?? DEFAULT_RATING;
+}
+
+// Doubles teams are rated as the average of both partners
+export function getTeamRating(team: Pick<Player, 'rating' | 'skill'>[]): number {
+  if (team.length === 0) return DEFAULT_RATING;
+  return team.reduce((sum, p) => sum + getEffectiveRating(p), 0) / team.length;
+}
+
+// Probability that a team rated `rating` beats a team rated `opponentRating`
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+// New ratings for everyone in a finished game, keyed by player ID.
+// Both partners move by the same amount, and the game is zero-sum.
+export function calculateRatingChanges(
+  winners: Player[],
+  losers: Player[]
+): Record<string, number> {
+  const winnerRating = getTeamRating(winners);
+  const loserRating = getTeamRating(losers);
+  const delta = Math.round(K_FACTOR * (1 - expectedScore(winnerRating, loserRating)));
+
+  const ratings: Record<string, number> = {};
+  for (const p of winners) {
+    ratings[p.id] = getEffectiveRating(p) + delta;
+  }
+  for (const p of losers) {
+    ratings[p.id] = getEffectiveRating(p) - delta;
+  }
+  return ratings;
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getNextRiverRound, calculateRiverStandings } from './river';
+import type { Match } from '../types';
+import { createMatch, createPlayer } from '../test/factories';
+
+const courtResult = (court: number, team1: string[], team2: string[], winner: 1 | 2) =>
+  createMatch({ id: `m${court}`, court, team1, team2, winner, outcome: 'win', startTime: 0, endTime: 1 });
+
+const riverPlayer = (id: string, wins = 0) =>
+  createPlayer({ id, name: id, gamesPlayed: 1, wins, losses: 1 - wins, checkedInAt: 0, arrivedAt: 0 });
+
+const everyone = (matches: Match[], extra: string[] = []) =>
+  new Set([...matches.flatMap(m => [...m.team1, ...m.team2]), ...extra]);
+
+describe('getNextRiverRound', () => {
+  const results = [
+    courtResult(1, ['a1', 'a2'], ['a3', 'a4'], 1),
+    courtResult(2, ['b1', 'b2'], ['b3', 'b4'], 2),
+    courtResult(3, ['c1', 'c2'], ['c3', 'c4'], 1),
+  ];
+
+  it('moves winners up and losers down, splitting partners', () => {
+    const next = getNextRiverRound(results, [], everyone(results), 'doubles');
+
+    expect(next.courts).toEqual([
+      { court: 1, team1: ['a1', 'b3'], team2: ['a2', 'b4'] },
+      { court: 2, team1: ['a3', 'c1'], team2: ['a4', 'c2'] },
+      { court: 3, team1: ['b1', 'c3'], team2: ['b2', 'c4'] },
+    ]);
+    expect(next.moves).toMatchObject({ a1: 'stayed', b3: 'up', a3: 'down', c1: 'up', b1: 'down', c3: 'stayed' });
+  });
+
+  it('brings waiting players in on the bottom court in place of its losers', () => {
+    const next = getNextRiverRound(results, ['q1', 'q2'], everyone(results, ['q1', 'q2']), 'doubles');
+
+    expect(next.courts[2]).toEqual({ court: 3, team1: ['b1', 'q1'], team2: ['b2', 'q2'] });
+    expect(next.moves.q1).toBe('joined');
+    expect(next.moves.c3).toBeUndefined();
+  });
+
+  it('fills in for players who have left from the queue, or skips the court', () => {
+    const available = everyone(results, ['q1']);
+    available.delete('a3');
+
+    const next = getNextRiverRound(results, ['q1'], available, 'doubles');
+    expect(next.courts[1]).toEqual({ court: 2, team1: ['q1', 'c1'], team2: ['a4', 'c2'] });
+
+    available.delete('a4');
+    const short = getNextRiverRound(results, ['q1'], available, 'doubles');
+    expect(short.courts.map(c => c.court)).toEqual([1, 3]);
+  });
+
+  it('works for singles', () => {
+    const singles = [courtResult(1, ['a'], ['b'], 2), courtResult(2, ['c'], ['d'], 1)];
+    const next = getNextRiverRound(singles, [], everyone(singles), 'singles');
+
+    expect(next.courts).toEqual([
+      { court: 1, team1: ['b'], team2: ['c'] },
+      { court: 2, team1: ['a'], team2: ['d'] },
+    ]);
+  });
+});
+
+describe('calculateRiverStandings', () => {
+  it('ranks by finishing court, then winners above losers, then wins', () => {
+    const players = ['a', 'b', 'c', 'd'].map((id, i) => riverPlayer(id, i % 2));
+    const matches = [
+      courtResult(1, ['a'], ['b'], 2),
+      courtResult(2, ['c'], ['d'], 1),
+    ];
+
+    const standings = calculateRiverStandings(players, matches);
+    expect(standings.map(s => s.player.id)).toEqual(['b', 'a', 'c', 'd']);
+    expect(standings[0]).toMatchObject({ court: 1, wonLast: true });
+  });
+
+  it('leaves out players who have not finished a game', () => {
+    expect(calculateRiverStandings([riverPlayer('a')], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import type { CourtMove, GameMode, Match, Player } from '../types';
+
+// Up-and-down-the-river: courts are ranked by number, court 1 being the top.
+// Once every court in a round has finished, winners move up a court and losers
+// move down. The top court's winners and the bottom court's losers stay put.
+// The two pairs arriving on a court split up so everyone gets a new partner.
+
+export interface RiverCourt {
+  court: number;
+  team1: string[];
+  team2: string[];
+}
+
+export interface RiverRound {
+  courts: RiverCourt[];
+  moves: Record<string, CourtMove>;
+}
+
+export function getMoveLabel(move: CourtMove): string {
+  switch (move) {
+    case 'up': return 'Moved up';
+    case 'down': return 'Moved down';
+    case 'stayed': return 'Stayed';
+    case 'joined': return 'Joined';
+  }
+}
+
+// Build the next round from the finished round's results. `queue` is everyone
+// waiting who didn't play this round, in queue order: they come in on the
+// bottom court in place of its losers. Players missing from `available`
+// (they've left) are replaced from the queue too; a court that can't be filled
+// is skipped and its players wait in the queue.
+export function getNextRiverRound(
+  results: Match[],
+  queue: string[],
+  available: Set<string>,
+  gameMode: GameMode
+): RiverRound {
+  const teamSize = gameMode === 'doubles' ? 2 : 1;
+  const ranked = [...results].sort((a, b) => a.court - b.court);
+  const last = ranked.length - 1;
+  const winners = ranked.map(m => (m.winner === 1 ? m.team1 : m.team2));
+  const losers = ranked.map(m => (m.winner === 1 ? m.team2 : m.team1));
+
+  const previousCourt: Record<string, number> = {};
+  ranked.forEach(m => {
+    for (const id of [...m.team1, ...m.team2]) previousCourt[id] = m.court;
+  });
+
+  const waiting = queue.filter(id => available.has(id));
+  // Bring waiting players in on the bottom court; its losers sit out
+  const bottomLosers = waiting.length >= teamSize
+    ? waiting.splice(0, teamSize)
+    : losers[last];
+
+  const courts: RiverCourt[] = [];
+  const moves: Record<string, CourtMove> = {};
+
+  ranked.forEach((match, i) => {
+    const fromAbove = i === 0 ? winners[0] : losers[i - 1];
+    const fromBelow = i === last ? bottomLosers : winners[i + 1];
+
+    const [pairA, pairB] = [fromAbove, fromBelow].map(pair =>
+      pair.map(id => (available.has(id) ? id : waiting.shift())));
+    if ([...pairA, ...pairB].some(id => id === undefined)) return;
+
+    // Split the arriving pairs so nobody keeps their partner
+    const team1 = teamSize === 2 ? [pairA[0]!, pairB[0]!] : [pairA[0]!];
+    const team2 = teamSize === 2 ? [pairA[1]!, pairB[1]!] : [pairB[0]!];
+    courts.push({ court: match.court, team1, team2 });
+
+    for (const id of [...team1, ...team2]) {
+      const from = previousCourt[id];
+      moves[id] = from === undefined ? 'joined'
+        : from > match.court ? 'up'
+          : from < match.court ? 'down'
+            : 'stayed';
+    }
+  });
+
+  return { courts, moves };
+}
+
+export interface RiverStanding {
+  player: Player;
+  court: number; // Court of their most recent game
+  wonLast: boolean;
+}
+
+// Ladder order: where everyone finished. Lower courts rank higher, the
+// winners on a court rank above its losers, then total wins break ties.
+export function calculateRiverStandings(players: Player[], matches: Match[]): RiverStanding[] {
+  const standings: RiverStanding[] = [];
+  for (const player of players) {
+    const lastMatch = [...matches].reverse().find(m =>
+      m.winner !== null && (m.team1.includes(player.id) || m.team2.includes(player.id)));
+    if (!lastMatch) continue;
+
+    const wonLast = (lastMatch.winner === 1 ? lastMatch.team1 : lastMatch.team2).includes(player.id);
+    standings.push({ player, court: lastMatch.court, wonLast });
+  }
+
+  return standings.sort((a, b) => {
+    if (a.court !== b.court) return a.court - b.court;
+    if (a.wonLast !== b.wonLast) return a.wonLast ? -1 : 1;
+    if (b.player.wins !== a.player.wins) return b.player.wins - a.player.wins;
+    return a.player.name.localeCompare(b.player.name);
+  });
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { generateRoundRobin, getRoundCount, isRoundComplete } from './schedule';
+import { createSeededRng } from './random';
+import { pairKey } from './history';
+import type { RoundRobinSchedule } from '../types';
+
+const ids = (count: number) => Array.from({ length: count }, (_, i) => `p${i + 1}`);
+
+function countPairs(schedule: RoundRobinSchedule) {
+  const partners: Record<string, number> = {};
+  const opponents: Record<string, number> = {};
+  const games: Record<string, number> = {};
+  for (const round of schedule.rounds) {
+    for (const match of round.matches) {
+      for (const team of [match.team1, match.team2]) {
+        for (const id of team) games[id] = (games[id] ?? 0) + 1;
+        if (team.length === 2) {
+          const key = pairKey(team[0], team[1]);
+          partners[key] = (partners[key] ?? 0) + 1;
+        }
+      }
+      for (const a of match.team1) {
+        for (const b of match.team2) {
+          const key = pairKey(a, b);
+          opponents[key] = (opponents[key] ?? 0) + 1;
+        }
+      }
+    }
+  }
+  return { partners, opponents, games };
+}
+
+describe('getRoundCount', () => {
+  it('covers every partnership in doubles', () => {
+    expect(getRoundCount(8, 'doubles', 2)).toBe(7);
+    expect(getRoundCount(5, 'doubles', 2)).toBe(5);
+  });
+
+  it('covers every matchup in singles', () => {
+    expect(getRoundCount(6, 'singles', 3)).toBe(5);
+  });
+
+  it('is zero without enough players for a game', () => {
+    expect(getRoundCount(3, 'doubles', 2)).toBe(0);
+  });
+});
+
+describe('generateRoundRobin', () => {
+  it('uses every player once per round', () => {
+    const schedule = generateRoundRobin(ids(9), 'doubles', 2, createSeededRng(1).next);
+
+    for (const round of schedule.rounds) {
+      const seen = [...round.byes, ...round.matches.flatMap(m => [...m.team1, ...m.team2])];
+      expect(seen.sort()).toEqual(ids(9).sort());
+      expect(round.matches.map(m => m.court)).toEqual([1, 2]);
+    }
+  });
+
+  it('has everyone partner everyone evenly', () => {
+    const players = ids(8);
+    const schedule = generateRoundRobin(players, 'doubles', 2, createSeededRng(7).next);
+    const { partners, games } = countPairs(schedule);
+
+    expect(schedule.rounds).toHaveLength(7);
+    expect(Object.keys(partners).length).toBeGreaterThanOrEqual(24);
+    expect(Math.max(...Object.values(partners))).toBeLessThanOrEqual(2);
+    expect(new Set(players.map(id => games[id]))).toEqual(new Set([7]));
+  });
+
+  it('spreads byes evenly when the roster does not divide', () => {
+    const players = ids(6);
+    const schedule = generateRoundRobin(players, 'doubles', 2, createSeededRng(3).next);
+    const byes: Record<string, number> = {};
+    for (const round of schedule.rounds) {
+      for (const id of round.byes) byes[id] = (byes[id] ?? 0) + 1;
+    }
+
+    const counts = players.map(id => byes[id] ?? 0);
+    expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(1);
+  });
+
+  it('has everyone face everyone in singles', () => {
+    const schedule = generateRoundRobin(ids(6), 'singles', 3, createSeededRng(5).next);
+    const { opponents } = countPairs(schedule);
+
+    expect(schedule.rounds).toHaveLength(5);
+    expect(Object.keys(opponents).length).toBeGreaterThanOrEqual(13);
+  });
+
+  it('is reproducible from the same seed', () => {
+    const a = generateRoundRobin(ids(10), 'doubles', 2, createSeededRng(11).next);
+    const b = generateRoundRobin(ids(10), 'doubles', 2, createSeededRng(11).next);
+    expect(a).toEqual(b);
+  });
+});
+
+describe('isRoundComplete', () => {
+  const round = {
+    matches: [
+      { court: 1, team1: ['a'], team2: ['b'], matchId: 'm1' },
+      { court: 2, team1: ['c'], team2: ['d'], matchId: null },
+    ],
+    byes: [],
+  };
+
+  it('waits for games still on court or not yet dealt', () => {
+    expect(isRoundComplete(round, new Set(['m1']), new Set(['a', 'b', 'c', 'd']))).toBe(false);
+    expect(isRoundComplete(round, new Set(), new Set(['a', 'b', 'c', 'd']))).toBe(false);
+  });
+
+  it('skips games whose players have left', () => {
+    expect(isRoundComplete(round, new Set(), new Set(['a', 'b', 'c']))).toBe(true);
+  });
+});
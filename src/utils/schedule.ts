@@ -0,0 +1,170 @@
+import type { GameMode, RoundRobinSchedule, ScheduledMatch, ScheduledRound } from '../types';
+import { pairKey } from './history';
+import { shuffle, type Rng } from './random';
+
+// Round-robin schedules for fixed-roster events (league nights).
+// The whole schedule is generated up front so everyone partners and faces
+// everyone as evenly as the roster and court count allow. Each round is built
+// greedily: sit out whoever has had the fewest byes, then try a handful of
+// random splits of everyone else and keep the one with the fewest repeats.
+
+// Random splits tried per round; more gets closer to a perfect schedule
+const ATTEMPTS_PER_ROUND = 40;
+// A repeat partnership is worse than facing someone again
+const PARTNER_REPEAT_WEIGHT = 4;
+const OPPONENT_REPEAT_WEIGHT = 1;
+
+interface PairCounts {
+  partners: Record<string, number>;
+  opponents: Record<string, number>;
+}
+
+function count(counts: Record<string, number>, a: string, b: string): number {
+  return counts[pairKey(a, b)] ?? 0;
+}
+
+function increment(counts: Record<string, number>, a: string, b: string): void {
+  const key = pairKey(a, b);
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+// Number of rounds needed for every pair to meet once in the role that
+// matters: as partners in doubles, as opponents in singles
+export function getRoundCount(playerCount: number, gameMode: GameMode, courts: number): number {
+  const matchesPerRound = getMatchesPerRound(playerCount, gameMode, courts);
+  if (matchesPerRound === 0) return 0;
+
+  const pairs = (playerCount * (playerCount - 1)) / 2;
+  const pairsPerMatch = gameMode === 'doubles' ? 2 : 1;
+  return Math.ceil(pairs / (matchesPerRound * pairsPerMatch));
+}
+
+function getMatchesPerRound(playerCount: number, gameMode: GameMode, courts: number): number {
+  const playersPerMatch = gameMode === 'doubles' ? 4 : 2;
+  return Math.min(courts, Math.floor(playerCount / playersPerMatch));
+}
+
+// Split the players into teams, pairing each with whoever they've partnered least
+function formRoundTeams(players: string[], teamSize: number, counts: PairCounts): string[][] {
+  if (teamSize === 1) return players.map(id => [id]);
+
+  const remaining = [...players];
+  const teams: string[][] = [];
+  while (remaining.length > 0) {
+    const first = remaining.shift()!;
+    let bestIndex = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (count(counts.partners, first, remaining[i]) < count(counts.partners, first, remaining[bestIndex])) {
+        bestIndex = i;
+      }
+    }
+    teams.push([first, ...remaining.splice(bestIndex, 1)]);
+  }
+  return teams;
+}
+
+function getOpponentScore(team1: string[], team2: string[], counts: PairCounts): number {
+  let score = 0;
+  for (const a of team1) {
+    for (const b of team2) {
+      score += count(counts.opponents, a, b);
+    }
+  }
+  return score;
+}
+
+// Match teams up, facing each against the team they've met least
+function formRoundMatches(teams: string[][], counts: PairCounts): ScheduledMatch[] {
+  const remaining = [...teams];
+  const matches: ScheduledMatch[] = [];
+  while (remaining.length > 1) {
+    const team1 = remaining.shift()!;
+    let bestIndex = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (getOpponentScore(team1, remaining[i], counts) < getOpponentScore(team1, remaining[bestIndex], counts)) {
+        bestIndex = i;
+      }
+    }
+    const [team2] = remaining.splice(bestIndex, 1);
+    matches.push({ court: matches.length + 1, team1, team2, matchId: null });
+  }
+  return matches;
+}
+
+function getRoundScore(matches: ScheduledMatch[], counts: PairCounts): number {
+  let score = 0;
+  for (const match of matches) {
+    for (const team of [match.team1, match.team2]) {
+      if (team.length === 2) {
+        score += count(counts.partners, team[0], team[1]) * PARTNER_REPEAT_WEIGHT;
+      }
+    }
+    score += getOpponentScore(match.team1, match.team2, counts) * OPPONENT_REPEAT_WEIGHT;
+  }
+  return score;
+}
+
+function recordRound(matches: ScheduledMatch[], counts: PairCounts): void {
+  for (const match of matches) {
+    for (const team of [match.team1, match.team2]) {
+      if (team.length === 2) increment(counts.partners, team[0], team[1]);
+    }
+    for (const a of match.team1) {
+      for (const b of match.team2) {
+        increment(counts.opponents, a, b);
+      }
+    }
+  }
+}
+
+export function generateRoundRobin(
+  playerIds: string[],
+  gameMode: GameMode,
+  courts: number,
+  rng: Rng
+): RoundRobinSchedule {
+  const teamSize = gameMode === 'doubles' ? 2 : 1;
+  const playing = getMatchesPerRound(playerIds.length, gameMode, courts) * teamSize * 2;
+  const roundCount = getRoundCount(playerIds.length, gameMode, courts);
+
+  const counts: PairCounts = { partners: {}, opponents: {} };
+  const byeCounts: Record<string, number> = Object.fromEntries(playerIds.map(id => [id, 0]));
+  const rounds: ScheduledRound[] = [];
+
+  for (let r = 0; r < roundCount; r++) {
+    // Whoever has sat out least sits out next (ties broken randomly)
+    const byOrder = shuffle(playerIds, rng).sort((a, b) => byeCounts[a] - byeCounts[b]);
+    const byes = byOrder.slice(0, playerIds.length - playing);
+    const roundPlayers = byOrder.slice(playerIds.length - playing);
+
+    let best: ScheduledMatch[] | null = null;
+    let bestScore = Infinity;
+    for (let attempt = 0; attempt < ATTEMPTS_PER_ROUND && bestScore > 0; attempt++) {
+      const teams = formRoundTeams(shuffle(roundPlayers, rng), teamSize, counts);
+      const matches = formRoundMatches(teams, counts);
+      const score = getRoundScore(matches, counts);
+      if (score < bestScore) {
+        best = matches;
+        bestScore = score;
+      }
+    }
+
+    recordRound(best!, counts);
+    for (const id of byes) byeCounts[id]++;
+    rounds.push({ matches: best!, byes });
+  }
+
+  return { rounds, currentRound: 0 };
+}
+
+// A round is done once every match in it has been dealt and left the court,
+// or can't be dealt because one of its players is no longer available
+export function isRoundComplete(
+  round: ScheduledRound,
+  activeMatchIds: Set<string>,
+  availablePlayerIds: Set<string>
+): boolean {
+  return round.matches.every(m => m.matchId
+    ? !activeMatchIds.has(m.matchId)
+    : [...m.team1, ...m.team2].some(id => !availablePlayerIds.has(id)));
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { getScoreError, getPointDifferential, formatPointDifferential } from './score';
+
+describe('getScoreError', () => {
+  it('accepts scores that reach the target with a 2-point lead', () => {
+    expect(getScoreError({ team1: 11, team2: 7 }, 11)).toBeNull();
+    expect(getScoreError({ team1: 9, team2: 11 }, 11)).toBeNull();
+    expect(getScoreError({ team1: 14, team2: 12 }, 11)).toBeNull();
+  });
+
+  it('rejects scores short of the target', () => {
+    expect(getScoreError({ team1: 10, team2: 7 }, 11)).toBe('Games are played to 11');
+  });
+
+  it('requires winning by 2', () => {
+    expect(getScoreError({ team1: 11, team2: 10 }, 11)).toBe('Must win by 2');
+    expect(getScoreError({ team1: 11, team2: 11 }, 11)).toBe('Must win by 2');
+  });
+
+  it('rejects games that ran on past a 2-point lead', () => {
+    expect(getScoreError({ team1: 13, team2: 9 }, 11)).not.toBeNull();
+  });
+
+  it('rejects negative or fractional scores', () => {
+    expect(getScoreError({ team1: 11, team2: -1 }, 11)).not.toBeNull();
+    expect(getScoreError({ team1: 11.5, team2: 3 }, 11)).not.toBeNull();
+  });
+});
+
+describe('point differential', () => {
+  it('is points scored minus points conceded', () => {
+    expect(getPointDifferential({ points: 30, pointsAgainst: 41 })).toBe(-11);
+    expect(formatPointDifferential(5)).toBe('+5');
+    expect(formatPointDifferential(-3)).toBe('-3');
+    expect(formatPointDifferential(0)).toBe('0');
+  });
+});
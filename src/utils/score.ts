@@ -0,0 +1,28 @@
+import type { MatchScore } from '../types';
+
+// Final scores are played to a target and must be won by 2: 11-9 and 14-12
+// are valid, 11-10 and 13-9 (at 11) are not.
+
+// Why a score can't be right, or null when it's a valid final score
+export function getScoreError(score: MatchScore, gameTo: number): string | null {
+  const { team1, team2 } = score;
+  if (!Number.isInteger(team1) || !Number.isInteger(team2) || team1 < 0 || team2 < 0) {
+    return 'Scores must be whole numbers';
+  }
+  const high = Math.max(team1, team2);
+  const low = Math.min(team1, team2);
+  if (high < gameTo) return `Games are played to ${gameTo}`;
+  if (high - low < 2) return 'Must win by 2';
+  // Past the target the game ends as soon as someone leads by 2
+  if (high > gameTo && high - low !== 2) return `A game past ${gameTo} ends at a 2-point lead`;
+  return null;
+}
+
+// Points scored minus points conceded (0 until a score is entered)
+export function getPointDifferential(player: { points: number; pointsAgainst: number }): number {
+  return player.points - player.pointsAgainst;
+}
+
+export function formatPointDifferential(differential: number): string {
+  return differential > 0 ? `+${differential}` : `${differential}`;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { getGameRecord, getMatchPoints, getSeriesWinner, hasSeriesPlay } from './series';
+import type { Match, MatchGame } from '../types';
+import { createMatch } from '../test/factories';
+
+const playedMatch = (overrides: Partial<Match> = {}) => createMatch({
+  id: 'm1', team1: ['a'], team2: ['b'], winner: 1, outcome: 'win', startTime: 0, endTime: 1, ...overrides,
+});
+
+const game = (winner: 1 | 2, team1?: number, team2?: number): MatchGame => ({
+  winner,
+  score: team1 === undefined ? null : { team1, team2: team2! },
+  rallies: [],
+});
+
+describe('getSeriesWinner', () => {
+  it('needs a majority of the games', () => {
+    expect(getSeriesWinner([game(1)], 3)).toBeNull();
+    expect(getSeriesWinner([game(1), game(2)], 3)).toBeNull();
+    expect(getSeriesWinner([game(1), game(2), game(2)], 3)).toBe(2);
+    expect(getSeriesWinner([game(1), game(1)], 5)).toBeNull();
+    expect(getSeriesWinner([game(1)], 1)).toBe(1);
+  });
+});
+
+describe('getGameRecord', () => {
+  it('counts a single game match as one game', () => {
+    expect(getGameRecord(playedMatch({ winner: 2 }), 2)).toEqual({ won: 1, lost: 0 });
+    expect(getGameRecord(playedMatch({ winner: 2 }), 1)).toEqual({ won: 0, lost: 1 });
+  });
+
+  it('counts each game of a series', () => {
+    const match = playedMatch({ winner: 1, games: [game(1), game(2), game(1)] });
+    expect(getGameRecord(match, 1)).toEqual({ won: 2, lost: 1 });
+    expect(getGameRecord(match, 2)).toEqual({ won: 1, lost: 2 });
+  });
+});
+
+describe('getMatchPoints', () => {
+  it('adds up the scored games of a series', () => {
+    const match = playedMatch({ games: [game(1, 11, 7), game(2), game(1, 11, 9)] });
+    expect(getMatchPoints(match)).toEqual({ team1: 22, team2: 16 });
+  });
+
+  it('uses the match score for a single game', () => {
+    expect(getMatchPoints(playedMatch({ score: { team1: 11, team2: 4 } }))).toEqual({ team1: 11, team2: 4 });
+    expect(getMatchPoints(playedMatch())).toEqual({ team1: 0, team2: 0 });
+  });
+});
+
+describe('hasSeriesPlay', () => {
+  it('is true once games and matches differ', () => {
+    expect(hasSeriesPlay([{ gamesPlayed: 2, gamesWon: 1, gamesLost: 1 }])).toBe(false);
+    expect(hasSeriesPlay([{ gamesPlayed: 1, gamesWon: 2, gamesLost: 1 }])).toBe(true);
+  });
+});
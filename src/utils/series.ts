@@ -0,0 +1,48 @@
+import type { Match, MatchGame, MatchScore } from '../types';
+
+// Best-of-N: a court match is a series of games, and it's over once one side
+// has won a majority. A best-of-1 match keeps no game list; its winner and
+// score are the whole story.
+
+export function getGamesNeeded(bestOf: number): number {
+  return Math.floor(bestOf / 2) + 1;
+}
+
+// Games won by each side so far
+export function getSeriesScore(games: MatchGame[]): MatchScore {
+  return {
+    team1: games.filter(g => g.winner === 1).length,
+    team2: games.filter(g => g.winner === 2).length,
+  };
+}
+
+export function getSeriesWinner(games: MatchGame[], bestOf: number): 1 | 2 | null {
+  const needed = getGamesNeeded(bestOf);
+  const score = getSeriesScore(games);
+  if (score.team1 >= needed) return 1;
+  if (score.team2 >= needed) return 2;
+  return null;
+}
+
+// Games a side won and lost in a completed match
+export function getGameRecord(match: Match, team: 1 | 2): { won: number; lost: number } {
+  if (match.games.length === 0) {
+    return match.winner === team ? { won: 1, lost: 0 } : { won: 0, lost: 1 };
+  }
+  const score = getSeriesScore(match.games);
+  return team === 1 ? { won: score.team1, lost: score.team2 } : { won: score.team2, lost: score.team1 };
+}
+
+// Points each side scored, across every game that had a score entered
+export function getMatchPoints(match: Match): MatchScore {
+  const scores = match.games.length > 0 ? match.games.map(g => g.score) : [match.score];
+  return scores.reduce<MatchScore>((total, score) => score
+    ? { team1: total.team1 + score.team1, team2: total.team2 + score.team2 }
+    : total, { team1: 0, team2: 0 });
+}
+
+// Whether any match so far was a series, so standings should show games
+// separately from matches
+export function hasSeriesPlay(players: { gamesPlayed: number; gamesWon: number; gamesLost: number }[]): boolean {
+  return players.some(p => p.gamesWon + p.gamesLost !== p.gamesPlayed);
+}
@@ -94,6 +94,18 @@ export function announceWinner(
   announce(message);
 }
 
+// Best-of-N: a game that doesn't decide the series
+export function announceGameWinner(
+  court: number,
+  winnerNames: string[],
+  winnerGames: number,
+  loserGames: number
+): void {
+  const winners = winnerNames.join(' and ');
+  const message = `Court ${court}. Game to ${winners}. ${winnerGames} games to ${loserGames}.`;
+  announce(message);
+}
+
 export function announceLeaderboard(
   topPlayers: { name: string; wins: number }[]
 ): void {
@@ -114,3 +126,8 @@ export function announceLeaderboard(
 
   announce('Great games everyone!');
 }
+
+// Scorekeeper call before each serve, e.g. "4-2-1" is read as "4, 2, 1"
+export function announceScore(call: string): void {
+  announce(call.split('-').join(', '));
+}
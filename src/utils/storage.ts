@@ -1,9 +1,14 @@
-import type { Session, SkillLevel } from '../types';
-import { saveVenueLocation, getLocalVenue, addToRoster } from './supabase';
+import type { Session, SkillLevel, PlayerCategory, AvoidPair } from '../types';
+import { DEFAULT_QUEUE_PRIORITY } from '../types';
+import { saveVenueLocation, getLocalVenue, addToRoster, addToAvoidList, removeFromAvoidList, setRosterMembership, saveLadderToCloud } from './supabase';
+import { buildPairingHistory } from './history';
+import { generateSeed, type Rng } from './random';
 
 const STORAGE_KEY = 'dinksync_session';
 const LOCATIONS_KEY = 'dinksync_locations';
 const PLAYERS_KEY = 'dinksync_players';
+const AVOID_LIST_KEY = 'dinksync_avoid_list';
+const LADDER_KEY = 'dinksync_ladder';
 const SYNCED_SESSION_ID_KEY = 'dinksync_synced_session_id';
 
 export interface SavedLocation {
@@ -19,17 +24,129 @@ export function loadSession(): Session | null {
   const data = localStorage.getItem(STORAGE_KEY);
   if (!data) return null;
   try {
-    const session = JSON.parse(data) as Session;
-    // Migration: ensure gameMode exists (added in singles mode update)
-    if (!session.gameMode) {
-      session.gameMode = 'doubles';
-    }
-    return session;
+    return migrateSession(JSON.parse(data) as Session);
   } catch {
     return null;
   }
 }
 
+// Fill in fields added since the session was saved
+export function migrateSession(session: Session): Session {
+  // Migration: ensure gameMode exists (added in singles mode update)
+  if (!session.gameMode) {
+    session.gameMode = 'doubles';
+  }
+  // Migration: ensure a random seed exists (added with seeded matching)
+  if (session.seed === undefined) {
+    session.seed = generateSeed();
+  }
+  if (session.rngState === undefined) {
+    session.rngState = session.seed;
+  }
+  // Migration: ensure avoid list exists (added with avoid lists)
+  if (!session.avoidList) {
+    session.avoidList = getAvoidList();
+  }
+  // Migration: ensure challenge ladder state exists (added with challenge ladders)
+  if (!session.ladder) {
+    session.ladder = getLadder();
+  }
+  if (!session.challenges) {
+    session.challenges = [];
+  }
+  if (session.challengeCourt === undefined) {
+    session.challengeCourt = null;
+  }
+  // Migration: ensure court tiers exist (added with tiered courts)
+  if (!session.courtTiers) {
+    session.courtTiers = {};
+  }
+  // Migration: ensure rotation settings and win streaks exist (added with winners-stay mode)
+  if (!session.rotationMode) {
+    session.rotationMode = 'standard';
+  }
+  if (!session.winStreakCap) {
+    session.winStreakCap = 2;
+  }
+  // Migration: ensure schedule exists (added with round-robin schedules)
+  if (session.schedule === undefined) {
+    session.schedule = null;
+  }
+  // Migration: ensure points settings exist (added with Americano/Mexicano)
+  if (!session.pointsPerMatch) {
+    session.pointsPerMatch = 21;
+  }
+  // Migration: ensure score target exists (added with score entry)
+  if (!session.gameTo) {
+    session.gameTo = 11;
+  }
+  // Migration: ensure series length exists (added with best-of-N matches)
+  if (!session.bestOf) {
+    session.bestOf = 1;
+  }
+  // Migration: ensure time cap settings exist (added with match time caps)
+  if (session.timeCapMinutes === undefined) {
+    session.timeCapMinutes = null;
+  }
+  if (!session.timeCapPolicy) {
+    session.timeCapPolicy = 'leader-wins';
+  }
+  // Migration: ensure pause and break settings exist (added with session pauses)
+  if (!session.pauses) {
+    session.pauses = [];
+  }
+  if (session.breakEveryMinutes === undefined) {
+    session.breakEveryMinutes = null;
+  }
+  if (!session.breakLengthMinutes) {
+    session.breakLengthMinutes = 10;
+  }
+  // Migration: ensure resume sync record exists (added with resuming ended sessions)
+  if (session.previousSync === undefined) {
+    session.previousSync = null;
+  }
+  session.matches = session.matches.map(m => ({ ...m, score: m.score ?? null, rallies: m.rallies ?? [], games: m.games ?? [], timeCapped: m.timeCapped ?? false, outcome: m.outcome ?? 'win' }));
+  session.activeMatches = session.activeMatches.map(m => ({ ...m, score: m.score ?? null, rallies: m.rallies ?? [], games: m.games ?? [], timeCapped: m.timeCapped ?? false, outcome: m.outcome ?? null }));
+  // Migration: ensure river state exists (added with up-and-down-the-river mode)
+  if (session.river === undefined) {
+    session.river = null;
+  }
+  // Migration: ensure tournament state exists (added with tournament brackets)
+  if (session.bracket === undefined) {
+    session.bracket = null;
+  }
+  if (session.doubleElimination === undefined) {
+    session.doubleElimination = false;
+  }
+  // Migration: ensure mixed doubles settings exist (added with mixed doubles)
+  if (session.mixedDoubles === undefined) {
+    session.mixedDoubles = false;
+  }
+  if (session.mixedFallbackMinutes === undefined) {
+    session.mixedFallbackMinutes = 10;
+  }
+  // Migration: ensure queue priority policy exists (added with priority policies)
+  if (!session.queuePriority) {
+    session.queuePriority = { ...DEFAULT_QUEUE_PRIORITY };
+  }
+  // Migration: ensure newer per-player fields exist (ratings, mixed doubles, priority policies, points)
+  session.players = session.players.map(p => ({
+    ...p,
+    winStreak: p.winStreak ?? 0,
+    points: p.points ?? 0,
+    pointsAgainst: p.pointsAgainst ?? 0,
+    gamesWon: p.gamesWon ?? p.wins,
+    gamesLost: p.gamesLost ?? p.losses,
+    rating: p.rating ?? null,
+    category: p.category ?? null,
+    isMember: p.isMember ?? false,
+    arrivedAt: p.arrivedAt ?? p.checkedInAt ?? null,
+  }));
+  // Pairing history is derived from completed matches, so always rebuild it
+  session.history = buildPairingHistory(session.matches);
+  return session;
+}
+
 export function clearSession(): void {
   localStorage.removeItem(STORAGE_KEY);
   localStorage.removeItem(SYNCED_SESSION_ID_KEY);
@@ -84,8 +201,8 @@ export function saveLocation(location: string, courts: number): void {
   }
 }
 
-export function generateId(): string {
-  return Math.random().toString(36).substring(2, 9);
+export function generateId(rng: Rng = Math.random): string {
+  return rng().toString(36).substring(2, 9);
 }
 
 // Player database for persistence across sessions
@@ -93,10 +210,15 @@ export interface SavedPlayer {
   id: string;
   name: string;
   skill: SkillLevel;
+  rating: number | null; // Elo rating carried between sessions (null = unrated)
+  category: PlayerCategory; // For mixed doubles (null = not set)
+  isMember: boolean;
   lifetimeWins: number;
   lifetimeLosses: number;
   lifetimeGames: number;
   lastPlayed: number | null;
+  lastPlayedBefore?: number | null; // lastPlayed before the latest session ended, for resuming it
+  ratingBefore?: number | null; // Likewise the rating
 }
 
 export function getSavedPlayers(): SavedPlayer[] {
@@ -135,7 +257,9 @@ export function updatePlayerStats(
   name: string,
   skill: SkillLevel,
   sessionWins: number,
-  sessionLosses: number
+  sessionLosses: number,
+  rating: number | null = null,
+  category: PlayerCategory = null
 ): void {
   const players = getSavedPlayers();
   const normalizedName = name.trim();
@@ -147,9 +271,13 @@ export function updatePlayerStats(
     // Update existing player
     const player = players[existingIndex];
     player.skill = skill ?? player.skill;
+    player.ratingBefore = player.rating ?? null;
+    player.rating = rating ?? player.rating ?? null;
+    player.category = category ?? player.category ?? null;
     player.lifetimeWins += sessionWins;
     player.lifetimeLosses += sessionLosses;
     player.lifetimeGames += sessionWins + sessionLosses;
+    player.lastPlayedBefore = player.lastPlayed;
     player.lastPlayed = Date.now();
   } else {
     // Add new player
@@ -157,10 +285,15 @@ export function updatePlayerStats(
       id: generateId(),
       name: normalizedName,
       skill,
+      rating,
+      category,
+      isMember: false,
       lifetimeWins: sessionWins,
       lifetimeLosses: sessionLosses,
       lifetimeGames: sessionWins + sessionLosses,
       lastPlayed: Date.now(),
+      lastPlayedBefore: null,
+      ratingBefore: null,
     });
   }
 
@@ -168,8 +301,31 @@ export function updatePlayerStats(
 
   // Also sync to cloud roster if venue is connected
   if (getLocalVenue()) {
-    addToRoster(normalizedName, skill).catch(console.error);
+    addToRoster(normalizedName, skill, category).catch(console.error);
+  }
+}
+
+// Take back what updatePlayerStats added when a session is resumed after ending
+export function revertPlayerStats(name: string, sessionWins: number, sessionLosses: number): void {
+  const players = getSavedPlayers();
+  const normalizedName = name.trim();
+  const player = players.find(
+    p => p.name.toLowerCase() === normalizedName.toLowerCase()
+  );
+  if (!player) return;
+
+  player.lifetimeWins = Math.max(0, player.lifetimeWins - sessionWins);
+  player.lifetimeLosses = Math.max(0, player.lifetimeLosses - sessionLosses);
+  player.lifetimeGames = Math.max(0, player.lifetimeGames - sessionWins - sessionLosses);
+  if (player.lastPlayedBefore !== undefined) {
+    player.lastPlayed = player.lastPlayedBefore;
+    delete player.lastPlayedBefore;
+  }
+  if (player.ratingBefore !== undefined) {
+    player.rating = player.ratingBefore;
+    delete player.ratingBefore;
   }
+  savePlayers(players);
 }
 
 export function getOrCreateSavedPlayer(name: string): SavedPlayer | null {
@@ -190,6 +346,28 @@ export function updateSavedPlayerSkill(playerId: string, skill: SkillLevel): voi
   }
 }
 
+export function updateSavedPlayerCategory(playerId: string, category: PlayerCategory): void {
+  const players = getSavedPlayers();
+  const player = players.find(p => p.id === playerId);
+  if (player) {
+    player.category = category;
+    savePlayers(players);
+  }
+}
+
+export function updateSavedPlayerMembership(playerId: string, isMember: boolean): void {
+  const players = getSavedPlayers();
+  const player = players.find(p => p.id === playerId);
+  if (player) {
+    player.isMember = isMember;
+    savePlayers(players);
+
+    if (getLocalVenue()) {
+      setRosterMembership(player.name, isMember).catch(console.error);
+    }
+  }
+}
+
 export function updateSavedPlayerName(playerId: string, newName: string): void {
   const players = getSavedPlayers();
   const player = players.find(p => p.id === playerId);
@@ -204,3 +382,54 @@ export function deleteSavedPlayer(playerId: string): void {
   const filtered = players.filter(p => p.id !== playerId);
   savePlayers(filtered);
 }
+
+// Avoid list (players who must never share a court), kept alongside the roster
+export function getAvoidList(): AvoidPair[] {
+  const data = localStorage.getItem(AVOID_LIST_KEY);
+  if (!data) return [];
+  try {
+    return JSON.parse(data) as AvoidPair[];
+  } catch {
+    return [];
+  }
+}
+
+function saveAvoidList(avoidList: AvoidPair[]): void {
+  localStorage.setItem(AVOID_LIST_KEY, JSON.stringify(avoidList));
+}
+
+export function saveAvoidPair(pair: AvoidPair): void {
+  saveAvoidList([...getAvoidList().filter(p => p.id !== pair.id), pair]);
+
+  // Also sync to cloud roster if venue is connected
+  if (getLocalVenue()) {
+    addToAvoidList(pair).catch(console.error);
+  }
+}
+
+export function deleteAvoidPair(pair: AvoidPair): void {
+  saveAvoidList(getAvoidList().filter(p => p.id !== pair.id));
+
+  if (getLocalVenue()) {
+    removeFromAvoidList(pair).catch(console.error);
+  }
+}
+
+// Challenge ladder (player names, top rung first), kept alongside the roster
+export function getLadder(): string[] {
+  const data = localStorage.getItem(LADDER_KEY);
+  if (!data) return [];
+  try {
+    return JSON.parse(data) as string[];
+  } catch {
+    return [];
+  }
+}
+
+export function saveLadder(ladder: string[]): void {
+  localStorage.setItem(LADDER_KEY, JSON.stringify(ladder));
+
+  if (getLocalVenue()) {
+    saveLadderToCloud(ladder).catch(console.error);
+  }
+}
@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
-import type { Venue, VenuePlayer, VenueSession, SessionPlayer, SkillLevel, VenueSettings } from '../types';
+import type { Venue, VenuePlayer, VenueSession, SessionPlayer, SessionMatch, SkillLevel, PlayerCategory, VenueSettings, AvoidPair, Bracket, SyncedSessionRecord } from '../types';
 import { DEFAULT_VENUE_SETTINGS } from '../types';
 
 // Initialize Supabase client
@@ -42,7 +42,8 @@ export function getLocalVenue(): Venue | null {
 
 export function getVenueSettings(): VenueSettings {
   const venue = getLocalVenue();
-  return venue?.settings ?? { ...DEFAULT_VENUE_SETTINGS };
+  // Merge with defaults so settings added later are always present
+  return { ...DEFAULT_VENUE_SETTINGS, ...venue?.settings };
 }
 
 export function updateVenueSettings(settings: Partial<VenueSettings>): void {
@@ -133,6 +134,7 @@ async function migrateLocalDataToCloud(venueId: string): Promise<void> {
       const players = JSON.parse(playersData) as Array<{
         name: string;
         skill: SkillLevel;
+        rating?: number | null;
         lifetimeWins: number;
         lifetimeLosses: number;
         lifetimeGames: number;
@@ -149,12 +151,14 @@ async function migrateLocalDataToCloud(venueId: string): Promise<void> {
             p_losses: player.lifetimeLosses,
             p_games: player.lifetimeGames,
           });
+          await updatePlayerRating(venueId, player.name, player.rating ?? null);
         } else if (player.name) {
           // For players who haven't played yet, just add to roster (ignore if exists)
           await supabase.from('players').upsert({
             venue_id: venueId,
             name: player.name,
             skill: player.skill,
+            rating: player.rating ?? null,
             lifetime_wins: 0,
             lifetime_losses: 0,
             lifetime_games: 0,
@@ -225,6 +229,8 @@ export async function joinVenue(slug: string, password: string): Promise<{ succe
 
   // Load roster from cloud and merge with localStorage players
   await syncRosterToLocal(venue.id);
+  await syncAvoidListToLocal(venue.id);
+  await syncLadderToLocal(venue.id);
 
   return { success: true, venue };
 }
@@ -251,7 +257,7 @@ async function syncRosterToLocal(venueId: string): Promise<void> {
 
   const { data, error } = await supabase
     .from('players')
-    .select('name, skill, lifetime_wins, lifetime_losses, lifetime_games, last_played_at')
+    .select('name, skill, rating, category, is_member, lifetime_wins, lifetime_losses, lifetime_games, last_played_at')
     .eq('venue_id', venueId)
     .order('last_played_at', { ascending: false });
 
@@ -262,6 +268,9 @@ async function syncRosterToLocal(venueId: string): Promise<void> {
     id: crypto.randomUUID(),
     name: p.name,
     skill: p.skill,
+    rating: p.rating ?? null,
+    category: (p.category ?? null) as PlayerCategory,
+    isMember: p.is_member ?? false,
     lifetimeWins: p.lifetime_wins,
     lifetimeLosses: p.lifetime_losses,
     lifetimeGames: p.lifetime_games,
@@ -271,6 +280,26 @@ async function syncRosterToLocal(venueId: string): Promise<void> {
   localStorage.setItem('dinksync_players', JSON.stringify(cloudPlayers));
 }
 
+// Sync cloud avoid list to localStorage (cloud is authoritative, like the roster)
+async function syncAvoidListToLocal(venueId: string): Promise<void> {
+  if (!supabase) return;
+
+  const { data, error } = await supabase
+    .from('avoid_pairs')
+    .select('id, player1, player2, reason')
+    .eq('venue_id', venueId);
+
+  if (error || !data) return;
+
+  localStorage.setItem('dinksync_avoid_list', JSON.stringify(data));
+}
+
+// Sync cloud challenge ladder to localStorage (cloud is authoritative, like the roster)
+async function syncLadderToLocal(venueId: string): Promise<void> {
+  const ladder = await getVenueLadder(venueId);
+  localStorage.setItem('dinksync_ladder', JSON.stringify(ladder));
+}
+
 // Get venue by slug (for public leaderboard)
 export async function getVenueBySlug(slug: string): Promise<Venue | null> {
   if (!supabase) return null;
@@ -308,6 +337,8 @@ export async function getVenuePlayers(venueId: string): Promise<VenuePlayer[]> {
     venueId: p.venue_id,
     name: p.name,
     skill: p.skill as SkillLevel,
+    rating: p.rating ?? null,
+    category: (p.category ?? null) as PlayerCategory,
     lifetimeWins: p.lifetime_wins,
     lifetimeLosses: p.lifetime_losses,
     lifetimeGames: p.lifetime_games,
@@ -321,6 +352,7 @@ interface SyncItem {
   players: Array<{
     name: string;
     skill: SkillLevel;
+    rating?: number | null;
     wins: number;
     losses: number;
     gamesPlayed: number;
@@ -342,6 +374,7 @@ export async function syncSessionStats(
   players: Array<{
     name: string;
     skill: SkillLevel;
+    rating?: number | null;
     wins: number;
     losses: number;
     gamesPlayed: number;
@@ -406,6 +439,7 @@ async function upsertPlayerDirect(
   player: {
     name: string;
     skill: SkillLevel;
+    rating?: number | null;
     wins: number;
     losses: number;
     gamesPlayed: number;
@@ -421,6 +455,19 @@ async function upsertPlayerDirect(
     p_losses: player.losses,
     p_games: player.gamesPlayed,
   });
+
+  await updatePlayerRating(venueId, player.name, player.rating ?? null);
+}
+
+// Ratings are absolute values (not increments), so they're set after the stats upsert
+async function updatePlayerRating(venueId: string, name: string, rating: number | null): Promise<void> {
+  if (!supabase || rating === null) return;
+
+  await supabase
+    .from('players')
+    .update({ rating })
+    .eq('venue_id', venueId)
+    .eq('name', name);
 }
 
 // Process queued syncs (call on app startup or when online)
@@ -455,7 +502,7 @@ export function isSupabaseConfigured(): boolean {
 // Session-based sync (for shareable session URLs)
 // ============================================
 
-interface SessionSyncData {
+export interface SessionSyncData {
   location: string;
   courts: number;
   totalGames: number;
@@ -463,10 +510,17 @@ interface SessionSyncData {
   players: Array<{
     name: string;
     skill: SkillLevel;
+    rating?: number | null;
     wins: number;
     losses: number;
     gamesPlayed: number;
+    gamesWon: number;
+    gamesLost: number;
+    pointsFor: number;
+    pointsAgainst: number;
   }>;
+  // Games that had a final score entered, by player name
+  matches: Array<Omit<SessionMatch, 'id' | 'sessionId'>>;
 }
 
 // Create a session and sync player stats, returns session ID for sharing
@@ -497,33 +551,130 @@ export async function createSessionAndSync(data: SessionSyncData): Promise<strin
     }
 
     const sessionId = sessionData.id;
+    await insertSessionDetails(sessionId, activePlayers, data.matches);
 
-    // Insert session players
-    const sessionPlayers = activePlayers.map((p) => ({
-      session_id: sessionId,
-      player_name: p.name,
-      skill: p.skill,
-      wins: p.wins,
-      losses: p.losses,
-      games_played: p.gamesPlayed,
-    }));
+    // Also update lifetime stats
+    for (const player of activePlayers) {
+      await upsertPlayerDirect(venue.id, player);
+    }
+
+    return sessionId;
+  } catch (err) {
+    console.error('Session sync failed:', err);
+    return null;
+  }
+}
+
+// Insert the player and scored-game rows for a session. Returns whether
+// every insert went through.
+async function insertSessionDetails(
+  sessionId: string,
+  players: SessionSyncData['players'],
+  matches: SessionSyncData['matches']
+): Promise<boolean> {
+  if (!supabase) return false;
 
+  if (players.length > 0) {
     const { error: playersError } = await supabase
       .from('session_players')
-      .insert(sessionPlayers);
+      .insert(players.map((p) => ({
+        session_id: sessionId,
+        player_name: p.name,
+        skill: p.skill,
+        wins: p.wins,
+        losses: p.losses,
+        games_played: p.gamesPlayed,
+        games_won: p.gamesWon,
+        games_lost: p.gamesLost,
+        points_for: p.pointsFor,
+        points_against: p.pointsAgainst,
+      })));
 
     if (playersError) {
       console.error('Failed to insert session players:', playersError);
+      return false;
     }
+  }
 
-    // Also update lifetime stats
-    for (const player of activePlayers) {
-      await upsertPlayerDirect(venue.id, player);
+  if (matches.length > 0) {
+    const { error: matchesError } = await supabase
+      .from('session_matches')
+      .insert(matches.map((m) => ({
+        session_id: sessionId,
+        court: m.court,
+        team1: m.team1,
+        team2: m.team2,
+        team1_score: m.team1Score,
+        team2_score: m.team2Score,
+      })));
+
+    if (matchesError) {
+      console.error('Failed to insert session matches:', matchesError);
+      return false;
     }
+  }
 
-    return sessionId;
+  return true;
+}
+
+// Sync a session that was already synced, then resumed and ended again.
+// Its rows are replaced, and lifetime stats move by only the difference from
+// what was sent before, so nothing is counted twice. Returns the session ID.
+export async function resyncSession(previous: SyncedSessionRecord, data: SessionSyncData): Promise<string | null> {
+  const venue = getLocalVenue();
+  if (!venue || !supabase) return null;
+
+  const activePlayers = data.players.filter((p) => p.gamesPlayed > 0);
+
+  try {
+    const { error: sessionError } = await supabase
+      .from('sessions')
+      .update({
+        location: data.location,
+        courts: data.courts,
+        total_games: data.totalGames,
+        ended_at: new Date().toISOString(),
+      })
+      .eq('id', previous.sessionId);
+
+    if (sessionError) {
+      console.error('Failed to update session:', sessionError);
+      return null;
+    }
+
+    // Stop before lifetime stats if the rows weren't replaced, so a retry
+    // starts again from the same record
+    const { error: playersError } = await supabase.from('session_players').delete().eq('session_id', previous.sessionId);
+    if (playersError) {
+      console.error('Failed to clear session players:', playersError);
+      return null;
+    }
+    const { error: matchesError } = await supabase.from('session_matches').delete().eq('session_id', previous.sessionId);
+    if (matchesError) {
+      console.error('Failed to clear session matches:', matchesError);
+      return null;
+    }
+    if (!await insertSessionDetails(previous.sessionId, activePlayers, data.matches)) return null;
+
+    // Lifetime counters get only what changed since the first sync, which is
+    // negative for anyone whose games were undone after resuming
+    const names = new Set([...activePlayers.map(p => p.name), ...previous.players.map(p => p.name)]);
+    for (const name of names) {
+      const now = activePlayers.find(p => p.name === name);
+      const before = previous.players.find(p => p.name === name);
+      await upsertPlayerDirect(venue.id, {
+        name,
+        skill: now?.skill ?? null,
+        rating: now?.rating ?? null,
+        wins: (now?.wins ?? 0) - (before?.wins ?? 0),
+        losses: (now?.losses ?? 0) - (before?.losses ?? 0),
+        gamesPlayed: (now?.gamesPlayed ?? 0) - (before?.gamesPlayed ?? 0),
+      });
+    }
+
+    return previous.sessionId;
   } catch (err) {
-    console.error('Session sync failed:', err);
+    console.error('Session resync failed:', err);
     return null;
   }
 }
@@ -571,6 +722,33 @@ export async function getSessionPlayers(sessionId: string): Promise<SessionPlaye
     wins: p.wins,
     losses: p.losses,
     gamesPlayed: p.games_played,
+    gamesWon: p.games_won ?? p.wins,
+    gamesLost: p.games_lost ?? p.losses,
+    pointsFor: p.points_for ?? 0,
+    pointsAgainst: p.points_against ?? 0,
+  }));
+}
+
+// Get scored games for a session (for public session page)
+export async function getSessionMatches(sessionId: string): Promise<SessionMatch[]> {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('session_matches')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+
+  return data.map((m) => ({
+    id: m.id,
+    sessionId: m.session_id,
+    court: m.court,
+    team1: m.team1,
+    team2: m.team2,
+    team1Score: m.team1_score,
+    team2Score: m.team2_score,
   }));
 }
 
@@ -595,6 +773,8 @@ export async function getPlayerLifetimeStats(
     venueId: data.venue_id,
     name: data.name,
     skill: data.skill as SkillLevel,
+    rating: data.rating ?? null,
+    category: (data.category ?? null) as PlayerCategory,
     lifetimeWins: data.lifetime_wins,
     lifetimeLosses: data.lifetime_losses,
     lifetimeGames: data.lifetime_games,
@@ -691,6 +871,18 @@ export async function getVenueRoster(venueId: string): Promise<Array<{ name: str
   }));
 }
 
+// Mark a roster player as a venue member (or not)
+export async function setRosterMembership(name: string, isMember: boolean): Promise<void> {
+  const venue = getLocalVenue();
+  if (!venue || !supabase) return;
+
+  await supabase
+    .from('players')
+    .update({ is_member: isMember })
+    .eq('venue_id', venue.id)
+    .eq('name', name);
+}
+
 // Get recent sessions for a venue (for session history)
 export async function getVenueSessions(venueId: string, limit: number = 20): Promise<VenueSession[]> {
   if (!supabase) return [];
@@ -716,7 +908,7 @@ export async function getVenueSessions(venueId: string, limit: number = 20): Pro
 }
 
 // Add a new player to the roster (for when they're first added to a session)
-export async function addToRoster(name: string, skill: SkillLevel): Promise<void> {
+export async function addToRoster(name: string, skill: SkillLevel, category: PlayerCategory = null): Promise<void> {
   const venue = getLocalVenue();
   if (!venue || !supabase) return;
 
@@ -734,15 +926,111 @@ export async function addToRoster(name: string, skill: SkillLevel): Promise<void
       venue_id: venue.id,
       name,
       skill,
+      category,
       lifetime_wins: 0,
       lifetime_losses: 0,
       lifetime_games: 0,
     });
-  } else if (skill !== null) {
-    // Update skill if provided
+  } else if (skill !== null || category !== null) {
+    // Update skill and category if provided
     await supabase
       .from('players')
-      .update({ skill })
+      .update({
+        ...(skill !== null && { skill }),
+        ...(category !== null && { category }),
+      })
       .eq('id', existing.id);
   }
 }
+
+// ============================================
+// Avoid list sync (players who must never share a court)
+// ============================================
+
+export async function addToAvoidList(pair: AvoidPair): Promise<void> {
+  const venue = getLocalVenue();
+  if (!venue || !supabase) return;
+
+  await supabase.from('avoid_pairs').upsert({
+    id: pair.id,
+    venue_id: venue.id,
+    player1: pair.player1,
+    player2: pair.player2,
+    reason: pair.reason,
+  });
+}
+
+export async function removeFromAvoidList(pair: AvoidPair): Promise<void> {
+  const venue = getLocalVenue();
+  if (!venue || !supabase) return;
+
+  await supabase
+    .from('avoid_pairs')
+    .delete()
+    .eq('venue_id', venue.id)
+    .eq('id', pair.id);
+}
+
+// ============================================
+// Challenge ladder sync (venue-wide rungs, top rung = 1)
+// ============================================
+
+export async function saveLadderToCloud(ladder: string[]): Promise<void> {
+  const venue = getLocalVenue();
+  if (!venue || !supabase) return;
+
+  await supabase.from('ladder_rungs').upsert(
+    ladder.map((name, i) => ({ venue_id: venue.id, player_name: name, rung: i + 1 })),
+    { onConflict: 'venue_id,player_name' }
+  );
+}
+
+// Player names in ladder order (for the public leaderboard and joining a venue)
+export async function getVenueLadder(venueId: string): Promise<string[]> {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('ladder_rungs')
+    .select('player_name, rung')
+    .eq('venue_id', venueId)
+    .order('rung', { ascending: true });
+
+  if (error || !data) return [];
+
+  return data.map((r) => r.player_name);
+}
+
+// ============================================
+// Tournament brackets (for the public bracket page)
+// ============================================
+
+export async function saveBracketToCloud(bracket: Bracket, location: string): Promise<void> {
+  const venue = getLocalVenue();
+  if (!venue || !supabase) return;
+
+  await supabase.from('brackets').upsert({
+    id: bracket.id,
+    venue_id: venue.id,
+    location,
+    data: bracket,
+    updated_at: new Date().toISOString(),
+  }, { onConflict: 'venue_id,id' });
+}
+
+export async function getVenueBracket(
+  venueId: string,
+  bracketId: string
+): Promise<{ location: string; bracket: Bracket } | null> {
+  if (!supabase) return null;
+
+  const { data, error } = await supabase
+    .from('brackets')
+    .select('location, data')
+    .eq('venue_id', venueId)
+    .eq('id', bracketId)
+    .single();
+
+  if (error || !data) return null;
+
+  return { location: data.location, bracket: data.data as Bracket };
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { getTimeCapLeader, getTimeCapStage, getTimeRemaining } from './timeCap';
+import type { Match } from '../types';
+import { createMatch } from '../test/factories';
+
+const MINUTE = 60 * 1000;
+
+const liveMatch = (overrides: Partial<Match> = {}) =>
+  createMatch({ id: 'm1', team1: ['a'], team2: ['b'], startTime: 0, ...overrides });
+
+describe('getTimeRemaining', () => {
+  it('counts down from the match start, or is null without a cap', () => {
+    expect(getTimeRemaining(liveMatch(), 15, 10 * MINUTE)).toBe(5 * MINUTE);
+    expect(getTimeRemaining(liveMatch(), null, 10 * MINUTE)).toBeNull();
+  });
+
+  it('stands still while the session is paused', () => {
+    const pauses = [{ start: 4 * MINUTE, end: null, until: null, scheduled: false }];
+    expect(getTimeRemaining(liveMatch(), 15, 10 * MINUTE, pauses)).toBe(11 * MINUTE);
+    expect(getTimeRemaining(liveMatch(), 15, 20 * MINUTE, pauses)).toBe(11 * MINUTE);
+  });
+});
+
+describe('getTimeCapStage', () => {
+  it('warns, then calls the last two minutes, then expires', () => {
+    expect(getTimeCapStage(null)).toBe('running');
+    expect(getTimeCapStage(6 * MINUTE)).toBe('running');
+    expect(getTimeCapStage(5 * MINUTE)).toBe('warning');
+    expect(getTimeCapStage(2 * MINUTE)).toBe('final');
+    expect(getTimeCapStage(1)).toBe('final');
+    expect(getTimeCapStage(0)).toBe('expired');
+  });
+});
+
+describe('getTimeCapLeader', () => {
+  const options = { gameTo: 11, singles: true, rallyScoring: false };
+
+  it('goes by the live score', () => {
+    expect(getTimeCapLeader(liveMatch({ rallies: [1, 2, 2, 2] }), options)).toBe(2);
+    expect(getTimeCapLeader(liveMatch({ rallies: [2, 1] }), options)).toBeNull();
+    expect(getTimeCapLeader(liveMatch(), options)).toBeNull();
+  });
+
+  it('goes by games won in a series before the game in progress', () => {
+    const match = liveMatch({
+      games: [{ winner: 1, score: null, rallies: [] }],
+      rallies: [1, 2, 2, 2],
+    });
+    expect(getTimeCapLeader(match, options)).toBe(1);
+  });
+});
@@ -0,0 +1,53 @@
+import type { Match, SessionPause, TimeCapPolicy } from '../types';
+import { getPausedTime } from './pause';
+import { getRallyState, type RallyOptions } from './rally';
+import { getSeriesScore } from './series';
+
+// Time caps: a court match gets a fixed number of minutes. Staff see a
+// warning near the end, the court hears a two-minute call, and when time is
+// up the session's policy decides the match (or staff pick the winner).
+
+export const TIME_CAP_WARNING_MS = 5 * 60 * 1000;
+export const TIME_CAP_CALL_MS = 2 * 60 * 1000;
+
+export type TimeCapStage = 'running' | 'warning' | 'final' | 'expired';
+
+export const TIME_CAP_POLICIES: Record<TimeCapPolicy, { label: string; description: string }> = {
+  'leader-wins': {
+    label: 'Leader wins',
+    description: 'Whoever is ahead on the scorekeeper wins; staff pick when it\'s level or not being kept',
+  },
+  'staff-picks': {
+    label: 'Staff pick',
+    description: 'Staff record the result when time is up',
+  },
+};
+
+// Milliseconds left, or null when the session has no cap. The clock stands
+// still while the session is paused.
+export function getTimeRemaining(
+  match: Match,
+  capMinutes: number | null,
+  now: number,
+  pauses: SessionPause[] = []
+): number | null {
+  if (capMinutes === null) return null;
+  return match.startTime + capMinutes * 60 * 1000 + getPausedTime(pauses, match.startTime, now) - now;
+}
+
+export function getTimeCapStage(remaining: number | null): TimeCapStage {
+  if (remaining === null || remaining > TIME_CAP_WARNING_MS) return 'running';
+  if (remaining > TIME_CAP_CALL_MS) return 'warning';
+  if (remaining > 0) return 'final';
+  return 'expired';
+}
+
+// Who's ahead when time runs out: games won in a series, then the live
+// score of the game in progress. Null when level or nobody kept score.
+export function getTimeCapLeader(match: Match, options: RallyOptions): 1 | 2 | null {
+  const series = getSeriesScore(match.games);
+  if (series.team1 !== series.team2) return series.team1 > series.team2 ? 1 : 2;
+  const { score } = getRallyState(match.rallies, options);
+  if (score.team1 === score.team2) return null;
+  return score.team1 > score.team2 ? 1 : 2;
+}